@@ -0,0 +1,241 @@
+/**
+ * Price alert rules
+ *
+ * Rules are stored locally, per API key, and say which price movements a
+ * user cares about ("below $199 new and in stock", "15% under the 30-day
+ * average"). {@link evaluateAlert} decides whether a rule fires for a
+ * product's current offers and price history.
+ */
+
+import { createHash, randomBytes } from "node:crypto"
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import { dirname } from "node:path"
+import { dailyLows, priceStats } from "./analysis.js"
+import { convertOffers, type RateTable } from "./currency.js"
+import { CurrencyConversionError } from "./errors.js"
+import { Logger } from "./logger.js"
+import { cheapestOffer, comparablePrice, filterOffers, matchesRetailer, type OfferFilters } from "./offers.js"
+import { formatOfferPrice, formatPrice } from "./output.js"
+import type { AlertCheckStatus, AlertOfferFilters, AlertRule, Offer, RetailerPriceHistory } from "./types.js"
+
+/** Days of history averaged by `below_average` rules when none is given */
+export const DEFAULT_AVERAGE_DAYS = 30
+
+/**
+ * Alert rules grouped by account, where an account is the
+ * {@link accountId} of the API key that created them
+ */
+export interface AlertStore {
+  list(account: string): AlertRule[]
+  get(account: string, id: string): AlertRule | undefined
+  /** Insert or replace a rule */
+  put(account: string, rule: AlertRule): void
+  /** Delete a rule, returning whether it existed */
+  delete(account: string, id: string): boolean
+}
+
+/** Alert rules kept in memory for the lifetime of the server */
+export class MemoryAlertStore implements AlertStore {
+  protected readonly accounts = new Map<string, Map<string, AlertRule>>()
+
+  list(account: string): AlertRule[] {
+    return [...(this.accounts.get(account)?.values() ?? [])]
+  }
+
+  get(account: string, id: string): AlertRule | undefined {
+    return this.accounts.get(account)?.get(id)
+  }
+
+  put(account: string, rule: AlertRule): void {
+    let rules = this.accounts.get(account)
+    if (!rules) {
+      rules = new Map()
+      this.accounts.set(account, rules)
+    }
+    rules.set(rule.id, rule)
+  }
+
+  delete(account: string, id: string): boolean {
+    return this.accounts.get(account)?.delete(id) ?? false
+  }
+}
+
+/**
+ * Alert rules persisted to a JSON file. The file is read once at startup and
+ * rewritten atomically after every change.
+ */
+export class JsonFileAlertStore extends MemoryAlertStore {
+  constructor(private readonly path: string, private readonly logger = new Logger()) {
+    super()
+
+    let stored: Record<string, AlertRule[]> = {}
+    try {
+      stored = JSON.parse(readFileSync(path, "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Ignoring unreadable alerts file", { path, error })
+      }
+    }
+
+    Object.entries(stored).forEach(([account, rules]) => {
+      if (Array.isArray(rules)) rules.forEach((rule) => super.put(account, rule))
+    })
+  }
+
+  put(account: string, rule: AlertRule): void {
+    super.put(account, rule)
+    this.save()
+  }
+
+  delete(account: string, id: string): boolean {
+    const deleted = super.delete(account, id)
+    if (deleted) this.save()
+    return deleted
+  }
+
+  private save() {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true })
+      const temporary = `${this.path}.tmp`
+      const stored = Object.fromEntries([...this.accounts.entries()].map(([account, rules]) => [account, [...rules.values()]]))
+      writeFileSync(temporary, JSON.stringify(stored, null, 2))
+      renameSync(temporary, this.path)
+    } catch (error) {
+      this.logger.warn("Failed to write alerts file", { path: this.path, error })
+    }
+  }
+}
+
+/**
+ * A stable, non-reversible account ID for an API key, so stored rules are
+ * kept apart per key without writing the key itself to disk
+ */
+export function accountId(apiKey: string) {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 16)
+}
+
+/** A new rule ID that isn't used by any of `existing` */
+export function newAlertId(existing: AlertRule[]) {
+  let id: string
+  do {
+    id = randomBytes(4).toString("hex")
+  } while (existing.some((rule) => rule.id === id))
+  return id
+}
+
+/**
+ * Why a rule can't be evaluated, e.g. a `below_price` rule without a target
+ * price, or `null` when it is complete
+ */
+export function alertProblem(rule: AlertRule): string | null {
+  if (rule.type === "below_price" && rule.target_price === null) {
+    return "below_price alerts need a target_price"
+  }
+  if (rule.type === "below_average" && rule.percent_below === null) {
+    return "below_average alerts need a percent_below"
+  }
+  return null
+}
+
+export function toOfferFilters(filters: AlertOfferFilters): OfferFilters {
+  return {
+    conditions: filters.conditions,
+    inStockOnly: filters.in_stock_only,
+    sellerType: filters.seller_type ?? undefined,
+    retailers: filters.retailers
+  }
+}
+
+/** Currency of a rule's `target_price` */
+export function targetCurrency(rule: AlertRule): string {
+  return rule.currency ?? "USD"
+}
+
+/** One-line description of a rule's condition and filters */
+export function describeAlert(rule: AlertRule): string {
+  let description = rule.type === "below_price"
+    ? `At or below ${formatPrice(rule.target_price, targetCurrency(rule))}`
+    : `${rule.percent_below}% under the ${rule.average_days ?? DEFAULT_AVERAGE_DAYS}-day average`
+
+  const filters: string[] = []
+  if (rule.filters.conditions.length > 0) filters.push(rule.filters.conditions.join("/"))
+  if (rule.filters.in_stock_only) filters.push("in stock")
+  if (rule.filters.seller_type) filters.push(rule.filters.seller_type === "retailer" ? "sold by the retailer" : "marketplace sellers")
+  if (rule.filters.retailers.length > 0) filters.push(`at ${rule.filters.retailers.join(", ")}`)
+  if (filters.length > 0) description += ` (${filters.join(", ")})`
+  return description
+}
+
+export interface AlertEvaluation {
+  status: Extract<AlertCheckStatus, "fired" | "not_fired" | "no_offers">
+  best_offer: Offer | null
+  average_price: number | null
+  reason: string
+}
+
+/**
+ * `offers` with their prices converted to `currency`, leaving out the ones in
+ * a currency the rate table has no rate for
+ */
+function inCurrency(offers: Offer[], currency: string, rates: RateTable | null): Offer[] {
+  return offers.flatMap((offer) => {
+    try {
+      return convertOffers([offer], currency, rates)
+    } catch (error) {
+      if (error instanceof CurrencyConversionError) return []
+      throw error
+    }
+  })
+}
+
+/**
+ * Decide whether `rule` fires for a product's current `offers`. `below_price`
+ * targets are in the rule's currency, so other offers are converted with the
+ * `rates` table first, and skipped when it can't convert them. `below_average`
+ * rules also need the product's recent price `history`; only retailers
+ * allowed by the rule's filters count towards the average.
+ */
+export function evaluateAlert(rule: AlertRule, offers: Offer[], history: RetailerPriceHistory[] = [], rates: RateTable | null = null): AlertEvaluation {
+  const matching = filterOffers(offers, toOfferFilters(rule.filters))
+  const candidates = rule.type === "below_price" ? inCurrency(matching, targetCurrency(rule), rates) : matching
+  const best = cheapestOffer(candidates)
+  if (!best) {
+    let reason = "No current offers for this product"
+    if (candidates.length < matching.length) {
+      reason = `None of the ${matching.length} matching offers are in ${targetCurrency(rule)} or have an exchange rate to convert them`
+    } else if (offers.length > 0) {
+      reason = `None of the ${offers.length} current offers match the rule's filters`
+    }
+    return { status: "no_offers", best_offer: null, average_price: null, reason }
+  }
+
+  const where = `${formatOfferPrice(best)} at ${best.retailer || "an unknown retailer"}`
+
+  if (rule.type === "below_price") {
+    const price = comparablePrice(best)!
+    const target = formatPrice(rule.target_price, targetCurrency(rule))
+    return price <= rule.target_price!
+      ? { status: "fired", best_offer: best, average_price: null, reason: `Best price ${where} is at or below the ${target} target` }
+      : { status: "not_fired", best_offer: best, average_price: null, reason: `Best price ${where} is still above the ${target} target` }
+  }
+
+  const price = best.price!
+
+  const days = rule.average_days ?? DEFAULT_AVERAGE_DAYS
+  const retailers = rule.filters.retailers
+  const relevant = retailers.length > 0 ? history.filter((series) => matchesRetailer(series.retailer, retailers)) : history
+  const average = priceStats(dailyLows(relevant)).mean
+  if (average === null) {
+    return { status: "not_fired", best_offer: best, average_price: null, reason: `No price history in the last ${days} days to compare ${where} against` }
+  }
+
+  const threshold = average * (1 - rule.percent_below! / 100)
+  const under = Math.round((1 - price / average) * 1000) / 10
+  const comparison = under >= 0 ? `${under}% under` : `${-under}% over`
+  return {
+    status: price <= threshold ? "fired" : "not_fired",
+    best_offer: best,
+    average_price: average,
+    reason: `Best price ${where} is ${comparison} the ${days}-day average of ${formatPrice(average, best.currency)} (alert at ${rule.percent_below}% under, ${formatPrice(threshold, best.currency)})`
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Price history analytics
+ *
+ * Pure functions that summarize `/products/offers/history` data: per-retailer
+ * and overall statistics, a buy verdict, and a downsampled series that keeps
+ * long date ranges small enough for the model's context.
+ */
+
+import { DEFAULT_LOCALE } from "./currency.js"
+import { formatPrice } from "./output.js"
+import type {
+  BuyVerdict,
+  PriceHistoryPoint,
+  PriceStats,
+  RetailerPriceHistory,
+  RetailerPriceStats,
+  SeriesBucket
+} from "./types.js"
+
+export type SeriesInterval = "day" | "week" | "month"
+
+/** Whether `value` is a calendar day in YYYY-MM-DD format */
+export function isDay(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const time = Date.parse(value)
+  // Rejects days that don't exist, such as "2024-02-30"
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value
+}
+
+/** The day `days` after `day` (both YYYY-MM-DD) */
+export function addDays(day: string, days: number) {
+  return new Date(Date.parse(day) + days * 86400000).toISOString().slice(0, 10)
+}
+
+/** Why `start_date` and `end_date` don't make a date range, or `null` when they do */
+export function dateRangeProblem(start: string, end: string): string | null {
+  if (!isDay(end)) return `end_date must be a date in YYYY-MM-DD format, got "${end}"`
+  if (!isDay(start)) return `start_date must be a date in YYYY-MM-DD format, got "${start}"`
+  if (start > end) return `start_date ${start} is after end_date ${end}`
+  return null
+}
+
+export interface PricedPoint {
+  timestamp: string
+  price: number
+}
+
+function pricedPoints(history: PriceHistoryPoint[]): PricedPoint[] {
+  return history
+    .filter((point) => point.price !== null && point.price > 0)
+    .map((point) => ({ timestamp: point.timestamp, price: point.price! }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+function median(sorted: number[]) {
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Calculate summary statistics for a chronological list of prices
+ */
+export function priceStats(points: PricedPoint[]): PriceStats {
+  if (points.length === 0) {
+    return {
+      points: 0,
+      min: null,
+      max: null,
+      mean: null,
+      median: null,
+      current: null,
+      min_at: null,
+      current_vs_low_percent: null,
+      change_percent: null,
+      price_drops: 0
+    }
+  }
+
+  const prices = points.map((point) => point.price)
+  const sorted = [...prices].sort((a, b) => a - b)
+  const min = sorted[0]
+  const first = prices[0]
+  const current = prices[prices.length - 1]
+  const lowest = points.find((point) => point.price === min)!
+
+  let drops = 0
+  for (let i = 1; i < prices.length; i++) {
+    if (prices[i] < prices[i - 1]) drops++
+  }
+
+  return {
+    points: points.length,
+    min,
+    max: sorted[sorted.length - 1],
+    mean: round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+    median: round(median(sorted)),
+    current,
+    min_at: lowest.timestamp,
+    current_vs_low_percent: round(((current - min) / min) * 100, 1),
+    change_percent: round(((current - first) / first) * 100, 1),
+    price_drops: drops
+  }
+}
+
+/**
+ * Lowest price across all retailers for each day, in chronological order
+ */
+export function dailyLows(retailers: RetailerPriceHistory[]): PricedPoint[] {
+  const byDay = new Map<string, number>()
+
+  retailers.forEach((retailer) => {
+    pricedPoints(retailer.history).forEach((point) => {
+      const day = point.timestamp.slice(0, 10)
+      const low = byDay.get(day)
+      if (low === undefined || point.price < low) byDay.set(day, point.price)
+    })
+  })
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, price]) => ({ timestamp: `${day}T00:00:00.000Z`, price }))
+}
+
+export function retailerStats(retailers: RetailerPriceHistory[]): RetailerPriceStats[] {
+  return retailers.map((retailer) => ({
+    retailer: retailer.retailer,
+    ...priceStats(pricedPoints(retailer.history))
+  }))
+}
+
+/**
+ * Pick a series interval that keeps the number of buckets manageable
+ */
+export function defaultInterval(startDate: string, endDate: string): SeriesInterval {
+  const days = (Date.parse(endDate) - Date.parse(startDate)) / 86400000
+  if (days <= 31) return "day"
+  if (days <= 180) return "week"
+  return "month"
+}
+
+function bucketStart(timestamp: string, interval: SeriesInterval) {
+  const date = new Date(timestamp)
+  if (interval === "month") return timestamp.slice(0, 7) + "-01"
+  if (interval === "week") {
+    // Weeks start on Monday
+    const offset = (date.getUTCDay() + 6) % 7
+    date.setUTCDate(date.getUTCDate() - offset)
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Downsample a chronological price series into day, week or month buckets
+ */
+export function downsample(points: PricedPoint[], interval: SeriesInterval): SeriesBucket[] {
+  const buckets = new Map<string, number[]>()
+
+  points.forEach((point) => {
+    const start = bucketStart(point.timestamp, interval)
+    const prices = buckets.get(start) ?? []
+    prices.push(point.price)
+    buckets.set(start, prices)
+  })
+
+  return [...buckets.entries()].map(([start, prices]) => ({
+    start,
+    low: Math.min(...prices),
+    high: Math.max(...prices),
+    average: round(prices.reduce((sum, price) => sum + price, 0) / prices.length)
+  }))
+}
+
+/**
+ * Decide whether now is a good time to buy, based on where the current best
+ * price sits relative to the period's low and median. Prices in the reasons
+ * are formatted in `currency` for `locale`.
+ */
+export function buyVerdict(overall: PriceStats, currency = "USD", locale = DEFAULT_LOCALE): BuyVerdict {
+  const { current, min, median, max } = overall
+  if (current === null || min === null || median === null || max === null) {
+    return { rating: "unknown", summary: "Not enough price data to judge", reasons: ["No prices were recorded in this period"] }
+  }
+
+  const money = (value: number) => formatPrice(value, currency, locale)
+  const reasons: string[] = []
+  const vsMedian = round(((current - median) / median) * 100, 1)
+  reasons.push(`Current best price ${money(current)} is ${overall.current_vs_low_percent}% above the period low of ${money(min)}`)
+  reasons.push(`It is ${Math.abs(vsMedian)}% ${vsMedian <= 0 ? "below" : "above"} the median price of ${money(median)}`)
+  if (overall.price_drops > 0) {
+    reasons.push(`The price dropped ${overall.price_drops} time${overall.price_drops === 1 ? "" : "s"} during the period`)
+  }
+  if (overall.points < 5) {
+    reasons.push(`Only ${overall.points} days of data, so this verdict is tentative`)
+  }
+
+  if (current <= min * 1.02) {
+    return { rating: "great", summary: "Great time to buy: at or near the lowest price in this period", reasons }
+  }
+  if (vsMedian <= -5) {
+    return { rating: "good", summary: "Good time to buy: below the typical price", reasons }
+  }
+  if (vsMedian >= 5) {
+    reasons.push(`It has been as low as ${money(min)}, so waiting for a drop may pay off`)
+    return { rating: "wait", summary: "Consider waiting: above the typical price", reasons }
+  }
+  return { rating: "fair", summary: "Fair price: close to the typical price", reasons }
+}
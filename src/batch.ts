@@ -0,0 +1,191 @@
+/**
+ * Batch helpers
+ *
+ * Splits long identifier lists into API-sized chunks, runs the chunks with
+ * bounded concurrency, and works out which of the requested identifiers each
+ * returned product belongs to, so batch tools can report per identifier.
+ */
+
+import { describeError } from "./errors.js"
+import { parseIdentifiers, type Identifier, type IdentifierType } from "./identifiers.js"
+import type { BatchItemResult } from "./types.js"
+
+export interface BatchOptions {
+  /** Maximum number of identifiers sent in one API request */
+  chunkSize: number
+  /** Maximum number of API requests in flight at once */
+  concurrency: number
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  chunkSize: 20,
+  concurrency: 3
+}
+
+/** Split a comma-separated parameter into trimmed, non-empty items */
+export function splitList(list: string | undefined): string[] {
+  return (list || "").split(",").map((item) => item.trim()).filter(Boolean)
+}
+
+/**
+ * Accept identifiers either as an array or as a legacy comma-separated string.
+ * Array items are used as-is, so URLs containing commas survive.
+ */
+export function identifierList(value: string | string[]): string[] {
+  if (!Array.isArray(value)) return splitList(value)
+  return value.map((item) => item.trim()).filter(Boolean)
+}
+
+/** Drop identifiers that normalize to the same value, keeping the first */
+export function uniqueIdentifiers(identifiers: Identifier[]): Identifier[] {
+  const seen = new Set<string>()
+  return identifiers.filter((identifier) => {
+    if (seen.has(identifier.normalized)) return false
+    seen.add(identifier.normalized)
+    return true
+  })
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Like `Promise.all(items.map(fn))`, but with at most `limit` calls running at
+ * once. Results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker))
+  return results
+}
+
+function sameBarcode(a: string, b: string) {
+  return /^\d+$/.test(a) && /^\d+$/.test(b) && a.replace(/^0+/, "") === b.replace(/^0+/, "")
+}
+
+/** Whether a raw API product is the one `identifier` names, by ID, ASIN, model, MPN or barcode */
+export function productMatches(identifier: Identifier, raw: any) {
+  const value = identifier.normalized.toLowerCase()
+  const field = (name: string) => (typeof raw[name] === "string" || typeof raw[name] === "number" ? String(raw[name]).toLowerCase() : "")
+
+  if (field("shopsavvy") === value || field("amazon") === value) return true
+  if (field("model") === value || field("mpn") === value) return true
+  return sameBarcode(field("barcode"), value)
+}
+
+/**
+ * Identifier types whose product may carry none of the identifier's own
+ * values: a URL, an ISBN the API resolved to another barcode, or a model
+ * number that isn't written exactly like the product's model or MPN. The API
+ * has to resolve them to a product first.
+ */
+export const UNMATCHABLE_TYPES: readonly IdentifierType[] = ["url", "isbn", "model_number"]
+
+/**
+ * Attribute the products returned for a chunk to the identifiers requested.
+ *
+ * Products are matched on barcode, ASIN, ShopSavvy ID, model or MPN first.
+ * Whatever is left is paired up in request order, which the API preserves,
+ * but only with {@link UNMATCHABLE_TYPES}: a barcode, ASIN or ID that matched
+ * no product field wasn't found, and must not take the product of a later URL.
+ * Identifiers left without a product were not found.
+ */
+export function matchProducts(identifiers: Identifier[], products: any[]): (any | null)[] {
+  const matched: (any | null)[] = identifiers.map(() => null)
+  const remaining = [...products]
+
+  identifiers.forEach((identifier, index) => {
+    const position = remaining.findIndex((product) => productMatches(identifier, product))
+    if (position !== -1) matched[index] = remaining.splice(position, 1)[0]
+  })
+
+  matched.forEach((product, index) => {
+    if (product === null && remaining.length > 0 && UNMATCHABLE_TYPES.includes(identifiers[index].type)) matched[index] = remaining.shift()
+  })
+
+  return matched
+}
+
+/** Combine the usage metadata of several API responses into one */
+export function mergeUsage(metas: any[]): any {
+  const reported = metas.filter(Boolean)
+  if (reported.length === 0) return null
+
+  const remaining = reported.map((meta) => meta.credits_remaining).filter((value) => typeof value === "number")
+  return {
+    credits_used: reported.reduce((sum, meta) => sum + (meta.credits_used ?? 0), 0),
+    credits_remaining: remaining.length > 0 ? Math.min(...remaining) : undefined,
+    cached: reported.every((meta) => meta.cached)
+  }
+}
+
+export interface BatchRun {
+  /** One entry per unique valid identifier in request order, then one per invalid identifier */
+  items: BatchItemResult<any>[]
+  /** Number of duplicate identifiers that were dropped */
+  duplicates: number
+  /** Usage merged across all chunks, in the API's `meta` shape */
+  meta: any
+}
+
+/**
+ * Validate, de-duplicate and chunk `inputs`, call `request` once per chunk,
+ * and report a status for every identifier. A failing chunk marks its own
+ * identifiers as errored without affecting the other chunks.
+ */
+export async function runBatch(
+  inputs: string[],
+  options: BatchOptions,
+  request: (identifiers: Identifier[]) => Promise<{ data: any; meta?: any }>
+): Promise<BatchRun> {
+  const { valid, invalid } = parseIdentifiers(inputs)
+  const unique = uniqueIdentifiers(valid)
+  const metas: any[] = []
+
+  const chunkResults = await mapWithConcurrency(chunk(unique, options.chunkSize), options.concurrency, async (identifiers) => {
+    try {
+      const result = await request(identifiers)
+      metas.push(result.meta)
+      const products = matchProducts(identifiers, Array.isArray(result.data) ? result.data : [])
+      return identifiers.map((identifier, index): BatchItemResult<any> => ({
+        input: identifier.input,
+        type: identifier.type,
+        normalized: identifier.normalized,
+        status: products[index] ? "found" : "not_found",
+        result: products[index],
+        error: null
+      }))
+    } catch (error) {
+      const message = describeError(error)
+      return identifiers.map((identifier): BatchItemResult<any> => ({
+        input: identifier.input,
+        type: identifier.type,
+        normalized: identifier.normalized,
+        status: "error",
+        result: null,
+        error: message
+      }))
+    }
+  })
+
+  const items = chunkResults.flat()
+  invalid.forEach((error) => {
+    items.push({ input: error.input, type: null, normalized: null, status: "invalid", result: null, error: error.message })
+  })
+
+  return { items, duplicates: valid.length - unique.length, meta: mergeUsage(metas) }
+}
@@ -0,0 +1,194 @@
+/**
+ * Credit budget
+ *
+ * Counts the credits every API response reports, per session, per tool and
+ * per API key per day, and enforces the server's spending limits: requests
+ * that would go over a limit are refused before they are sent, and tools
+ * that can spend many credits at once ask for confirmation first.
+ */
+
+import { splitList, uniqueIdentifiers } from "./batch.js"
+import type { HttpMethod } from "./client.js"
+import { BudgetExceededError, describeError } from "./errors.js"
+import { parseIdentifiers } from "./identifiers.js"
+import type { CreditLimits, CreditSpend, LocalUsage, QueryParams } from "./types.js"
+
+export interface BudgetLimits {
+  /** Most credits one tool call may spend without `confirm_cost` */
+  perCall?: number
+  /** Most credits one session may spend */
+  perSession?: number
+  /** Most credits each API key may spend through this server per UTC day */
+  perDay?: number
+  /** Credits to keep in reserve: requests that would leave fewer remaining in the billing period are refused */
+  minRemaining?: number
+  /** Most credits a schedule change may add to the refresh cost every 30 days without `confirm_cost` */
+  recurring?: number
+}
+
+/** Who a request is billed to */
+export interface SpendScope {
+  /** Account ID of the API key, see `accountId` */
+  account: string
+  /** Identifies the session; spend is forgotten once nothing references it */
+  session: object
+  /** Tool name, or "resources" for resource reads */
+  tool: string
+}
+
+function emptySpend(): CreditSpend {
+  return { credits_used: 0, requests: 0, cached_responses: 0 }
+}
+
+function addSpend(total: CreditSpend, spend: CreditSpend) {
+  total.credits_used += spend.credits_used
+  total.requests += spend.requests
+  total.cached_responses += spend.cached_responses
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10)
+}
+
+/**
+ * Credits a request is expected to cost: one per product asked for, and one
+ * per search. Schedule and usage requests are free.
+ */
+export function estimateCredits(method: HttpMethod, endpoint: string, params: QueryParams): number {
+  if (method !== "GET") return 0
+  if (endpoint === "/products/search") return 1
+  if (endpoint === "/products" || endpoint.startsWith("/products/offers")) return splitList(String(params.ids ?? "")).length
+  return 0
+}
+
+/** Credits a batch call on `inputs` can cost at most: one per unique valid identifier */
+export function identifierCost(inputs: string[]): number {
+  return uniqueIdentifiers(parseIdentifiers(inputs).valid).length
+}
+
+export class CreditBudget {
+  private readonly sessions = new WeakMap<object, Map<string, CreditSpend>>()
+  private readonly days = new Map<string, { day: string; spend: CreditSpend }>()
+  /** Credits left in the billing period per account, from the latest response */
+  private readonly remaining = new Map<string, number>()
+
+  constructor(readonly limits: BudgetLimits = {}) {}
+
+  /** Count an API response's usage metadata against `scope` */
+  record(scope: SpendScope, meta: any) {
+    const spend: CreditSpend = {
+      credits_used: typeof meta?.credits_used === "number" ? meta.credits_used : 0,
+      requests: meta?.cached ? 0 : 1,
+      cached_responses: meta?.cached ? 1 : 0
+    }
+
+    let tools = this.sessions.get(scope.session)
+    if (!tools) {
+      tools = new Map()
+      this.sessions.set(scope.session, tools)
+    }
+    const tool = tools.get(scope.tool) ?? emptySpend()
+    addSpend(tool, spend)
+    tools.set(scope.tool, tool)
+    addSpend(this.spentToday(scope.account), spend)
+
+    if (!meta?.cached && typeof meta?.credits_remaining === "number") {
+      this.remaining.set(scope.account, meta.credits_remaining)
+    }
+  }
+
+  /**
+   * Which limit spending `estimate` more credits in `scope` would break, or
+   * `null` when it fits. The per-call limit isn't checked here; see {@link approve}.
+   */
+  overLimit(scope: SpendScope, estimate: number): string | null {
+    if (estimate <= 0) return null
+    const { perSession, perDay, minRemaining } = this.limits
+
+    if (perSession !== undefined) {
+      const used = this.usage(scope).session.credits_used
+      if (used + estimate > perSession) {
+        return `this session has used ${used} of its ${perSession} credits and this needs up to ${estimate} more`
+      }
+    }
+    if (perDay !== undefined) {
+      const used = this.spentToday(scope.account).credits_used
+      if (used + estimate > perDay) {
+        return `${used} of the ${perDay} credits allowed per day have been used today and this needs up to ${estimate} more`
+      }
+    }
+    const remaining = this.remaining.get(scope.account)
+    if (minRemaining !== undefined && remaining !== undefined && remaining - estimate < minRemaining) {
+      return `${remaining} credits are left this billing period and spending up to ${estimate} more would go below the ${minRemaining}-credit reserve`
+    }
+    return null
+  }
+
+  /** Throw a {@link BudgetExceededError} if spending `estimate` credits would break a limit */
+  assertAffordable(scope: SpendScope, estimate: number) {
+    const problem = this.overLimit(scope, estimate)
+    if (problem) throw new BudgetExceededError(problem)
+  }
+
+  /** Whether a call costing `estimate` credits needs `confirm_cost` first */
+  needsConfirmation(estimate: number, confirmed: boolean | undefined) {
+    return !confirmed && this.limits.perCall !== undefined && estimate > this.limits.perCall
+  }
+
+  /**
+   * Check a tool call that can spend up to `estimate` credits before making
+   * any request. Returns the message to show instead when the call is over a
+   * limit or needs confirmation, or `null` to go ahead.
+   */
+  approve(scope: SpendScope, estimate: number, confirmed: boolean | undefined): string | null {
+    const problem = this.overLimit(scope, estimate)
+    if (problem) return describeError(new BudgetExceededError(problem))
+    if (this.needsConfirmation(estimate, confirmed)) {
+      return `This call can use up to ${estimate} credits, more than the per-call limit of ${this.limits.perCall}. Ask the user to confirm, then call again with confirm_cost: true, or use fewer identifiers`
+    }
+    return null
+  }
+
+  /**
+   * Check a schedule change, described by `change`, that adds `increase`
+   * credits to what refreshes cost every 30 days. Returns the message to show
+   * instead when that's over the recurring limit, or `null` to go ahead.
+   */
+  approveRecurring(increase: number, change: string, confirmed: boolean | undefined): string | null {
+    const { recurring } = this.limits
+    if (confirmed || recurring === undefined || increase <= recurring) return null
+    return `${change}, more than the recurring limit of ${recurring.toLocaleString()} credits every 30 days. Ask the user to confirm, then call again with confirm_cost: true, or choose a less frequent schedule`
+  }
+
+  /** Spend for the session and API key in `scope`, and the configured limits */
+  usage(scope: SpendScope): LocalUsage {
+    const session = emptySpend()
+    const byTool: Record<string, CreditSpend> = {}
+    this.sessions.get(scope.session)?.forEach((spend, tool) => {
+      byTool[tool] = { ...spend }
+      addSpend(session, spend)
+    })
+
+    return { session, by_tool: byTool, today: { ...this.spentToday(scope.account) }, limits: this.limitsOutput() }
+  }
+
+  private limitsOutput(): CreditLimits {
+    return {
+      per_call: this.limits.perCall ?? null,
+      per_session: this.limits.perSession ?? null,
+      per_day: this.limits.perDay ?? null,
+      min_remaining: this.limits.minRemaining ?? null,
+      recurring: this.limits.recurring ?? null
+    }
+  }
+
+  private spentToday(account: string): CreditSpend {
+    const day = today()
+    let entry = this.days.get(account)
+    if (!entry || entry.day !== day) {
+      entry = { day, spend: emptySpend() }
+      this.days.set(account, entry)
+    }
+    return entry.spend
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Bulk product lists
+ *
+ * Reads identifier lists from CSV or JSON (typically spreadsheet exports),
+ * flattens batch results into one row per product, offer or retailer, and
+ * writes those rows back out as CSV or JSON files.
+ */
+
+import { mkdirSync, renameSync, writeFileSync } from "node:fs"
+import { dirname, extname, isAbsolute, relative, resolve } from "node:path"
+import { dailyLows, priceStats, retailerStats } from "./analysis.js"
+import { cheapestOffer } from "./offers.js"
+import type { FileFormat, Offer, Product, RetailerPriceHistory, ScheduledProduct } from "./types.js"
+
+/** Most rows read from one import */
+export const MAX_IMPORT_ROWS = 10000
+
+/**
+ * Column names recognized as holding identifiers, in order of preference.
+ * A row uses the first of them that isn't empty.
+ */
+const IDENTIFIER_COLUMNS = [
+  "identifier",
+  "shopsavvy_id",
+  "barcode",
+  "upc",
+  "ean",
+  "gtin",
+  "isbn",
+  "asin",
+  "mpn",
+  "model",
+  "model_number",
+  "url",
+  "product_url"
+]
+
+/** One row of an imported list that has an identifier */
+export interface ImportRow {
+  /** 1-based row number in the source, not counting a CSV header */
+  row: number
+  identifier: string
+}
+
+export interface ImportedList {
+  /** Columns identifiers were taken from, or `[]` for a plain list */
+  columns: string[]
+  rows: ImportRow[]
+  /** Row numbers that had no identifier */
+  skipped: number[]
+}
+
+/** A flat output row; nested values are not allowed so rows fit CSV */
+export type ExportRow = Record<string, string | number | boolean | null>
+
+function columnKey(name: string) {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, "_")
+}
+
+/** Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line ends) */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, "")
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  // Spreadsheets often leave blank lines at the end
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+function csvField(value: ExportRow[string]): string {
+  if (value === null) return ""
+  let text = String(value)
+  // Keep spreadsheets from running text as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Every column used by `rows`, in order of first appearance */
+export function exportColumns(rows: ExportRow[]): string[] {
+  const columns = new Set<string>()
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)))
+  return [...columns]
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const columns = exportColumns(rows)
+  const lines = [columns.map((column) => csvField(column)).join(",")]
+  rows.forEach((row) => lines.push(columns.map((column) => csvField(row[column] ?? null)).join(",")))
+  return lines.join("\r\n") + "\r\n"
+}
+
+export function serializeRows(rows: ExportRow[], format: FileFormat): string {
+  return format === "csv" ? toCsv(rows) : JSON.stringify(rows, null, 2) + "\n"
+}
+
+/** Guess whether a file is CSV or JSON from its extension, then its content */
+export function detectFileFormat(path: string | undefined, content: string): FileFormat {
+  const extension = path ? extname(path).toLowerCase() : ""
+  if (extension === ".json") return "json"
+  if (extension === ".csv") return "csv"
+  return /^\s*[[{]/.test(content) ? "json" : "csv"
+}
+
+/**
+ * Pick the identifier for each record from the recognized columns, or from
+ * `column` when given. Records are keyed by their original column names.
+ */
+function identifiersFromRecords(records: Record<string, unknown>[], names: string[], column: string | undefined): ImportedList {
+  let columns: string[]
+  if (column) {
+    const wanted = names.find((name) => columnKey(name) === columnKey(column))
+    if (!wanted) throw new Error(`Column "${column}" not found. Available columns: ${names.join(", ")}`)
+    columns = [wanted]
+  } else {
+    columns = IDENTIFIER_COLUMNS.flatMap((key) => names.filter((name) => columnKey(name) === key))
+    if (columns.length === 0) {
+      throw new Error(`No identifier column found. Name one with column, or use one of: ${IDENTIFIER_COLUMNS.join(", ")}. Available columns: ${names.join(", ")}`)
+    }
+  }
+
+  const list: ImportedList = { columns, rows: [], skipped: [] }
+  records.forEach((record, index) => {
+    const value = columns
+      .map((name) => record[name])
+      .find((candidate) => (typeof candidate === "string" || typeof candidate === "number") && String(candidate).trim() !== "")
+    if (value === undefined) list.skipped.push(index + 1)
+    else list.rows.push({ row: index + 1, identifier: String(value).trim() })
+  })
+  return list
+}
+
+/**
+ * Read the identifiers in a CSV or JSON list.
+ *
+ * CSV files with a header row use the recognized identifier columns (or
+ * `column`); files without one use the first column. JSON may be an array of
+ * identifier strings or an array of objects, read like CSV rows.
+ */
+export function readIdentifierList(content: string, format: FileFormat, column?: string): ImportedList {
+  let list: ImportedList
+  if (format === "json") {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch (error) {
+      throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of identifiers or of objects")
+
+    if (parsed.every((item) => typeof item === "string" || typeof item === "number")) {
+      if (column) throw new Error(`Column "${column}" not found: the JSON is a plain list of identifiers`)
+      list = { columns: [], rows: [], skipped: [] }
+      parsed.forEach((item, index) => {
+        const identifier = String(item).trim()
+        if (identifier) list.rows.push({ row: index + 1, identifier })
+        else list.skipped.push(index + 1)
+      })
+    } else {
+      if (!parsed.every((item) => item !== null && typeof item === "object" && !Array.isArray(item))) {
+        throw new Error("Expected a JSON array of identifiers or of objects, not a mix")
+      }
+      const names = [...new Set(parsed.flatMap((item) => Object.keys(item)))]
+      list = identifiersFromRecords(parsed, names, column)
+    }
+  } else {
+    const rows = parseCsv(content)
+    const header = rows[0] ?? []
+    const hasHeader = column !== undefined || header.some((cell) => IDENTIFIER_COLUMNS.includes(columnKey(cell)))
+    if (hasHeader) {
+      const records = rows.slice(1).map((cells) => Object.fromEntries(header.map((name, index) => [name, cells[index] ?? ""])))
+      list = identifiersFromRecords(records, header, column)
+    } else {
+      list = { columns: [], rows: [], skipped: [] }
+      rows.forEach((cells, index) => {
+        const identifier = (cells[0] ?? "").trim()
+        if (identifier) list.rows.push({ row: index + 1, identifier })
+        else list.skipped.push(index + 1)
+      })
+    }
+  }
+
+  if (list.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`The list has ${list.rows.length} rows; split it into files of at most ${MAX_IMPORT_ROWS}`)
+  }
+  return list
+}
+
+/**
+ * Resolve a user-supplied path against `dir`. Unless `allowOutside` is set,
+ * the path must stay inside `dir`, so remote sessions can't read or write
+ * other files on the server.
+ */
+export function resolveFilePath(dir: string, path: string, allowOutside: boolean): string {
+  const resolved = resolve(dir, path)
+  const inside = relative(resolve(dir), resolved)
+  if (!allowOutside && (inside === "" || inside.startsWith("..") || isAbsolute(inside))) {
+    throw new Error(`"${path}" is outside the files directory; use a path relative to it`)
+  }
+  return resolved
+}
+
+/** Write `content` to `path`, creating its directory, via a temporary file */
+export function writeFileAtomically(path: string, content: string) {
+  mkdirSync(dirname(path), { recursive: true })
+  const temporary = `${path}.tmp`
+  writeFileSync(temporary, content)
+  renameSync(temporary, path)
+}
+
+/** A default, unique-enough export file name, e.g. "offers-2024-06-01T12-30-00.csv" */
+export function exportFileName(name: string, format: FileFormat, now = new Date()) {
+  return `${name}-${now.toISOString().slice(0, 19).replace(/:/g, "-")}.${format}`
+}
+
+export function productColumns(product: Product): ExportRow {
+  return {
+    shopsavvy_id: product.shopsavvy_id,
+    title: product.title,
+    brand: product.brand,
+    category: product.category,
+    model: product.model,
+    mpn: product.mpn,
+    barcode: product.barcode,
+    asin: product.asin
+  }
+}
+
+/** The cheapest offer at each retailer, cheapest retailer first */
+export function bestOfferPerRetailer(offers: Offer[]): Offer[] {
+  const byRetailer = new Map<string, Offer[]>()
+  offers.forEach((offer) => {
+    const key = offer.retailer ?? ""
+    byRetailer.set(key, [...(byRetailer.get(key) ?? []), offer])
+  })
+  return [...byRetailer.values()]
+    .map((retailerOffers) => cheapestOffer(retailerOffers) ?? retailerOffers[0])
+    .sort((a, b) => (a.price ?? Infinity) - (b.price ?? Infinity))
+}
+
+export function offerColumns(offer: Offer): ExportRow {
+  return {
+    retailer: offer.retailer,
+    price: offer.price,
+    currency: offer.currency,
+    condition: offer.condition,
+    availability: offer.availability,
+    seller: offer.seller,
+    url: offer.url
+  }
+}
+
+/**
+ * Price statistics per retailer, preceded by an "all retailers" row for the
+ * lowest daily price across them
+ */
+export function historySummaryRows(histories: RetailerPriceHistory[]): ExportRow[] {
+  const stats = [{ retailer: "all retailers", ...priceStats(dailyLows(histories)) }, ...retailerStats(histories)]
+  return stats.map((stat) => ({
+    retailer: stat.retailer,
+    points: stat.points,
+    current: stat.current,
+    low: stat.min,
+    low_at: stat.min_at,
+    high: stat.max,
+    average: stat.mean,
+    median: stat.median,
+    change_percent: stat.change_percent,
+    price_drops: stat.price_drops
+  }))
+}
+
+export function scheduledColumns(product: ScheduledProduct): ExportRow {
+  return {
+    shopsavvy_id: product.shopsavvy_id,
+    title: product.title,
+    schedule: product.schedule,
+    retailer: product.retailer,
+    barcode: product.barcode,
+    asin: product.asin
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Response cache
+ *
+ * Caches successful GET responses from the ShopSavvy Data API so repeated
+ * questions about the same product don't spend credits again. Entries live in
+ * memory by default, or in a JSON file on disk so they survive restarts.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import { dirname } from "node:path"
+import { Logger } from "./logger.js"
+import type { QueryParams } from "./types.js"
+
+export interface CacheEntry {
+  value: any
+  /** When the response was stored (epoch milliseconds) */
+  storedAt: number
+  /** When the entry expires (epoch milliseconds), or `null` to keep it forever */
+  expiresAt: number | null
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined
+  set(key: string, entry: CacheEntry): void
+  delete(key: string): void
+  clear(): void
+}
+
+/** Time-to-live for each kind of cached response, in milliseconds */
+export interface CacheTtls {
+  /** Product metadata from `/products` */
+  products: number
+  /** Keyword search results from `/products/search` */
+  search: number
+  /** Current offers from `/products/offers` */
+  offers: number
+  /** Price history ranges that include today; closed ranges never expire */
+  openHistory: number
+}
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  products: 24 * 60 * 60 * 1000,
+  search: 60 * 60 * 1000,
+  offers: 5 * 60 * 1000,
+  openHistory: 15 * 60 * 1000
+}
+
+function isExpired(entry: CacheEntry, now: number) {
+  return entry.expiresAt !== null && entry.expiresAt <= now
+}
+
+/**
+ * In-memory cache with a bounded number of entries. The least recently used
+ * entry is evicted first.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected readonly entries = new Map<string, CacheEntry>()
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    if (isExpired(entry, Date.now())) {
+      this.delete(key)
+      return undefined
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/** How long the file cache waits after a change before writing, in milliseconds */
+export const CACHE_WRITE_DELAY_MS = 1000
+
+/**
+ * Cache persisted to a JSON file. The file is read once at startup and
+ * rewritten atomically a moment after a change, so a burst of responses is
+ * written once; {@link flush} writes pending changes at shutdown.
+ */
+export class JsonFileCacheStore extends MemoryCacheStore {
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly path: string,
+    private readonly logger = new Logger(),
+    maxEntries = 5000,
+    private readonly writeDelayMs = CACHE_WRITE_DELAY_MS
+  ) {
+    super(maxEntries)
+
+    let stored: Record<string, CacheEntry> = {}
+    try {
+      stored = JSON.parse(readFileSync(path, "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.warn("Ignoring unreadable cache file", { path, error })
+      }
+    }
+
+    const now = Date.now()
+    Object.entries(stored).forEach(([key, entry]) => {
+      if (!isExpired(entry, now)) super.set(key, entry)
+    })
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    super.set(key, entry)
+    this.scheduleSave()
+  }
+
+  delete(key: string): void {
+    super.delete(key)
+    this.scheduleSave()
+  }
+
+  clear(): void {
+    super.clear()
+    this.scheduleSave()
+  }
+
+  /** Write pending changes now */
+  flush(): void {
+    if (!this.timer) return
+    clearTimeout(this.timer)
+    this.timer = null
+    this.save()
+  }
+
+  private scheduleSave() {
+    if (this.timer) return
+    this.timer = setTimeout(() => this.flush(), this.writeDelayMs)
+    // Changes still pending at shutdown are flushed then, so the timer needn't keep the process alive
+    this.timer.unref()
+  }
+
+  private save() {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true })
+      const temporary = `${this.path}.tmp`
+      writeFileSync(temporary, JSON.stringify(Object.fromEntries(this.entries)))
+      renameSync(temporary, this.path)
+    } catch (error) {
+      this.logger.warn("Failed to write cache file", { path: this.path, error })
+    }
+  }
+}
+
+/**
+ * How long to cache a GET response for `endpoint`, in milliseconds.
+ *
+ * Returns `null` for responses that never expire (price history for a date
+ * range that has already ended) and `0` for endpoints that must not be cached
+ * (usage statistics, the scheduled products list).
+ */
+export function cacheTtl(endpoint: string, params: QueryParams, ttls: CacheTtls): number | null {
+  switch (endpoint) {
+    case "/products":
+      return ttls.products
+    case "/products/search":
+      return ttls.search
+    case "/products/offers":
+      return ttls.offers
+    case "/products/offers/history": {
+      const today = new Date().toISOString().slice(0, 10)
+      return typeof params.end === "string" && params.end < today ? null : ttls.openHistory
+    }
+    default:
+      return 0
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * ShopSavvy Data API client
+ *
+ * A single fetch wrapper used by every tool. Handles request timeouts,
+ * retries with exponential backoff and jitter for transient failures
+ * (429, 5xx, timeouts, network errors), honours `Retry-After` and rate-limit
+ * reset headers, and maps failures onto the typed errors in `./errors.ts`.
+ * Successful GET responses can be served from a {@link CacheStore}. Every
+ * request is reported to an optional hook with its latency and outcome.
+ */
+
+import { cacheTtl, DEFAULT_CACHE_TTLS, type CacheStore, type CacheTtls } from "./cache.js"
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+  ShopSavvyApiError,
+  TimeoutError
+} from "./errors.js"
+import type { QueryParams } from "./types.js"
+
+export type HttpMethod = "GET" | "PUT" | "DELETE"
+
+/** What happened to one API request, reported to {@link ClientOptions.onCall} */
+export interface ApiCall {
+  method: HttpMethod
+  endpoint: string
+  /** HTTP status of the last attempt, or `null` when served from the cache or no response was received */
+  status: number | null
+  /** Time from the first attempt to the outcome, including retry waits */
+  durationMs: number
+  /** Attempts made, 0 for cached responses */
+  attempts: number
+  cached: boolean
+  /** Credits the response reports */
+  creditsUsed: number
+  /** Error message when the request failed */
+  error: string | null
+}
+
+export interface ClientOptions {
+  /** API base URL, e.g. "https://shopsavvy.com/api/v1" */
+  baseUrl: string
+  apiKey: string
+  /** Per-attempt request timeout in milliseconds (default 30000) */
+  timeoutMs?: number
+  /** Retries after the first attempt for transient failures (default 3) */
+  maxRetries?: number
+  /** Base delay for exponential backoff in milliseconds (default 500) */
+  retryBaseDelayMs?: number
+  /** Upper bound for a single backoff delay in milliseconds (default 10000) */
+  retryMaxDelayMs?: number
+  /**
+   * Longest `Retry-After` we are willing to wait in milliseconds (default 60000).
+   * Longer waits fail fast with a {@link RateLimitError} instead.
+   */
+  maxRetryAfterMs?: number
+  userAgent?: string
+  /** Response cache; omit to disable caching */
+  cache?: CacheStore
+  /** Per-endpoint cache lifetimes (defaults to {@link DEFAULT_CACHE_TTLS}) */
+  cacheTtls?: Partial<CacheTtls>
+  /**
+   * Called before a request is sent to the API (not for cached responses).
+   * Throwing cancels the request.
+   */
+  beforeRequest?: (method: HttpMethod, endpoint: string, params: QueryParams) => void
+  /**
+   * Called with the body of every successful response and the parameters it
+   * was requested with, including cached ones, whose `meta` reports 0 credits
+   */
+  onResponse?: (endpoint: string, body: any, params: QueryParams) => void
+  /** Called once every request has succeeded or failed, including cached ones */
+  onCall?: (call: ApiCall) => void
+}
+
+export interface RequestOptions {
+  /** Skip the cache lookup and fetch fresh data (the response is still cached) */
+  bypassCache?: boolean
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Parse how long to wait before retrying from `Retry-After` (seconds or an
+ * HTTP date) or `X-RateLimit-Reset` (epoch seconds)
+ */
+function parseRetryAfter(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after")
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+  }
+
+  const reset = Number(headers.get("x-ratelimit-reset"))
+  if (reset > 0) return Math.max(0, reset * 1000 - Date.now())
+
+  return null
+}
+
+/**
+ * Read a response body as JSON, falling back to the raw text for HTML error
+ * pages and other non-JSON bodies
+ */
+async function readBody(response: Response): Promise<any> {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function errorMessageFrom(body: any, response: Response): string {
+  if (body && typeof body === "object") {
+    return body.error || body.message || response.statusText || "Unknown error"
+  }
+  if (typeof body === "string" && body.trim()) {
+    return body.trim().slice(0, 200)
+  }
+  return response.statusText || "Unknown error"
+}
+
+export class ShopSavvyClient {
+  private readonly options: Required<Omit<ClientOptions, "cache" | "cacheTtls" | "beforeRequest" | "onResponse" | "onCall">>
+  private readonly cache: CacheStore | undefined
+  private readonly cacheTtls: CacheTtls
+  private readonly beforeRequest: ClientOptions["beforeRequest"]
+  private readonly onResponse: ClientOptions["onResponse"]
+  private readonly onCall: ClientOptions["onCall"]
+
+  constructor(options: ClientOptions) {
+    this.options = {
+      baseUrl: options.baseUrl,
+      apiKey: options.apiKey,
+      timeoutMs: options.timeoutMs ?? 30000,
+      maxRetries: options.maxRetries ?? 3,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? 500,
+      retryMaxDelayMs: options.retryMaxDelayMs ?? 10000,
+      maxRetryAfterMs: options.maxRetryAfterMs ?? 60000,
+      userAgent: options.userAgent ?? "ShopSavvy-MCP-Server/1.0.0"
+    }
+    this.cache = options.cache
+    this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cacheTtls }
+    this.beforeRequest = options.beforeRequest
+    this.onResponse = options.onResponse
+    this.onCall = options.onCall
+  }
+
+  get(endpoint: string, params: QueryParams = {}, requestOptions: RequestOptions = {}) {
+    return this.request("GET", endpoint, params, requestOptions)
+  }
+
+  put(endpoint: string, params: QueryParams = {}) {
+    return this.request("PUT", endpoint, params)
+  }
+
+  delete(endpoint: string, params: QueryParams = {}) {
+    return this.request("DELETE", endpoint, params)
+  }
+
+  /**
+   * Make an API request, retrying transient failures.
+   *
+   * Query parameters that are `undefined` or `null` are omitted. Cached GET
+   * responses have `meta.cached` set to `true` and `meta.credits_used` set to 0.
+   */
+  async request(
+    method: HttpMethod,
+    endpoint: string,
+    params: QueryParams = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<any> {
+    const url = new URL(`${this.options.baseUrl}${endpoint}`)
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, String(value))
+      }
+    })
+    url.searchParams.sort()
+
+    const ttl = method === "GET" && this.cache ? cacheTtl(endpoint, params, this.cacheTtls) : 0
+    const cacheKey = `${method} ${url.pathname}${url.search}`
+
+    if (ttl !== 0 && !requestOptions.bypassCache) {
+      const entry = this.cache!.get(cacheKey)
+      if (entry) {
+        const cached = {
+          ...entry.value,
+          meta: {
+            ...entry.value.meta,
+            credits_used: 0,
+            cached: true,
+            cached_at: new Date(entry.storedAt).toISOString()
+          }
+        }
+        this.onResponse?.(endpoint, cached, params)
+        this.onCall?.({ method, endpoint, status: null, durationMs: 0, attempts: 0, cached: true, creditsUsed: 0, error: null })
+        return cached
+      }
+    }
+
+    this.beforeRequest?.(method, endpoint, params)
+    const call: ApiCall = { method, endpoint, status: null, durationMs: 0, attempts: 0, cached: false, creditsUsed: 0, error: null }
+    const started = performance.now()
+    let body: any
+    try {
+      body = await this.requestWithRetries(method, url, endpoint, call)
+      if (typeof body.meta?.credits_used === "number") call.creditsUsed = body.meta.credits_used
+    } catch (error) {
+      call.error = error instanceof Error ? error.message : String(error)
+      throw error
+    } finally {
+      call.durationMs = Math.round(performance.now() - started)
+      this.onCall?.(call)
+    }
+
+    const hasData = Array.isArray(body.data) ? body.data.length > 0 : body.data != null
+    if (ttl !== 0 && hasData) {
+      const now = Date.now()
+      this.cache!.set(cacheKey, { value: body, storedAt: now, expiresAt: ttl === null ? null : now + ttl })
+    }
+
+    this.onResponse?.(endpoint, body, params)
+    return body
+  }
+
+  /** Make attempts until one succeeds or a failure isn't worth retrying, noting each in `call` */
+  private async requestWithRetries(method: HttpMethod, url: URL, endpoint: string, call: ApiCall): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      call.attempts = attempt + 1
+      try {
+        const { status, body } = await this.attempt(method, url, endpoint)
+        call.status = status
+        return body
+      } catch (error) {
+        call.status = error instanceof ShopSavvyApiError ? error.status : null
+        const delay = this.retryDelay(error, attempt)
+        if (delay === null) throw error
+        await sleep(delay)
+      }
+    }
+  }
+
+  private async attempt(method: HttpMethod, url: URL, endpoint: string): Promise<{ status: number; body: any }> {
+    let response: Response
+    try {
+      response = await fetch(url.toString(), {
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json',
+          'User-Agent': this.options.userAgent
+        },
+        signal: AbortSignal.timeout(this.options.timeoutMs)
+      })
+    } catch (error) {
+      if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+        throw new TimeoutError(`${method} ${endpoint} did not respond within ${this.options.timeoutMs}ms`, null, endpoint)
+      }
+      const cause = error instanceof Error ? (error.cause instanceof Error ? error.cause.message : error.message) : String(error)
+      throw new NetworkError(cause, null, endpoint)
+    }
+
+    const body = await readBody(response)
+
+    if (response.ok) {
+      if (body === null || typeof body !== "object") {
+        throw new ServerError(`Expected a JSON response but received: ${String(body).slice(0, 200)}`, response.status, endpoint)
+      }
+      return { status: response.status, body }
+    }
+
+    const message = errorMessageFrom(body, response)
+    const status = response.status
+
+    if (status === 401 || status === 403) {
+      throw new AuthenticationError(message, status, endpoint)
+    }
+    if (status === 402 || (status === 429 && /credit|quota/i.test(message))) {
+      throw new QuotaExceededError(message, status, endpoint)
+    }
+    if (status === 404) {
+      throw new NotFoundError(message, status, endpoint)
+    }
+    if (status === 429) {
+      throw new RateLimitError(message, endpoint, parseRetryAfter(response.headers))
+    }
+    if (status >= 500) {
+      throw new ServerError(message, status, endpoint)
+    }
+    throw new ShopSavvyApiError(`ShopSavvy API Error (${status}): ${message}`, status, endpoint)
+  }
+
+  /**
+   * How long to wait before retrying after `error`, or `null` to give up
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.options.maxRetries) return null
+
+    const retryable =
+      error instanceof RateLimitError ||
+      error instanceof TimeoutError ||
+      error instanceof NetworkError ||
+      (error instanceof ServerError && error.status !== null && RETRYABLE_STATUSES.has(error.status))
+    if (!retryable) return null
+
+    if (error instanceof RateLimitError && error.retryAfterMs !== null) {
+      return error.retryAfterMs <= this.options.maxRetryAfterMs ? error.retryAfterMs : null
+    }
+
+    // Exponential backoff with full jitter
+    const ceiling = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt)
+    return Math.random() * ceiling
+  }
+}
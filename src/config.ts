@@ -0,0 +1,407 @@
+/**
+ * Server configuration
+ *
+ * Builds the configuration from a JSON or YAML file, environment variables and
+ * command-line flags, each overriding the one before, and reports every
+ * problem at once. Used by the CLI entry point; embedders pass
+ * {@link ServerOptions} to `createServer()` directly.
+ */
+
+import { existsSync, readFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, extname, join, resolve } from "node:path"
+import { parseArgs } from "node:util"
+import { parseDocument } from "yaml"
+import { DEFAULT_BATCH_OPTIONS, type BatchOptions } from "./batch.js"
+import type { BudgetLimits } from "./budget.js"
+import { ShopSavvyClient } from "./client.js"
+import { parseCurrency, parseRegion } from "./currency.js"
+import { ConfigError, describeError } from "./errors.js"
+import { LOG_LEVELS, type LogLevel } from "./logger.js"
+import { PERMISSION_PROFILES, type PermissionProfile } from "./permissions.js"
+import { DEFAULT_API_BASE_URL, isValidApiKey } from "./server.js"
+import { OUTPUT_FORMATS, type OutputFormat } from "./types.js"
+
+export type Transport = "stdio" | "http"
+
+export type CacheMode = "memory" | "file" | "off"
+
+export interface Config {
+  /** The configuration file that was read, or `null` */
+  file: string | null
+  /** Validate the configuration and API key, then exit instead of serving */
+  check: boolean
+  apiBaseUrl: string
+  /** Key used over stdio, and by HTTP sessions that don't send their own */
+  apiKey: string | undefined
+  transport: Transport
+  port: number
+  endpoint: string
+  healthPath: string
+  outputFormat: OutputFormat
+  cache: CacheMode
+  cachePath: string
+  timeoutMs: number | undefined
+  maxRetries: number | undefined
+  batch: BatchOptions
+  budget: BudgetLimits
+  alertsPath: string
+  /** SQLite database file the local price archive is kept in; `undefined` keeps no archive */
+  snapshotsPath: string | undefined
+  filesDir: string
+  resourcePollMs: number
+  region: string | undefined
+  currency: string | undefined
+  currencyRatesPath: string | undefined
+  /** Retailer used by `product_offers_retailer` when the call doesn't name one */
+  retailer: string | undefined
+  /** Only register these tools; `undefined` registers every tool */
+  enabledTools: string[] | undefined
+  /** Never register these tools */
+  disabledTools: string[]
+  profile: PermissionProfile
+  logLevel: LogLevel | "off"
+  /** File logs are appended to; `undefined` logs to stderr */
+  logPath: string | undefined
+  /** Port of the metrics endpoint in HTTP mode; 0 turns it off */
+  metricsPort: number
+  metricsPath: string
+}
+
+export interface LoadConfigOptions {
+  /** Command-line arguments, without the node and script paths */
+  args?: string[]
+  env?: Record<string, string | undefined>
+  /** Home directory for `~` and the default file locations */
+  homeDir?: string
+}
+
+/** Where a value came from, for error messages and relative paths */
+interface Source {
+  label: string
+  /** Directory relative paths are resolved against */
+  baseDir: string
+}
+
+type Parser = (value: unknown, source: Source) => unknown
+
+interface Setting {
+  /** Dotted key in the configuration file */
+  file: string
+  env?: string
+  flag?: string
+  parse: Parser
+}
+
+function text(value: unknown): string {
+  if (typeof value === "string" && value.trim() !== "") return value.trim()
+  if (typeof value === "number" || typeof value === "boolean") return String(value)
+  throw new Error("expected a non-empty string")
+}
+
+function count(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number(text(value))
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`expected a non-negative integer, got '${value}'`)
+  return parsed
+}
+
+/** A TCP port, or with `allowOff` also 0, which turns the listener off */
+function port(allowOff: boolean): Parser {
+  return (value) => {
+    const parsed = typeof value === "number" ? value : Number(text(value))
+    if (allowOff && parsed === 0) return parsed
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+      throw new Error(`expected a port from ${allowOff ? 0 : 1} to 65535, got '${value}'`)
+    }
+    return parsed
+  }
+}
+
+function oneOf<T extends string>(...choices: readonly T[]): Parser {
+  return (value) => {
+    const choice = text(value).toLowerCase()
+    if (!choices.includes(choice as T)) throw new Error(`expected one of ${choices.map((item) => `'${item}'`).join(", ")}, got '${value}'`)
+    return choice
+  }
+}
+
+function url(value: unknown): string {
+  const parsed = text(value)
+  if (!/^https?:\/\/[^/]/.test(parsed)) throw new Error(`expected an http(s) URL, got '${parsed}'`)
+  return parsed.replace(/\/+$/, "")
+}
+
+function routePath(value: unknown): string {
+  const parsed = text(value)
+  if (!parsed.startsWith("/")) throw new Error(`'${parsed}' must start with '/'`)
+  return parsed
+}
+
+function list(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(text) : text(value).split(",")
+  return items.map((item) => item.trim()).filter(Boolean)
+}
+
+/** Expand `~` and resolve relative paths against the directory of their source */
+function filePath(homeDir: string): Parser {
+  return (value, source) => {
+    const parsed = text(value)
+    if (parsed === "~" || parsed.startsWith("~/")) return join(homeDir, parsed.slice(1))
+    return resolve(source.baseDir, parsed)
+  }
+}
+
+function settings(homeDir: string): Record<string, Setting> {
+  const path = filePath(homeDir)
+  return {
+    apiBaseUrl: { file: "api.base_url", env: "SHOPSAVVY_API_BASE_URL", flag: "api-base-url", parse: url },
+    // There is no flag for the key itself: other users could read it in the process list
+    apiKey: { file: "api.key", env: "SHOPSAVVY_API_KEY", parse: text },
+    apiKeyFile: { file: "api.key_file", env: "SHOPSAVVY_API_KEY_FILE", flag: "api-key-file", parse: path },
+    timeoutMs: { file: "api.timeout_ms", env: "SHOPSAVVY_TIMEOUT_MS", flag: "timeout-ms", parse: count },
+    maxRetries: { file: "api.max_retries", env: "SHOPSAVVY_MAX_RETRIES", flag: "max-retries", parse: count },
+    transport: { file: "transport.type", env: "SHOPSAVVY_TRANSPORT", flag: "transport", parse: oneOf("stdio", "http") },
+    port: { file: "transport.port", env: "SHOPSAVVY_PORT", flag: "port", parse: port(false) },
+    endpoint: { file: "transport.endpoint", env: "SHOPSAVVY_ENDPOINT", flag: "endpoint", parse: routePath },
+    healthPath: { file: "transport.health_path", env: "SHOPSAVVY_HEALTH_PATH", flag: "health-path", parse: routePath },
+    outputFormat: { file: "output_format", env: "SHOPSAVVY_OUTPUT_FORMAT", flag: "output-format", parse: oneOf(...OUTPUT_FORMATS) },
+    cache: { file: "cache.mode", env: "SHOPSAVVY_CACHE", flag: "cache", parse: oneOf("memory", "file", "off") },
+    cachePath: { file: "cache.path", env: "SHOPSAVVY_CACHE_PATH", flag: "cache-path", parse: path },
+    batchSize: { file: "batch.size", env: "SHOPSAVVY_BATCH_SIZE", flag: "batch-size", parse: count },
+    batchConcurrency: { file: "batch.concurrency", env: "SHOPSAVVY_BATCH_CONCURRENCY", flag: "batch-concurrency", parse: count },
+    perCall: { file: "budget.max_credits_per_call", env: "SHOPSAVVY_MAX_CREDITS_PER_CALL", flag: "max-credits-per-call", parse: count },
+    perSession: { file: "budget.max_credits_per_session", env: "SHOPSAVVY_MAX_CREDITS_PER_SESSION", flag: "max-credits-per-session", parse: count },
+    perDay: { file: "budget.max_credits_per_day", env: "SHOPSAVVY_MAX_CREDITS_PER_DAY", flag: "max-credits-per-day", parse: count },
+    minRemaining: { file: "budget.min_credits_remaining", env: "SHOPSAVVY_MIN_CREDITS_REMAINING", flag: "min-credits-remaining", parse: count },
+    recurring: { file: "budget.max_recurring_credits", env: "SHOPSAVVY_MAX_RECURRING_CREDITS", flag: "max-recurring-credits", parse: count },
+    alertsPath: { file: "alerts_path", env: "SHOPSAVVY_ALERTS_PATH", flag: "alerts-path", parse: path },
+    snapshotsPath: { file: "snapshots.path", env: "SHOPSAVVY_SNAPSHOTS_PATH", flag: "snapshots-path", parse: path },
+    filesDir: { file: "files_dir", env: "SHOPSAVVY_FILES_DIR", flag: "files-dir", parse: path },
+    resourcePollMs: { file: "resource_poll_ms", env: "SHOPSAVVY_RESOURCE_POLL_MS", flag: "resource-poll-ms", parse: count },
+    region: { file: "defaults.region", env: "SHOPSAVVY_REGION", flag: "region", parse: (value) => parseRegion(text(value)).code },
+    currency: { file: "defaults.currency", env: "SHOPSAVVY_CURRENCY", flag: "currency", parse: (value) => parseCurrency(text(value)) },
+    retailer: { file: "defaults.retailer", env: "SHOPSAVVY_RETAILER", flag: "retailer", parse: text },
+    currencyRatesPath: { file: "currency_rates_path", env: "SHOPSAVVY_CURRENCY_RATES_PATH", flag: "currency-rates-path", parse: path },
+    enabledTools: { file: "tools.enabled", env: "SHOPSAVVY_ENABLED_TOOLS", flag: "enable-tools", parse: list },
+    disabledTools: { file: "tools.disabled", env: "SHOPSAVVY_DISABLED_TOOLS", flag: "disable-tools", parse: list },
+    profile: { file: "tools.profile", env: "SHOPSAVVY_PROFILE", flag: "profile", parse: oneOf(...PERMISSION_PROFILES) },
+    logLevel: { file: "logging.level", env: "SHOPSAVVY_LOG_LEVEL", flag: "log-level", parse: oneOf(...LOG_LEVELS) },
+    logPath: { file: "logging.path", env: "SHOPSAVVY_LOG_PATH", flag: "log-path", parse: path },
+    metricsPort: { file: "metrics.port", env: "SHOPSAVVY_METRICS_PORT", flag: "metrics-port", parse: port(true) },
+    metricsPath: { file: "metrics.path", env: "SHOPSAVVY_METRICS_PATH", flag: "metrics-path", parse: routePath }
+  }
+}
+
+export const USAGE = "Usage: shopsavvy-mcp-server [--config file] [--check] [--transport stdio|http] [--port 8080] [--endpoint /mcp] [--health-path /health] [--api-key-file path] ... (see the README for every flag)"
+
+/**
+ * Parse a YAML configuration file. Warnings, such as an unknown tag, are
+ * errors too, since reading past them would silently change the settings.
+ */
+function parseYaml(content: string): unknown {
+  const document = parseDocument(content)
+  const problem = document.errors[0] ?? document.warnings[0]
+  // The message goes on with an excerpt of the file; its first line names the position
+  if (problem) throw new Error(problem.message.split("\n")[0].replace(/:$/, ""))
+  return document.toJS() ?? {}
+}
+
+/** Flatten nested file settings into dotted keys, e.g. `api.base_url` */
+function flatten(value: Record<string, unknown>, prefix = ""): Record<string, unknown> {
+  const flat: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    const name = prefix + key
+    if (item !== null && typeof item === "object" && !Array.isArray(item)) {
+      Object.assign(flat, flatten(item as Record<string, unknown>, `${name}.`))
+    } else {
+      flat[name] = item
+    }
+  }
+  return flat
+}
+
+/** Read a JSON or YAML configuration file into dotted keys */
+function readConfigFile(path: string): Record<string, unknown> {
+  let content: string
+  try {
+    content = readFileSync(path, "utf8")
+  } catch (error) {
+    throw new ConfigError([`Can't read configuration file ${path}: ${error instanceof Error ? error.message : String(error)}`])
+  }
+
+  let parsed: unknown
+  try {
+    parsed = extname(path).toLowerCase() === ".json" ? JSON.parse(content) : parseYaml(content)
+  } catch (error) {
+    throw new ConfigError([`Configuration file ${path} is not valid ${extname(path).toLowerCase() === ".json" ? "JSON" : "YAML"}: ${error instanceof Error ? error.message : String(error)}`])
+  }
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError([`Configuration file ${path} should contain an object of settings`])
+  }
+  return flatten(parsed as Record<string, unknown>)
+}
+
+/** The configuration file named by `--config` or SHOPSAVVY_CONFIG, else the default one if it exists */
+function findConfigFile(flag: string | undefined, env: Record<string, string | undefined>, homeDir: string): string | null {
+  const named = flag ?? (env.SHOPSAVVY_CONFIG || undefined)
+  if (named) return resolve(named.startsWith("~/") ? join(homeDir, named.slice(2)) : named)
+  const defaults = ["config.json", "config.yaml", "config.yml"].map((name) => join(homeDir, ".shopsavvy", name))
+  return defaults.find((path) => existsSync(path)) ?? null
+}
+
+/**
+ * Load the configuration. Settings come from the configuration file, then
+ * environment variables, then flags, later sources winning. Throws a
+ * {@link ConfigError} listing every invalid setting.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const env = options.env ?? process.env
+  const homeDir = options.homeDir ?? homedir()
+  const known = settings(homeDir)
+
+  let flags: Record<string, string | boolean | undefined>
+  try {
+    flags = parseArgs({
+      args: options.args ?? process.argv.slice(2),
+      options: {
+        config: { type: "string" },
+        check: { type: "boolean" },
+        ...Object.fromEntries(Object.values(known).filter((setting) => setting.flag).map((setting) => [setting.flag!, { type: "string" as const }]))
+      }
+    }).values
+  } catch (error) {
+    throw new ConfigError([error instanceof Error ? error.message : String(error)])
+  }
+
+  const file = findConfigFile(flags.config as string | undefined, env, homeDir)
+  const fileValues = file ? readConfigFile(file) : {}
+  const problems: string[] = []
+
+  const fileKeys = new Set(Object.values(known).map((setting) => setting.file))
+  Object.keys(fileValues)
+    .filter((key) => !fileKeys.has(key))
+    .forEach((key) => problems.push(`${file}: unknown setting '${key}'`))
+
+  const cwd = process.cwd()
+  const values: Record<string, unknown> = {}
+  // Which source set each value, so a key and a key file from different sources follow precedence
+  const rank: Record<string, number> = {}
+  for (const [name, setting] of Object.entries(known)) {
+    const candidates: [unknown, Source, number][] = [
+      [fileValues[setting.file], { label: `${file}: ${setting.file}`, baseDir: file ? dirname(file) : cwd }, 1],
+      [setting.env ? env[setting.env] || undefined : undefined, { label: setting.env!, baseDir: cwd }, 2],
+      [setting.flag ? flags[setting.flag] : undefined, { label: `--${setting.flag}`, baseDir: cwd }, 3]
+    ]
+    for (const [raw, source, sourceRank] of candidates) {
+      if (raw === undefined || raw === null) continue
+      try {
+        values[name] = setting.parse(raw, source)
+        rank[name] = sourceRank
+      } catch (error) {
+        problems.push(`${source.label}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+
+  let apiKey = values.apiKey as string | undefined
+  if (values.apiKeyFile !== undefined && (apiKey === undefined || rank.apiKeyFile > rank.apiKey)) {
+    try {
+      apiKey = readFileSync(values.apiKeyFile as string, "utf8").trim()
+    } catch (error) {
+      problems.push(`Can't read the API key file ${values.apiKeyFile}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const transport = (values.transport as Transport | undefined) ?? "stdio"
+  // Over stdio the server needs its own key. Over HTTP each session sends one,
+  // and the configured key is only a fallback for sessions that don't.
+  if (!apiKey && (transport === "stdio" || flags.check)) {
+    problems.push("An API key is required: set SHOPSAVVY_API_KEY, SHOPSAVVY_API_KEY_FILE, --api-key-file or api.key in the configuration file. Get one at https://shopsavvy.com/data")
+  } else if (apiKey && !isValidApiKey(apiKey)) {
+    problems.push("The API key has an invalid format: it should start with 'ss_live_' or 'ss_test_' followed by 32 characters")
+  }
+
+  const enabledTools = values.enabledTools as string[] | undefined
+  const disabledTools = (values.disabledTools as string[] | undefined) ?? []
+  const both = disabledTools.filter((tool) => enabledTools?.includes(tool))
+  if (both.length > 0) problems.push(`Tools can't be both enabled and disabled: ${both.join(", ")}`)
+
+  const port = (values.port as number | undefined) ?? 8080
+  const metricsPort = (values.metricsPort as number | undefined) ?? 9464
+  if (transport === "http" && metricsPort === port) problems.push(`The metrics endpoint needs its own port, not the MCP port ${port}: set metrics.port, or 0 to turn it off`)
+
+  if (problems.length > 0) throw new ConfigError(problems)
+
+  const shopsavvyDir = join(homeDir, ".shopsavvy")
+  return {
+    file,
+    check: flags.check === true,
+    apiBaseUrl: (values.apiBaseUrl as string | undefined) ?? DEFAULT_API_BASE_URL,
+    apiKey,
+    transport,
+    port,
+    endpoint: (values.endpoint as string | undefined) ?? "/mcp",
+    healthPath: (values.healthPath as string | undefined) ?? "/health",
+    outputFormat: (values.outputFormat as OutputFormat | undefined) ?? "markdown",
+    cache: (values.cache as CacheMode | undefined) ?? "memory",
+    cachePath: (values.cachePath as string | undefined) ?? join(shopsavvyDir, "cache.json"),
+    timeoutMs: values.timeoutMs as number | undefined,
+    maxRetries: values.maxRetries as number | undefined,
+    batch: {
+      chunkSize: Math.max((values.batchSize as number | undefined) ?? DEFAULT_BATCH_OPTIONS.chunkSize, 1),
+      concurrency: Math.max((values.batchConcurrency as number | undefined) ?? DEFAULT_BATCH_OPTIONS.concurrency, 1)
+    },
+    budget: {
+      perCall: values.perCall as number | undefined,
+      perSession: values.perSession as number | undefined,
+      perDay: values.perDay as number | undefined,
+      minRemaining: values.minRemaining as number | undefined,
+      recurring: values.recurring as number | undefined
+    },
+    alertsPath: (values.alertsPath as string | undefined) ?? join(shopsavvyDir, "alerts.json"),
+    snapshotsPath: values.snapshotsPath as string | undefined,
+    filesDir: (values.filesDir as string | undefined) ?? join(shopsavvyDir, "files"),
+    // Polling spends credits, so it's only on when asked for
+    resourcePollMs: (values.resourcePollMs as number | undefined) ?? 0,
+    region: values.region as string | undefined,
+    currency: values.currency as string | undefined,
+    currencyRatesPath: values.currencyRatesPath as string | undefined,
+    retailer: values.retailer as string | undefined,
+    enabledTools,
+    disabledTools,
+    profile: (values.profile as PermissionProfile | undefined) ?? "full",
+    logLevel: (values.logLevel as LogLevel | "off" | undefined) ?? "info",
+    logPath: values.logPath as string | undefined,
+    metricsPort,
+    metricsPath: (values.metricsPath as string | undefined) ?? "/metrics"
+  }
+}
+
+/** Show only the start of an API key */
+export function maskApiKey(apiKey: string): string {
+  return `${apiKey.substring(0, 10)}...`
+}
+
+/**
+ * Check that the API accepts the configured key by fetching `/usage`, which
+ * doesn't spend credits. Returns the lines of a report and whether it passed.
+ */
+export async function checkConfig(config: Config): Promise<{ ok: boolean; report: string[] }> {
+  const report = [
+    `Configuration file: ${config.file ?? "none"}`,
+    `API base URL: ${config.apiBaseUrl}`,
+    `API key: ${maskApiKey(config.apiKey!)}`
+  ]
+  const client = new ShopSavvyClient({ baseUrl: config.apiBaseUrl, apiKey: config.apiKey!, timeoutMs: config.timeoutMs, maxRetries: config.maxRetries })
+  try {
+    const result = await client.get("/usage")
+    const period = result.data?.current_period
+    if (!period || typeof period !== "object") {
+      return { ok: false, report: [...report, `❌ The API answered, but not with usage data. Is ${config.apiBaseUrl} the ShopSavvy Data API?`] }
+    }
+    const credits = (value: unknown) => typeof value === "number" ? value.toLocaleString("en-US") : "unknown"
+    return { ok: true, report: [...report, `✅ API key accepted: ${credits(period.credits_remaining)} of ${credits(period.credits_limit)} credits remaining this period`] }
+  } catch (error) {
+    return { ok: false, report: [...report, `❌ ${describeError(error)}`] }
+  }
+}
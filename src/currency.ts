@@ -0,0 +1,180 @@
+/**
+ * Regions and currencies
+ *
+ * Maps the markets the server knows about onto their currency and locale, and
+ * converts prices between currencies with a local exchange rate table so
+ * offers from different regions can be compared.
+ */
+
+import { readFileSync } from "node:fs"
+import { CurrencyConversionError } from "./errors.js"
+import type { Offer, RetailerPriceHistory } from "./types.js"
+
+/** A market prices can be requested for */
+export interface Region {
+  /** ISO 3166-1 alpha-2 country code, sent to the API as `country` */
+  code: string
+  name: string
+  /** ISO 4217 code of the currency prices are usually listed in */
+  currency: string
+  /** BCP 47 locale used to format prices and dates */
+  locale: string
+}
+
+export const REGIONS: readonly Region[] = [
+  { code: "US", name: "United States", currency: "USD", locale: "en-US" },
+  { code: "CA", name: "Canada", currency: "CAD", locale: "en-CA" },
+  { code: "GB", name: "United Kingdom", currency: "GBP", locale: "en-GB" },
+  { code: "IE", name: "Ireland", currency: "EUR", locale: "en-IE" },
+  { code: "DE", name: "Germany", currency: "EUR", locale: "de-DE" },
+  { code: "FR", name: "France", currency: "EUR", locale: "fr-FR" },
+  { code: "ES", name: "Spain", currency: "EUR", locale: "es-ES" },
+  { code: "IT", name: "Italy", currency: "EUR", locale: "it-IT" },
+  { code: "NL", name: "Netherlands", currency: "EUR", locale: "nl-NL" },
+  { code: "BE", name: "Belgium", currency: "EUR", locale: "nl-BE" },
+  { code: "AT", name: "Austria", currency: "EUR", locale: "de-AT" }
+]
+
+/** Locale used when no region is chosen */
+export const DEFAULT_LOCALE = "en-US"
+
+/** Common names for region codes, e.g. "UK" for "GB" */
+const REGION_ALIASES: Record<string, string> = {
+  UK: "GB",
+  USA: "US"
+}
+
+/** Find a region by its country code (case-insensitive), or throw */
+export function parseRegion(value: string): Region {
+  const code = value.trim().toUpperCase()
+  const region = REGIONS.find((candidate) => candidate.code === (REGION_ALIASES[code] ?? code))
+  if (!region) {
+    throw new Error(`Unknown region '${value}'. Supported regions: ${REGIONS.map((candidate) => candidate.code).join(", ")}`)
+  }
+  return region
+}
+
+/** Normalize an ISO 4217 currency code, or throw */
+export function parseCurrency(value: string): string {
+  const code = value.trim().toUpperCase()
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new Error(`Invalid currency '${value}': expected a 3-letter ISO 4217 code such as 'USD', 'GBP' or 'EUR'`)
+  }
+  return code
+}
+
+/**
+ * Exchange rates relative to a base currency: one unit of `base` buys
+ * `rates[code]` units of each other currency.
+ */
+export interface RateTable {
+  base: string
+  rates: Record<string, number>
+  /** When the rates were taken, as given in the file */
+  as_of: string | null
+}
+
+/**
+ * Validate a rate table, e.g. `{"base": "USD", "as_of": "2024-06-01",
+ * "rates": {"GBP": 0.79, "EUR": 0.92, "CAD": 1.37}}`
+ */
+export function parseRateTable(raw: any): RateTable {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Expected a JSON object with 'base' and 'rates'")
+  }
+  const base = parseCurrency(String(raw.base ?? ""))
+  if (raw.rates === null || typeof raw.rates !== "object" || Array.isArray(raw.rates)) {
+    throw new Error("'rates' should map currency codes to numbers")
+  }
+
+  const rates: Record<string, number> = {}
+  for (const [code, rate] of Object.entries(raw.rates)) {
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Rate for '${code}' should be a positive number, got ${JSON.stringify(rate)}`)
+    }
+    rates[parseCurrency(code)] = rate
+  }
+  return { base, rates, as_of: typeof raw.as_of === "string" ? raw.as_of : null }
+}
+
+/** Read and validate a JSON rate table file */
+export function loadRateTable(path: string): RateTable {
+  const text = readFileSync(path, "utf8")
+  try {
+    return parseRateTable(JSON.parse(text))
+  } catch (error) {
+    throw new Error(`Invalid currency rate table ${path}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/** Units of `to` per unit of `from`. Throws when the table can't tell. */
+export function conversionRate(from: string, to: string, table: RateTable | null): number {
+  if (from === to) return 1
+  if (!table) {
+    throw new CurrencyConversionError(`Prices in ${from} can't be converted to ${to}: no currency rate table is configured`)
+  }
+
+  const perBase = (code: string) => (code === table.base ? 1 : table.rates[code])
+  const missing = [from, to].filter((code) => perBase(code) === undefined)
+  if (missing.length > 0) {
+    throw new CurrencyConversionError(`The currency rate table has no rate for ${missing.join(" or ")}, so ${from} prices can't be converted to ${to}`)
+  }
+  return perBase(to) / perBase(from)
+}
+
+function roundPrice(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Attach the price in `currency` to every offer. Throws if any offer's
+ * currency has no rate, so results never mix converted and unconverted prices.
+ */
+export function convertOffers(offers: Offer[], currency: string, table: RateTable | null): Offer[] {
+  return offers.map((offer) => {
+    const rate = conversionRate(offer.currency, currency, table)
+    return { ...offer, converted: { price: offer.price === null ? null : roundPrice(offer.price * rate), currency, rate } }
+  })
+}
+
+/** A retailer's price history with every price converted to `currency` */
+export function convertHistory(history: RetailerPriceHistory, currency: string, table: RateTable | null): RetailerPriceHistory {
+  if (history.currency === currency) return history
+
+  const rate = conversionRate(history.currency, currency, table)
+  return {
+    ...history,
+    currency,
+    converted_from: { currency: history.currency, rate },
+    history: history.history.map((point) => ({ ...point, price: point.price === null ? null : roundPrice(point.price * rate) }))
+  }
+}
+
+/** The distinct currencies of a list of prices, in order of first appearance */
+export function currenciesOf(items: { currency: string }[]): string[] {
+  return [...new Set(items.map((item) => item.currency))]
+}
+
+/**
+ * Where and how a tool call prices things: the region sent to the API, the
+ * currency prices are converted to, and the locale they're formatted in
+ */
+export interface Market {
+  region: Region | null
+  /** Currency to convert prices to, or `null` to keep each price's own */
+  currency: string | null
+  locale: string
+}
+
+/**
+ * The market for a tool call: its own `region` and `currency` parameters,
+ * falling back to the server defaults
+ */
+export function resolveMarket(defaults: Market, region?: string, currency?: string): Market {
+  const chosen = region !== undefined ? parseRegion(region) : defaults.region
+  return {
+    region: chosen,
+    currency: currency !== undefined ? parseCurrency(currency) : defaults.currency,
+    locale: chosen?.locale ?? defaults.locale
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * ShopSavvy API error classes
+ *
+ * The API client maps HTTP failures onto these classes so tools can give the
+ * assistant a specific, actionable message instead of a raw status code.
+ */
+
+/** Base class for every failure reported by the ShopSavvy Data API */
+export class ShopSavvyApiError extends Error {
+  /** HTTP status code, or `null` when no response was received */
+  readonly status: number | null
+  readonly endpoint: string
+
+  constructor(message: string, status: number | null, endpoint: string) {
+    super(message)
+    this.name = new.target.name
+    this.status = status
+    this.endpoint = endpoint
+  }
+}
+
+/** The API key is missing, malformed, revoked or lacks access (401/403) */
+export class AuthenticationError extends ShopSavvyApiError {}
+
+/** The account has no credits left for the current billing period */
+export class QuotaExceededError extends ShopSavvyApiError {}
+
+/** The requested product or resource does not exist (404) */
+export class NotFoundError extends ShopSavvyApiError {}
+
+/** Too many requests; still rate limited after all retries (429) */
+export class RateLimitError extends ShopSavvyApiError {
+  /** How long the API asked us to wait, in milliseconds, if it said */
+  readonly retryAfterMs: number | null
+
+  constructor(message: string, endpoint: string, retryAfterMs: number | null) {
+    super(message, 429, endpoint)
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/** The API failed with a 5xx status after all retries */
+export class ServerError extends ShopSavvyApiError {}
+
+/** The request did not complete within the configured timeout */
+export class TimeoutError extends ShopSavvyApiError {}
+
+/** The API could not be reached at all (DNS, connection reset, TLS, ...) */
+export class NetworkError extends ShopSavvyApiError {}
+
+/**
+ * User input that can't possibly identify a product, such as a barcode with a
+ * wrong check digit. Raised before any API request is made.
+ */
+export class InvalidIdentifierError extends Error {
+  /** The identifier as given by the user */
+  readonly input: string
+
+  constructor(input: string, message: string) {
+    super(message)
+    this.name = "InvalidIdentifierError"
+    this.input = input
+  }
+}
+
+/**
+ * A request would go over one of the server's local credit limits. Raised
+ * before the request is sent, so no credits are spent.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BudgetExceededError"
+  }
+}
+
+/**
+ * Prices can't be converted to the requested currency because the local rate
+ * table is missing or doesn't cover one of the currencies involved
+ */
+export class CurrencyConversionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CurrencyConversionError"
+  }
+}
+
+/** The server configuration is invalid; `problems` lists every invalid setting */
+export class ConfigError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(problems.length === 1 ? problems[0] : `Invalid configuration:\n${problems.map((problem) => `- ${problem}`).join("\n")}`)
+    this.name = "ConfigError"
+    this.problems = problems
+  }
+}
+
+/**
+ * Turn any error thrown by the API client into a message that tells the
+ * assistant (and the user) what went wrong and what to do about it.
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof InvalidIdentifierError) {
+    return `Invalid identifier: ${error.message}`
+  }
+  if (error instanceof BudgetExceededError) {
+    return `Credit limit reached: ${error.message}. No credits were spent; ask the user before raising the limit`
+  }
+  if (error instanceof CurrencyConversionError) {
+    return `Currency conversion failed: ${error.message}. Add the rate to the file in SHOPSAVVY_CURRENCY_RATES_PATH, or leave out currency to see prices in their own currency`
+  }
+  if (error instanceof AuthenticationError) {
+    return `Authentication failed (${error.status}): ${error.message}. Check that SHOPSAVVY_API_KEY is correct and active at https://shopsavvy.com/data/dashboard`
+  }
+  if (error instanceof QuotaExceededError) {
+    return `API credits exhausted: ${error.message}. Upgrade your plan or wait for the next billing period at https://shopsavvy.com/data/dashboard`
+  }
+  if (error instanceof NotFoundError) {
+    return `Not found: ${error.message}. Double-check the identifier, or search for the product first`
+  }
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs !== null ? ` in ${Math.ceil(error.retryAfterMs / 1000)} seconds` : " shortly"
+    return `Rate limited by the ShopSavvy API: ${error.message}. Try again${wait}`
+  }
+  if (error instanceof ServerError) {
+    return `ShopSavvy API server error (${error.status}): ${error.message}. The service may be having problems; try again in a few minutes`
+  }
+  if (error instanceof TimeoutError) {
+    return `Request timed out: ${error.message}. The API may be slow right now; try again or narrow the request`
+  }
+  if (error instanceof NetworkError) {
+    return `Could not reach the ShopSavvy API: ${error.message}. Check your network connection`
+  }
+  return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,224 @@
+/**
+ * Product identifier detection and validation
+ *
+ * Classifies user input as a barcode (UPC-A, EAN-8, EAN-13, GTIN-14, ISBN),
+ * Amazon ASIN, product URL, ShopSavvy ID or model number, verifies barcode
+ * check digits, and normalizes the value before it is sent to the API, so
+ * typos are caught without spending credits.
+ */
+
+import { InvalidIdentifierError } from "./errors.js"
+
+export type IdentifierType =
+  | "upc_a"
+  | "ean_8"
+  | "ean_13"
+  | "gtin_14"
+  | "isbn"
+  | "asin"
+  | "url"
+  | "shopsavvy_id"
+  | "model_number"
+
+export interface Identifier {
+  /** The identifier as given by the user */
+  input: string
+  type: IdentifierType
+  /** The cleaned-up value sent to the API */
+  normalized: string
+}
+
+const TYPE_LABELS: Record<IdentifierType, string> = {
+  upc_a: "UPC-A",
+  ean_8: "EAN-8",
+  ean_13: "EAN-13",
+  gtin_14: "GTIN-14",
+  isbn: "ISBN",
+  asin: "ASIN",
+  url: "URL",
+  shopsavvy_id: "ShopSavvy ID",
+  model_number: "Model number"
+}
+
+/** Query parameters that only track the visit and never identify the product */
+const TRACKING_PARAMETERS = [
+  /^utm_/i,
+  /^(gclid|gclsrc|dclid|fbclid|msclkid|yclid|twclid|ttclid|mc_cid|mc_eid|igshid|_ga|_gl)$/i,
+  /^(ref|ref_|tag|linkcode|linkid|camp|creative|creativeasin|ascsubtag|psc|th|qid|sr|keywords|crid|sprefix|smid|spla|content-id|_encoding)$/i,
+  /^(pd_rd_|pf_rd_)/i,
+  /^(irclickid|irgwc|cjevent|clickid|affid|affiliate|srsltid|cmpid|intcmp|icid|cid)$/i
+]
+
+export function identifierLabel(type: IdentifierType) {
+  return TYPE_LABELS[type]
+}
+
+/** Human-readable summary, e.g. "012345678905 (UPC-A)" */
+export function describeIdentifier(identifier: Identifier) {
+  return `${identifier.normalized} (${TYPE_LABELS[identifier.type]})`
+}
+
+/**
+ * Check the GS1 mod-10 check digit used by UPC, EAN, GTIN and ISBN-13
+ */
+export function isValidGtin(digits: string) {
+  if (!/^\d{8,14}$/.test(digits)) return false
+  const body = digits.slice(0, -1)
+  let sum = 0
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i])
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1])
+}
+
+function expectedGtinCheckDigit(digits: string) {
+  for (let check = 0; check <= 9; check++) {
+    if (isValidGtin(digits.slice(0, -1) + check)) return check
+  }
+  return null
+}
+
+/**
+ * Check the mod-11 check digit of an ISBN-10 (last character may be "X")
+ */
+export function isValidIsbn10(value: string) {
+  if (!/^\d{9}[\dX]$/.test(value)) return false
+  let sum = 0
+  for (let i = 0; i < 10; i++) {
+    const digit = value[i] === "X" ? 10 : Number(value[i])
+    sum += digit * (10 - i)
+  }
+  return sum % 11 === 0
+}
+
+/**
+ * Remove tracking parameters, fragments and Amazon `/ref=` path segments
+ * from a product URL
+ */
+export function cleanProductUrl(input: string): string {
+  const url = new URL(/^https?:\/\//i.test(input) ? input : `https://${input}`)
+  if (!url.hostname.includes(".")) {
+    throw new InvalidIdentifierError(input, `"${input}" is not a valid product URL`)
+  }
+
+  url.hash = ""
+  url.pathname = url.pathname.replace(/\/ref=[^/]*$/i, "")
+  ;[...url.searchParams.keys()].forEach((key) => {
+    if (TRACKING_PARAMETERS.some((pattern) => pattern.test(key))) url.searchParams.delete(key)
+  })
+
+  return url.toString()
+}
+
+function barcode(input: string, digits: string): Identifier {
+  const invalid = (name: string) => {
+    const expected = expectedGtinCheckDigit(digits)
+    return new InvalidIdentifierError(
+      input,
+      `"${input}" looks like a ${name} barcode but its check digit is wrong${expected !== null ? ` (expected ${expected} as the last digit)` : ""}. Check for a typo`
+    )
+  }
+
+  switch (digits.length) {
+    case 8:
+      if (!isValidGtin(digits)) throw invalid("EAN-8")
+      return { input, type: "ean_8", normalized: digits }
+    case 11:
+      // UPC-A with its leading zero dropped, e.g. by a spreadsheet
+      if (isValidGtin(`0${digits}`)) return { input, type: "upc_a", normalized: `0${digits}` }
+      throw invalid("UPC-A")
+    case 12:
+      if (!isValidGtin(digits)) throw invalid("UPC-A")
+      return { input, type: "upc_a", normalized: digits }
+    case 13:
+      if (!isValidGtin(digits)) throw invalid(/^97[89]/.test(digits) ? "ISBN-13" : "EAN-13")
+      if (/^97[89]/.test(digits)) return { input, type: "isbn", normalized: digits }
+      // An EAN-13 with a leading zero is a zero-padded UPC-A
+      if (digits.startsWith("0")) return { input, type: "upc_a", normalized: digits.slice(1) }
+      return { input, type: "ean_13", normalized: digits }
+    case 14:
+      if (!isValidGtin(digits)) throw invalid("GTIN-14")
+      // Zero-padded GTIN-14s are really UPC-A or EAN-13 codes
+      if (digits.startsWith("00")) return { input, type: "upc_a", normalized: digits.slice(2) }
+      if (digits.startsWith("0")) return { input, type: "ean_13", normalized: digits.slice(1) }
+      return { input, type: "gtin_14", normalized: digits }
+  }
+
+  throw invalid("product")
+}
+
+/**
+ * Detect the type of a product identifier and normalize it.
+ *
+ * Throws {@link InvalidIdentifierError} for input that can't identify a
+ * product, such as barcodes with a wrong check digit or malformed ASINs.
+ */
+export function parseIdentifier(raw: string): Identifier {
+  const input = raw.trim()
+
+  if (!input) {
+    throw new InvalidIdentifierError(raw, "Identifier is empty")
+  }
+  if (input.length > 2048 || /[\u0000-\u001f]/.test(input)) {
+    throw new InvalidIdentifierError(raw, "Identifier is too long or contains control characters")
+  }
+
+  // URLs
+  if (/^https?:\/\//i.test(input) || /^www\./i.test(input) || /^[a-z0-9-]+(\.[a-z0-9-]+)+\/\S*$/i.test(input)) {
+    try {
+      return { input, type: "url", normalized: cleanProductUrl(input) }
+    } catch (error) {
+      if (error instanceof InvalidIdentifierError) throw error
+      throw new InvalidIdentifierError(input, `"${input}" is not a valid product URL`)
+    }
+  }
+
+  // Barcodes, allowing spaces and dashes between digit groups
+  const digits = input.replace(/[\s-]/g, "")
+  if (/^\d+$/.test(digits) && [8, 11, 12, 13, 14].includes(digits.length)) {
+    return barcode(input, digits)
+  }
+
+  // ISBN-10 (also valid as an ASIN for books)
+  const isbn10 = digits.toUpperCase()
+  if (/^\d{9}[\dX]$/.test(isbn10) && isValidIsbn10(isbn10)) {
+    return { input, type: "isbn", normalized: isbn10 }
+  }
+
+  // ASINs
+  if (/^B0/i.test(input) && /^[a-z0-9]+$/i.test(input)) {
+    if (input.length !== 10) {
+      throw new InvalidIdentifierError(input, `"${input}" looks like an Amazon ASIN but has ${input.length} characters instead of 10`)
+    }
+    return { input, type: "asin", normalized: input.toUpperCase() }
+  }
+
+  // ShopSavvy IDs are opaque numeric IDs that aren't barcode-length
+  if (/^\d+$/.test(input)) {
+    return { input, type: "shopsavvy_id", normalized: input }
+  }
+
+  return { input, type: "model_number", normalized: input }
+}
+
+export interface ParsedIdentifiers {
+  valid: Identifier[]
+  invalid: InvalidIdentifierError[]
+}
+
+/**
+ * Parse several identifiers, separating the valid ones from the invalid ones
+ */
+export function parseIdentifiers(inputs: string[]): ParsedIdentifiers {
+  const result: ParsedIdentifiers = { valid: [], invalid: [] }
+  inputs.forEach((input) => {
+    try {
+      result.valid.push(parseIdentifier(input))
+    } catch (error) {
+      if (!(error instanceof InvalidIdentifierError)) throw error
+      result.invalid.push(error)
+    }
+  })
+  return result
+}
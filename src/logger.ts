@@ -0,0 +1,86 @@
+/**
+ * Structured logging
+ *
+ * Writes one JSON object per line to stderr or a file, never to stdout,
+ * which is the MCP channel over stdio. Each line has a timestamp, a level and
+ * a message, plus fields such as the request ID of the tool call it belongs to.
+ */
+
+import { appendFileSync, mkdirSync } from "node:fs"
+import { dirname } from "node:path"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+/** Log levels from most to least verbose, and "off" to log nothing */
+export const LOG_LEVELS: readonly (LogLevel | "off")[] = ["debug", "info", "warn", "error", "off"]
+
+export type LogFields = Record<string, unknown>
+
+/** Where log lines go */
+export type LogSink = (line: string) => void
+
+/** Sink that writes to stderr */
+export function stderrSink(): LogSink {
+  return (line) => process.stderr.write(line + "\n")
+}
+
+/** Sink that appends to `path`, creating its directory */
+export function fileSink(path: string): LogSink {
+  mkdirSync(dirname(path), { recursive: true })
+  return (line) => appendFileSync(path, line + "\n")
+}
+
+/** Turn errors into something JSON can hold */
+function serializable(value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value
+}
+
+export class Logger {
+  private readonly threshold: number
+
+  constructor(
+    readonly level: LogLevel | "off" = "info",
+    private readonly sink: LogSink = stderrSink(),
+    private readonly fields: LogFields = {}
+  ) {
+    this.threshold = LOG_LEVELS.indexOf(level)
+  }
+
+  /** A logger that adds `fields` to every line, e.g. a request ID */
+  child(fields: LogFields): Logger {
+    return new Logger(this.level, this.sink, { ...this.fields, ...fields })
+  }
+
+  enabled(level: LogLevel) {
+    return LOG_LEVELS.indexOf(level) >= this.threshold
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields)
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields)
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields)
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields)
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (!this.enabled(level)) return
+    const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...this.fields }
+    Object.entries(fields).forEach(([key, value]) => {
+      entry[key] = serializable(value)
+    })
+    try {
+      this.sink(JSON.stringify(entry))
+    } catch {
+      // A full disk or closed stderr shouldn't fail the tool call being logged
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Metrics
+ *
+ * Counts tool calls, errors and durations, and the API requests each tool
+ * makes with their latency, retries, cache hits and credits, and serves them
+ * in the Prometheus text format from a small HTTP server of their own.
+ */
+
+import { createServer } from "node:http"
+import type { AddressInfo } from "node:net"
+import type { ApiCall } from "./client.js"
+
+type Labels = Record<string, string>
+
+/** Escape a label value for the Prometheus text format */
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function labelText(labels: Labels) {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+/** One metric's values per label set */
+class MetricFamily {
+  private readonly values = new Map<string, number>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "summary"
+  ) {}
+
+  add(labels: Labels, amount = 1, suffix = "") {
+    const key = `${this.name}${suffix}${labelText(labels)}`
+    this.values.set(key, (this.values.get(key) ?? 0) + amount)
+  }
+
+  /** Count one observation of a summary: adds to `_sum` and `_count` */
+  observe(labels: Labels, value: number) {
+    this.add(labels, value, "_sum")
+    this.add(labels, 1, "_count")
+  }
+
+  render(): string {
+    let text = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} ${this.type}\n`
+    Array.from(this.values.keys()).sort().forEach((key) => {
+      // Rounded so sums of seconds don't print floating point noise
+      text += `${key} ${Number(this.values.get(key)!.toFixed(6))}\n`
+    })
+    return text
+  }
+}
+
+export class Metrics {
+  private readonly toolCalls = new MetricFamily("shopsavvy_tool_calls_total", "Tool calls", "counter")
+  private readonly toolErrors = new MetricFamily("shopsavvy_tool_errors_total", "Tool calls that returned an error", "counter")
+  private readonly toolDuration = new MetricFamily("shopsavvy_tool_duration_seconds", "Time spent in tool calls", "summary")
+  private readonly apiRequests = new MetricFamily("shopsavvy_api_requests_total", "ShopSavvy API requests by final HTTP status (\"none\" when no response was received)", "counter")
+  private readonly apiDuration = new MetricFamily("shopsavvy_api_request_duration_seconds", "ShopSavvy API request latency, including retries", "summary")
+  private readonly apiRetries = new MetricFamily("shopsavvy_api_retries_total", "ShopSavvy API request attempts after the first", "counter")
+  private readonly cacheHits = new MetricFamily("shopsavvy_cache_hits_total", "API responses served from the local cache", "counter")
+  private readonly credits = new MetricFamily("shopsavvy_credits_used_total", "Credits spent, as reported by the API", "counter")
+
+  /** Count a finished tool call */
+  recordToolCall(tool: string, durationMs: number, failed: boolean) {
+    this.toolCalls.add({ tool })
+    if (failed) this.toolErrors.add({ tool })
+    this.toolDuration.observe({ tool }, durationMs / 1000)
+  }
+
+  /** Count an API request made for `tool` ("resources" for resource reads) */
+  recordApiCall(tool: string, call: ApiCall) {
+    if (call.cached) {
+      this.cacheHits.add({ tool, endpoint: call.endpoint })
+      return
+    }
+    this.apiRequests.add({ tool, endpoint: call.endpoint, status: call.status === null ? "none" : String(call.status) })
+    this.apiDuration.observe({ tool, endpoint: call.endpoint }, call.durationMs / 1000)
+    if (call.attempts > 1) this.apiRetries.add({ tool, endpoint: call.endpoint }, call.attempts - 1)
+    this.credits.add({ tool }, call.creditsUsed)
+  }
+
+  /** Every metric in the Prometheus text exposition format */
+  render(): string {
+    return [this.toolCalls, this.toolErrors, this.toolDuration, this.apiRequests, this.apiDuration, this.apiRetries, this.cacheHits, this.credits]
+      .map((family) => family.render())
+      .join("")
+  }
+}
+
+export interface MetricsServerOptions {
+  /** Port to listen on; 0 picks a free port */
+  port: number
+  /** Path metrics are served at (default "/metrics") */
+  path?: string
+}
+
+export interface MetricsServer {
+  port: number
+  close(): Promise<void>
+}
+
+/** Serve `metrics` over HTTP for Prometheus to scrape */
+export async function startMetricsServer(metrics: Metrics, options: MetricsServerOptions): Promise<MetricsServer> {
+  const path = options.path ?? "/metrics"
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost")
+    if (request.method !== "GET" || url.pathname !== path) {
+      response.writeHead(404, { "Content-Type": "text/plain" }).end("Not found")
+      return
+    }
+    response.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" }).end(metrics.render())
+  })
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once("error", rejectListen)
+    server.listen(options.port, () => resolveListen())
+  })
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    close() {
+      return new Promise((resolveClose) => {
+        server.closeAllConnections()
+        server.close(() => resolveClose())
+      })
+    }
+  }
+}
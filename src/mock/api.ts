@@ -0,0 +1,280 @@
+/**
+ * Mock ShopSavvy Data API
+ *
+ * A small HTTP server that implements every endpoint the tools call
+ * (`/products`, `/products/search`, `/products/offers`,
+ * `/products/offers/history`, `/products/scheduled` and `/usage`) on top of
+ * {@link MockFixtures}, including credit accounting. Tests can queue scripted
+ * responses for an endpoint to simulate error statuses and malformed data.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import type { AddressInfo } from "node:net"
+import { DEFAULT_FIXTURES, type MockFixtures, type MockProduct, type MockScheduledProduct } from "./fixtures.js"
+
+export interface MockApiOptions {
+  /** Catalog to serve (default {@link DEFAULT_FIXTURES}) */
+  fixtures?: MockFixtures
+  /** Port to listen on; 0 picks a free port (default 0) */
+  port?: number
+  /** Interface to listen on (default "127.0.0.1") */
+  host?: string
+  /** Only accept these API keys; any key is accepted when omitted */
+  apiKeys?: string[]
+}
+
+/** A scripted response returned instead of the fixture-backed one */
+export interface MockResponse {
+  status: number
+  /** JSON-encoded unless it is a string */
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+/** A request received by the mock */
+export interface MockRequest {
+  method: string
+  /** Endpoint path without the `/api/v1` prefix, e.g. "/products/offers" */
+  path: string
+  params: Record<string, string>
+  apiKey: string | null
+}
+
+export interface MockApi {
+  /** Base URL to pass as the API base URL, e.g. "http://127.0.0.1:4010/api/v1" */
+  url: string
+  /** Every request received, oldest first */
+  requests: MockRequest[]
+  /**
+   * Queue scripted responses for `path`. Each one is used for a single
+   * request, in order; the fixtures take over again once they run out.
+   */
+  respondWith(path: string, ...responses: MockResponse[]): void
+  /** Restore the fixtures and credits, and clear scripted responses and the request log */
+  reset(): void
+  close(): Promise<void>
+}
+
+const PATH_PREFIX = "/api/v1"
+
+function productInfo(product: MockProduct) {
+  const { offers, history, urls, ...info } = product
+  return info
+}
+
+function normalizeUrl(url: string) {
+  return url.toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/[?#].*$/, "").replace(/\/$/, "")
+}
+
+function matchesIdentifier(product: MockProduct, identifier: string) {
+  const value = identifier.trim().toLowerCase()
+  if (!value) return false
+
+  const fields = [product.shopsavvy, product.amazon, product.model, product.mpn].filter(Boolean).map((field) => field!.toLowerCase())
+  if (fields.includes(value)) return true
+  if (product.barcode && /^\d+$/.test(value) && product.barcode.replace(/^0+/, "") === value.replace(/^0+/, "")) return true
+
+  if (/^https?:\/\//.test(value)) {
+    const url = normalizeUrl(value)
+    return (product.urls || []).some((candidate) => normalizeUrl(candidate) === url)
+  }
+  return false
+}
+
+export async function startMockApi(options: MockApiOptions = {}): Promise<MockApi> {
+  const fixtures = options.fixtures ?? DEFAULT_FIXTURES
+  const scripted = new Map<string, MockResponse[]>()
+  const requests: MockRequest[] = []
+
+  let products: MockProduct[] = []
+  let scheduled: MockScheduledProduct[] = []
+  let creditsUsed = 0
+  let requestsMade = 0
+  const creditsLimit = fixtures.credits_limit ?? 1000
+
+  const reset = () => {
+    products = structuredClone(fixtures.products)
+    scheduled = structuredClone(fixtures.scheduled ?? [])
+    creditsUsed = fixtures.credits_used ?? 0
+    requestsMade = 0
+    scripted.clear()
+    requests.length = 0
+  }
+  reset()
+
+  const send = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    const text = typeof body === "string" ? body : JSON.stringify(body)
+    response.writeHead(status, { "Content-Type": typeof body === "string" ? "text/plain" : "application/json", ...headers })
+    response.end(text)
+  }
+
+  const resolve = (ids: string | undefined) => {
+    const identifiers = (ids || "").split(",").map((id) => id.trim()).filter(Boolean)
+    const found: MockProduct[] = []
+    identifiers.forEach((identifier) => {
+      const product = products.find((candidate) => matchesIdentifier(candidate, identifier))
+      if (product && !found.includes(product)) found.push(product)
+    })
+    return found
+  }
+
+  /** Charge `credits` and build the success envelope, or `null` when the account can't pay */
+  const billed = (data: unknown, credits: number, extraMeta: Record<string, unknown> = {}) => {
+    if (creditsUsed + credits > creditsLimit) return null
+    creditsUsed += credits
+    return {
+      success: true,
+      data,
+      meta: { credits_used: credits, credits_remaining: creditsLimit - creditsUsed, ...extraMeta }
+    }
+  }
+
+  const route = (method: string, path: string, params: Record<string, string>): MockResponse => {
+    const ok = (data: unknown, credits: number, extraMeta?: Record<string, unknown>) => {
+      const body = billed(data, credits, extraMeta)
+      return body ? { status: 200, body } : { status: 402, body: { success: false, error: "Insufficient credits for this request" } }
+    }
+
+    if (method === "GET" && path === "/products") {
+      const found = resolve(params.ids)
+      return ok(found.map(productInfo), found.length)
+    }
+
+    if (method === "GET" && path === "/products/search") {
+      const words = (params.q || "").toLowerCase().split(/\s+/).filter(Boolean)
+      const lowestPrice = (product: MockProduct) =>
+        Math.min(...(product.offers || []).map((offer) => offer.price).filter((price) => typeof price === "number"))
+      const matches = products.filter((product) => {
+        const text = [product.title, product.brand, product.category].filter(Boolean).join(" ").toLowerCase()
+        if (!words.every((word) => text.includes(word))) return false
+        if (params.brand && product.brand?.toLowerCase() !== params.brand.toLowerCase()) return false
+        if (params.category && product.category?.toLowerCase() !== params.category.toLowerCase()) return false
+        if (params.min_price && !(lowestPrice(product) >= Number(params.min_price))) return false
+        if (params.max_price && !(lowestPrice(product) <= Number(params.max_price))) return false
+        return true
+      })
+      const offset = Number(params.offset) || 0
+      const limit = Number(params.limit) || 10
+      return ok(matches.slice(offset, offset + limit).map(productInfo), 1, { total: matches.length })
+    }
+
+    if (method === "GET" && path === "/products/offers") {
+      const found = resolve(params.ids)
+      const retailer = params.retailer?.toLowerCase()
+      return ok(
+        found.map((product) => ({
+          ...productInfo(product),
+          offers: (product.offers || []).filter((offer) => !retailer || String(offer.retailer).toLowerCase() === retailer)
+        })),
+        found.length
+      )
+    }
+
+    if (method === "GET" && path === "/products/offers/history") {
+      if (!params.start || !params.end) {
+        return { status: 400, body: { success: false, error: "start and end are required" } }
+      }
+      const found = resolve(params.ids)
+      const retailer = params.retailer?.toLowerCase()
+      const inRange = (timestamp: string) => timestamp.slice(0, 10) >= params.start && timestamp.slice(0, 10) <= params.end
+      return ok(
+        found.map((product) => ({
+          ...productInfo(product),
+          offers: (product.history || [])
+            .filter((series) => !retailer || series.retailer.toLowerCase() === retailer)
+            .map((series) => ({ retailer: series.retailer, history: series.history.filter((point) => inRange(point.timestamp)) }))
+        })),
+        found.length
+      )
+    }
+
+    if (path === "/products/scheduled") {
+      const scheduledProduct = (entry: MockScheduledProduct) => {
+        const product = products.find((candidate) => candidate.shopsavvy === entry.shopsavvy)
+        return { ...(product ? productInfo(product) : { shopsavvy: entry.shopsavvy, title: "" }), schedule: entry.schedule, retailer: entry.retailer ?? null }
+      }
+
+      if (method === "GET") {
+        return ok(scheduled.map(scheduledProduct), 0)
+      }
+      if (method === "PUT") {
+        if (!["hourly", "daily", "weekly"].includes(params.schedule)) {
+          return { status: 400, body: { success: false, error: "schedule must be hourly, daily or weekly" } }
+        }
+        const entries = resolve(params.ids).map((product) => {
+          scheduled = scheduled.filter((entry) => entry.shopsavvy !== product.shopsavvy)
+          const entry: MockScheduledProduct = { shopsavvy: product.shopsavvy, schedule: params.schedule, retailer: params.retailer }
+          scheduled.push(entry)
+          return entry
+        })
+        return ok(entries.map(scheduledProduct), 0)
+      }
+      if (method === "DELETE") {
+        const ids = new Set(resolve(params.ids).map((product) => product.shopsavvy))
+        const removed = scheduled.filter((entry) => ids.has(entry.shopsavvy))
+        scheduled = scheduled.filter((entry) => !ids.has(entry.shopsavvy))
+        return ok(removed.map(scheduledProduct), 0)
+      }
+    }
+
+    if (method === "GET" && path === "/usage") {
+      const today = new Date()
+      const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1))
+      const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 0))
+      return ok({
+        current_period: {
+          start_date: start.toISOString().slice(0, 10),
+          end_date: end.toISOString().slice(0, 10),
+          credits_used: creditsUsed,
+          credits_limit: creditsLimit,
+          credits_remaining: creditsLimit - creditsUsed,
+          requests_made: requestsMade
+        },
+        usage_percentage: Math.round((creditsUsed / creditsLimit) * 1000) / 10
+      }, 0)
+    }
+
+    return { status: 404, body: { success: false, error: `Unknown endpoint: ${method} ${path}` } }
+  }
+
+  const handle = (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || "/", "http://localhost")
+    const path = url.pathname.startsWith(PATH_PREFIX) ? url.pathname.slice(PATH_PREFIX.length) || "/" : url.pathname
+    const apiKey = request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null
+    const method = request.method || "GET"
+
+    requests.push({ method, path, params: Object.fromEntries(url.searchParams), apiKey })
+    requestsMade++
+
+    if (!apiKey || (options.apiKeys && !options.apiKeys.includes(apiKey))) {
+      send(response, 401, { success: false, error: "Invalid API key" })
+      return
+    }
+
+    const queued = scripted.get(path)
+    const result = queued?.shift() ?? route(method, path, Object.fromEntries(url.searchParams))
+    send(response, result.status, result.body ?? "", result.headers)
+  }
+
+  const server = createServer(handle)
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once("error", rejectListen)
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => resolveListen())
+  })
+  const address = server.address() as AddressInfo
+
+  return {
+    url: `http://${address.family === "IPv6" ? `[${address.address}]` : address.address}:${address.port}${PATH_PREFIX}`,
+    requests,
+    respondWith(path, ...responses) {
+      scripted.set(path, [...(scripted.get(path) ?? []), ...responses])
+    },
+    reset,
+    close() {
+      return new Promise((resolveClose) => {
+        server.closeAllConnections()
+        server.close(() => resolveClose())
+      })
+    }
+  }
+}
@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+
+/**
+ * Run the mock ShopSavvy Data API on localhost, for trying the MCP server
+ * without an API key or spending credits:
+ *
+ *   bun run mock -- --port 4010 [--fixtures catalog.json]
+ *   SHOPSAVVY_API_BASE_URL=http://127.0.0.1:4010/api/v1 SHOPSAVVY_API_KEY=ss_test_... bun run dev
+ */
+
+import { readFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { startMockApi } from "./api.js"
+import type { MockFixtures } from "./fixtures.js"
+
+let cliOptions: Record<string, string | undefined>
+try {
+  cliOptions = parseArgs({
+    options: {
+      port: { type: "string" },
+      host: { type: "string" },
+      fixtures: { type: "string" }
+    }
+  }).values
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+  console.error("Usage: shopsavvy-mock-api [--port 4010] [--host 127.0.0.1] [--fixtures fixtures.json]")
+  process.exit(1)
+}
+
+const port = Number(cliOptions.port ?? 4010)
+if (!Number.isInteger(port) || port < 0) {
+  console.error(`❌ Invalid --port: '${cliOptions.port}'`)
+  process.exit(1)
+}
+
+let fixtures: MockFixtures | undefined
+if (cliOptions.fixtures) {
+  try {
+    fixtures = JSON.parse(readFileSync(cliOptions.fixtures, "utf8"))
+  } catch (error) {
+    console.error(`❌ Could not read fixtures from ${cliOptions.fixtures}: ${error instanceof Error ? error.message : String(error)}`)
+    process.exit(1)
+  }
+  if (!Array.isArray(fixtures?.products)) {
+    console.error(`❌ Invalid fixtures file ${cliOptions.fixtures}: expected a "products" array`)
+    process.exit(1)
+  }
+}
+
+const api = await startMockApi({ port, host: cliOptions.host, fixtures })
+console.log(`🧪 Mock ShopSavvy API listening at ${api.url}`)
+console.log(`   Point the server at it with SHOPSAVVY_API_BASE_URL=${api.url}`)
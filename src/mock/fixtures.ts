@@ -0,0 +1,137 @@
+/**
+ * Mock API fixtures
+ *
+ * The catalog served by the mock ShopSavvy API. Products are stored in the
+ * API's raw response shape, with their current offers and per-retailer price
+ * history attached. A fixtures file passed to the mock on the command line
+ * uses the same {@link MockFixtures} shape.
+ */
+
+export interface MockPricePoint {
+  timestamp: string
+  price: number | null
+  availability: string | null
+}
+
+export interface MockProduct {
+  shopsavvy: string
+  title: string
+  brand?: string
+  category?: string
+  color?: string
+  model?: string
+  mpn?: string
+  barcode?: string
+  amazon?: string
+  images?: string[]
+  /** Product page URLs that resolve to this product */
+  urls?: string[]
+  /** Current offers, as returned by `/products/offers` */
+  offers?: any[]
+  /** Price history per retailer, as returned by `/products/offers/history` */
+  history?: { retailer: string; history: MockPricePoint[] }[]
+}
+
+export interface MockScheduledProduct {
+  shopsavvy: string
+  schedule: string
+  retailer?: string
+}
+
+export interface MockFixtures {
+  products: MockProduct[]
+  /** Products scheduled for monitoring when the mock starts */
+  scheduled?: MockScheduledProduct[]
+  /** Credits in the billing period (default 1000) */
+  credits_limit?: number
+  /** Credits already used when the mock starts (default 0) */
+  credits_used?: number
+}
+
+/**
+ * A deterministic daily price series ending today, oscillating around `base`
+ * and trending down by `drift` over the whole period
+ */
+export function priceSeries(days: number, base: number, amplitude: number, drift = 0): MockPricePoint[] {
+  const today = Date.parse(new Date().toISOString().slice(0, 10))
+  return Array.from({ length: days }, (_, index) => {
+    const age = days - 1 - index
+    const price = base + amplitude * Math.sin(index / 5) - drift * (index / Math.max(days - 1, 1))
+    return {
+      timestamp: new Date(today - age * 86400000 + 12 * 3600000).toISOString(),
+      price: Math.round(price * 100) / 100,
+      availability: "in_stock"
+    }
+  })
+}
+
+export const DEFAULT_FIXTURES: MockFixtures = {
+  products: [
+    {
+      shopsavvy: "1000001",
+      title: "Apple AirPods Pro (2nd Generation)",
+      brand: "Apple",
+      category: "Headphones",
+      color: "White",
+      model: "MQD83AM/A",
+      mpn: "MQD83AM/A",
+      barcode: "194253397168",
+      amazon: "B0BDHWDR12",
+      images: ["https://images.example.com/airpods-pro.jpg"],
+      urls: ["https://www.amazon.com/dp/B0BDHWDR12", "https://www.bestbuy.com/site/apple-airpods-pro-2nd-generation/4900964.p"],
+      offers: [
+        { retailer: "amazon.com", price: 189.99, currency: "USD", availability: "in_stock", condition: "new", seller: "Amazon.com", url: "https://www.amazon.com/dp/B0BDHWDR12" },
+        { retailer: "bestbuy.com", price: 199.99, currency: "USD", availability: "in_stock", condition: "new", seller: "Best Buy", url: "https://www.bestbuy.com/site/4900964.p" },
+        { retailer: "walmart.com", price: 179, currency: "USD", availability: "out_of_stock", condition: "new", seller: "Walmart.com", url: "https://www.walmart.com/ip/1752657021" },
+        { retailer: "amazon.com", price: 159.5, currency: "USD", availability: "in_stock", condition: "Used - Like New", seller: "Gadget Outlet", url: "https://www.amazon.com/dp/B0BDHWDR12?smid=gadget" },
+        { retailer: "ebay.com", price: 149, currency: "USD", availability: "in_stock", condition: "Refurbished", seller: "renewed_audio", url: "https://www.ebay.com/itm/1234567890" }
+      ],
+      history: [
+        { retailer: "amazon.com", history: priceSeries(120, 215, 15, 25) },
+        { retailer: "bestbuy.com", history: priceSeries(120, 229, 10, 30) }
+      ]
+    },
+    {
+      shopsavvy: "1000002",
+      title: "Sony WH-1000XM5 Wireless Noise Canceling Headphones",
+      brand: "Sony",
+      category: "Headphones",
+      color: "Black",
+      model: "WH1000XM5/B",
+      mpn: "WH1000XM5/B",
+      barcode: "027242812352",
+      amazon: "B09XS7JWHH",
+      images: ["https://images.example.com/wh-1000xm5.jpg"],
+      urls: ["https://www.amazon.com/dp/B09XS7JWHH"],
+      offers: [
+        { retailer: "amazon.com", price: 328, currency: "USD", availability: "in_stock", condition: "new", seller: "Amazon.com", url: "https://www.amazon.com/dp/B09XS7JWHH" },
+        { retailer: "target.com", price: 349.99, currency: "USD", availability: "in_stock", condition: "new", seller: "Target", url: "https://www.target.com/p/-/A-86165353" },
+        { retailer: "bestbuy.com", price: 279.99, currency: "USD", availability: "in_stock", condition: "Open Box", seller: "Best Buy", url: "https://www.bestbuy.com/site/6505727.p" }
+      ],
+      history: [
+        { retailer: "amazon.com", history: priceSeries(120, 345, 20, 10) },
+        { retailer: "target.com", history: priceSeries(120, 360, 5) }
+      ]
+    },
+    {
+      shopsavvy: "1000003",
+      title: "Eloquent JavaScript, 3rd Edition",
+      brand: "No Starch Press",
+      category: "Books",
+      barcode: "9781593279509",
+      amazon: "1593279507",
+      images: [],
+      offers: [
+        { retailer: "amazon.com", price: 29.49, currency: "USD", availability: "in_stock", condition: "new", seller: "Amazon.com", url: "https://www.amazon.com/dp/1593279507" }
+      ],
+      history: [
+        { retailer: "amazon.com", history: priceSeries(120, 32, 2) }
+      ]
+    }
+  ],
+  scheduled: [
+    { shopsavvy: "1000002", schedule: "daily" }
+  ],
+  credits_limit: 1000,
+  credits_used: 0
+}
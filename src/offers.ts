@@ -0,0 +1,129 @@
+/**
+ * Offer helpers
+ *
+ * Normalizes the condition, availability and seller of raw API offers,
+ * matches retailer names, and filters offers down to the ones users care about.
+ */
+
+import type { Offer, OfferAvailability, OfferCondition, SellerType } from "./types.js"
+
+/** Map a raw condition string onto a normalized condition */
+export function normalizeCondition(condition: any): OfferCondition | null {
+  if (typeof condition !== "string" || !condition.trim()) return null
+  if (/refurb|renewed|reconditioned/i.test(condition)) return "refurbished"
+  if (/used|pre[\s_-]?owned|open[\s_-]?box|like[\s_-]?new/i.test(condition)) return "used"
+  if (/new/i.test(condition)) return "new"
+  return null
+}
+
+/** Map a raw availability string onto a normalized stock status */
+export function normalizeAvailability(availability: any): OfferAvailability | null {
+  if (typeof availability !== "string" || !availability.trim()) return null
+  if (/out|unavailable|sold[\s_-]?out|discontinued/i.test(availability)) return "out_of_stock"
+  if (/pre[\s_-]?order|back[\s_-]?order/i.test(availability)) return "preorder"
+  if (/in[\s_-]?stock|available|limited/i.test(availability)) return "in_stock"
+  return null
+}
+
+/**
+ * Decide whether an offer is sold by the retailer itself or by a third-party
+ * marketplace seller. Offers without a seller are assumed to be first-party.
+ */
+export function sellerType(raw: any): SellerType | null {
+  if (raw.seller_type === "retailer" || raw.seller_type === "marketplace") return raw.seller_type
+  if (typeof raw.marketplace === "boolean") return raw.marketplace ? "marketplace" : "retailer"
+  if (!raw.seller) return raw.retailer ? "retailer" : null
+  if (!raw.retailer) return null
+
+  const compact = (value: string) => value.toLowerCase().replace(/^www\./, "").replace(/[^a-z0-9]/g, "")
+  const retailerName = compact(String(raw.retailer).split(".")[0])
+  return compact(String(raw.seller)).startsWith(retailerName) ? "retailer" : "marketplace"
+}
+
+/** Whether an offer is for a new item (offers without a condition count as new) */
+export function isNewCondition(offer: Offer) {
+  return offer.condition === null || offer.condition === "new"
+}
+
+/** Whether an offer is for a used or refurbished item */
+export function isUsedCondition(offer: Offer) {
+  return offer.condition === "used" || offer.condition === "refurbished"
+}
+
+/** Whether an offer is currently in stock */
+export function isInStock(offer: Offer) {
+  return offer.availability === "in_stock"
+}
+
+function normalizeRetailer(retailer: string) {
+  return retailer.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, "")
+}
+
+/**
+ * Whether `retailer` matches any entry in `retailers`. Entries may be full
+ * domains ("bestbuy.com") or bare names ("bestbuy").
+ */
+export function matchesRetailer(retailer: string | null, retailers: string[]) {
+  if (!retailer) return false
+  const domain = normalizeRetailer(retailer)
+  const name = domain.split(".")[0]
+  return retailers.some((entry) => {
+    const wanted = normalizeRetailer(entry)
+    return wanted === domain || wanted === name
+  })
+}
+
+/**
+ * The price offers are compared by: the converted price when a currency
+ * conversion was requested, otherwise the offer's own price
+ */
+export function comparablePrice(offer: Offer): number | null {
+  return offer.converted ? offer.converted.price : offer.price
+}
+
+/** The cheapest offer with a price, or `null` */
+export function cheapestOffer(offers: Offer[]): Offer | null {
+  return offers.reduce<Offer | null>((best, offer) => {
+    const price = comparablePrice(offer)
+    if (price === null) return best
+    return best === null || price < comparablePrice(best)! ? offer : best
+  }, null)
+}
+
+export interface OfferFilters {
+  /** Only keep offers in one of these conditions */
+  conditions?: OfferCondition[]
+  /** Only keep offers that are in stock */
+  inStockOnly?: boolean
+  sellerType?: SellerType
+  /** Only keep offers from these retailers */
+  retailers?: string[]
+  /** Drop offers from these retailers */
+  excludeRetailers?: string[]
+  /** Drop offers priced above this, compared with {@link comparablePrice} */
+  maxPrice?: number
+}
+
+/** Apply {@link OfferFilters} to a list of offers */
+export function filterOffers(offers: Offer[], filters: OfferFilters): Offer[] {
+  return offers.filter((offer) => {
+    if (filters.conditions?.length && !filters.conditions.includes(offer.condition ?? "new")) return false
+    if (filters.inStockOnly && !isInStock(offer)) return false
+    if (filters.sellerType && offer.seller_type !== filters.sellerType) return false
+    if (filters.retailers?.length && !matchesRetailer(offer.retailer, filters.retailers)) return false
+    if (filters.excludeRetailers?.length && matchesRetailer(offer.retailer, filters.excludeRetailers)) return false
+    const price = comparablePrice(offer)
+    if (filters.maxPrice !== undefined && (price === null || price > filters.maxPrice)) return false
+    return true
+  })
+}
+
+/** Sort offers by {@link comparablePrice}, lowest first, with unpriced offers last */
+export function sortByPrice(offers: Offer[]): Offer[] {
+  return [...offers].sort((a, b) => {
+    const [priceA, priceB] = [comparablePrice(a), comparablePrice(b)]
+    if (priceA === null) return 1
+    if (priceB === null) return -1
+    return priceA - priceB
+  })
+}
@@ -0,0 +1,355 @@
+/**
+ * Output helpers
+ *
+ * Converts raw ShopSavvy API objects into the documented structured types and
+ * renders tool results in the requested {@link OutputFormat}.
+ */
+
+import type { ContentResult } from "fastmcp"
+import { z } from "zod"
+import { DEFAULT_LOCALE, REGIONS } from "./currency.js"
+import type { InvalidIdentifierError } from "./errors.js"
+import {
+  OUTPUT_FORMATS,
+  type BatchItemResult,
+  type BatchItemStatus,
+  type ChangeConfirmation,
+  type InvalidIdentifier,
+  type Offer,
+  type OutputFormat,
+  type PriceHistoryPoint,
+  type Product,
+  type RetailerPriceHistory,
+  type ScheduledProduct,
+  type ToolPayload,
+  type UsageMeta,
+  type UsageStats
+} from "./types.js"
+import { normalizeAvailability, normalizeCondition, sellerType } from "./offers.js"
+
+/** Shared `bypass_cache` tool parameter */
+export const bypassCacheParameter = z
+  .boolean()
+  .optional()
+  .describe("Optional: skip the local cache and fetch fresh data from the API (spends credits)")
+
+/**
+ * Shared `identifiers` tool parameter: an array of identifiers, or a
+ * comma-separated string for backward compatibility
+ */
+export function identifiersParameter(description: string) {
+  return z
+    .union([z.array(z.string()).min(1), z.string()])
+    .describe(`${description}. Pass an array of strings; a comma-separated string is also accepted`)
+}
+
+/** Shared `confirm_cost` tool parameter for tools that can spend many credits at once */
+export const confirmCostParameter = z
+  .boolean()
+  .optional()
+  .describe("Optional: set to true, after the user agreed, to go ahead with a call whose estimated cost is over the per-call credit limit, or whose schedule change is over the recurring credit limit")
+
+/** Shared `confirmation_token` tool parameter for tools that change the monitoring schedule */
+export const confirmationTokenParameter = z
+  .string()
+  .optional()
+  .describe("Optional: the token from this tool's preview, after the user agreed to the change. Only needed when the server asks for confirmation; pass the same arguments as the preview")
+
+/** Shared `region` tool parameter */
+export const regionParameter = z
+  .string()
+  .optional()
+  .describe(`Optional: country code of the market to get prices for (${REGIONS.map((region) => region.code).join(", ")}; 'UK' also works). Defaults to the server setting`)
+
+/** Shared `currency` tool parameter */
+export const currencyParameter = z
+  .string()
+  .optional()
+  .describe("Optional: ISO 4217 currency code (e.g., 'GBP', 'EUR', 'CAD') to convert prices to with the server's exchange rate table, so offers in different currencies can be compared")
+
+/** Shared `format` tool parameter */
+export const formatParameter = z
+  .enum(["markdown", "json", "both"])
+  .optional()
+  .describe("Optional: output format - 'markdown' (human-readable), 'json' (structured data), or 'both'. Defaults to the server setting")
+
+/**
+ * Parse an output format setting, returning `undefined` for unknown values
+ */
+export function parseOutputFormat(value: string | undefined): OutputFormat | undefined {
+  const normalized = value?.trim().toLowerCase()
+  return OUTPUT_FORMATS.find((format) => format === normalized)
+}
+
+function stringOrNull(value: any): string | null {
+  return value === undefined || value === null || value === "" ? null : String(value)
+}
+
+function numberOrNull(value: any): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+/**
+ * The object items of a raw API list. Anything else, including a value that
+ * isn't a list at all, is treated as missing.
+ */
+export function objectsIn(value: any): any[] {
+  return Array.isArray(value) ? value.filter((item) => item !== null && typeof item === "object") : []
+}
+
+/** A raw ISO 4217 currency code, assumed "USD" when missing or malformed */
+export function currencyCode(value: any): string {
+  return typeof value === "string" && /^[a-z]{3}$/i.test(value) ? value.toUpperCase() : "USD"
+}
+
+export function toProduct(raw: any): Product {
+  return {
+    shopsavvy_id: stringOrNull(raw.shopsavvy),
+    title: raw.title || "",
+    brand: stringOrNull(raw.brand),
+    category: stringOrNull(raw.category),
+    color: stringOrNull(raw.color),
+    model: stringOrNull(raw.model),
+    mpn: stringOrNull(raw.mpn),
+    barcode: stringOrNull(raw.barcode),
+    asin: stringOrNull(raw.amazon),
+    images: Array.isArray(raw.images) ? raw.images.map(String) : []
+  }
+}
+
+export function toOffer(raw: any): Offer {
+  return {
+    retailer: stringOrNull(raw.retailer),
+    price: numberOrNull(raw.price),
+    currency: currencyCode(raw.currency),
+    availability: normalizeAvailability(raw.availability),
+    condition: normalizeCondition(raw.condition),
+    seller: stringOrNull(raw.seller),
+    seller_type: sellerType(raw),
+    url: stringOrNull(raw.URL ?? raw.url),
+    converted: null
+  }
+}
+
+/**
+ * Format a price in its own currency, e.g. "$12.99", "£9.50" or "CA$20.00"
+ */
+export function formatPrice(price: number | null, currency = "USD", locale = DEFAULT_LOCALE): string {
+  if (price === null) return "Price unavailable"
+  try {
+    return new Intl.NumberFormat(locale, { style: "currency", currency }).format(price)
+  } catch {
+    return `${price.toFixed(2)} ${currency}`
+  }
+}
+
+/**
+ * Format an offer's price in its own currency, followed by the converted
+ * price when one was requested, e.g. "$199.99 (≈ £157.99)"
+ */
+export function formatOfferPrice(offer: Offer, locale = DEFAULT_LOCALE): string {
+  const price = formatPrice(offer.price, offer.currency, locale)
+  if (!offer.converted || offer.converted.currency === offer.currency || offer.price === null) return price
+  return `${price} (≈ ${formatPrice(offer.converted.price, offer.converted.currency, locale)})`
+}
+
+/**
+ * Format the date of an ISO 8601 timestamp for `locale`, e.g. "Jun 1, 2024".
+ * Dates are taken in UTC so they don't shift with the server's time zone.
+ */
+export function formatDate(timestamp: string, locale = DEFAULT_LOCALE): string {
+  const date = new Date(timestamp)
+  if (Number.isNaN(date.getTime())) return timestamp
+  return new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: "UTC" }).format(date)
+}
+
+/** Markdown note for prices that can't be compared because their currencies differ */
+export function formatMixedCurrencies(currencies: string[]): string {
+  if (currencies.length < 2) return ""
+  return `_Prices are in ${currencies.join(", ")}; pass currency to convert them and compare fairly._\n\n`
+}
+
+const AVAILABILITY_LABELS: Record<string, string> = {
+  in_stock: "In stock",
+  out_of_stock: "Out of stock",
+  preorder: "Pre-order"
+}
+
+/** Human-readable label for a normalized availability */
+export function formatAvailability(availability: string | null): string {
+  return availability ? AVAILABILITY_LABELS[availability] ?? availability : "Unknown"
+}
+
+/** An ISO 8601 timestamp, or `null` when `value` isn't a date */
+export function isoTimestamp(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? null : new Date(time).toISOString()
+}
+
+/** A price history point, or `null` when its timestamp is missing or isn't a date */
+export function toPriceHistoryPoint(raw: any): PriceHistoryPoint | null {
+  const timestamp = isoTimestamp(raw.timestamp)
+  if (timestamp === null) return null
+  return {
+    timestamp,
+    price: numberOrNull(raw.price),
+    availability: stringOrNull(raw.availability)
+  }
+}
+
+export function toRetailerPriceHistory(raw: any): RetailerPriceHistory {
+  return {
+    retailer: stringOrNull(raw.retailer),
+    currency: currencyCode(raw.currency),
+    converted_from: null,
+    history: objectsIn(raw.history)
+      .map(toPriceHistoryPoint)
+      .filter((point): point is PriceHistoryPoint => point !== null)
+  }
+}
+
+export function toScheduledProduct(raw: any): ScheduledProduct {
+  return {
+    shopsavvy_id: stringOrNull(raw.shopsavvy),
+    title: raw.title || "",
+    schedule: stringOrNull(raw.schedule),
+    retailer: stringOrNull(raw.retailer),
+    barcode: stringOrNull(raw.barcode),
+    asin: stringOrNull(raw.amazon)
+  }
+}
+
+export function toUsageMeta(meta: any): UsageMeta | null {
+  if (!meta) return null
+  return {
+    credits_used: meta.credits_used ?? 0,
+    credits_remaining: meta.credits_remaining ?? 0,
+    cached: meta.cached === true
+  }
+}
+
+/**
+ * Format the Markdown usage line for an API response
+ */
+export function formatUsage(meta: any): string {
+  if (meta?.cached) return `**Usage:** served from cache, 0 credits`
+  return `**Usage:** ${meta?.credits_used ?? 0} credits used, ${meta?.credits_remaining ?? 'unknown'} remaining`
+}
+
+export function toInvalidIdentifier(error: InvalidIdentifierError): InvalidIdentifier {
+  return { input: error.input, reason: error.message }
+}
+
+/** Markdown note listing identifiers that were skipped because they are invalid */
+export function formatInvalidIdentifiers(invalid: InvalidIdentifierError[]): string {
+  if (invalid.length === 0) return ""
+  let note = `**Skipped ${invalid.length} invalid identifier${invalid.length === 1 ? '' : 's'}:**\n`
+  invalid.forEach((error) => {
+    note += `- ${error.message}\n`
+  })
+  return note + "\n"
+}
+
+const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  found: "found",
+  not_found: "not found",
+  error: "errored",
+  invalid: "invalid"
+}
+
+/**
+ * Markdown summary of a batch run: counts per status, followed by the
+ * identifiers that weren't found, errored or were invalid. `labels` renames
+ * statuses for tools where "found" means something more specific.
+ */
+export function formatBatchSummary(
+  items: BatchItemResult<unknown>[],
+  duplicates: number,
+  labels: Partial<Record<BatchItemStatus, string>> = {}
+): string {
+  const names = { ...BATCH_STATUS_LABELS, ...labels }
+  const count = (status: BatchItemStatus) => items.filter((item) => item.status === status).length
+  const counts = (Object.keys(names) as BatchItemStatus[])
+    .filter((status) => status === "found" || count(status) > 0)
+    .map((status) => `${count(status)} ${names[status]}`)
+
+  let summary = `**Results:** ${counts.join(', ')}`
+  if (duplicates > 0) summary += ` (${duplicates} duplicate${duplicates === 1 ? '' : 's'} skipped)`
+  summary += "\n\n"
+
+  const notFound = items.filter((item) => item.status === "not_found")
+  if (notFound.length > 0) {
+    summary += `**${names.not_found.charAt(0).toUpperCase() + names.not_found.slice(1)}:** ${notFound.map((item) => item.normalized).join(', ')}\n\n`
+  }
+
+  const failed = items.filter((item) => item.status === "error" || item.status === "invalid")
+  if (failed.length > 0) {
+    summary += "**Failed:**\n"
+    failed.forEach((item) => {
+      // Invalid identifier messages already quote the input
+      summary += item.status === "invalid" ? `- ${item.error}\n` : `- ${item.input}: ${item.error}\n`
+    })
+    summary += "\n"
+  }
+  return summary
+}
+
+export function toUsageStats(raw: any): UsageStats {
+  const period = raw.current_period
+  return {
+    period_start: period.start_date,
+    period_end: period.end_date,
+    credits_used: period.credits_used,
+    credits_limit: period.credits_limit,
+    credits_remaining: period.credits_remaining,
+    requests_made: period.requests_made,
+    usage_percentage: raw.usage_percentage
+  }
+}
+
+/** Markdown telling the model how to make a previewed change */
+export function formatConfirmationRequest(tool: string, confirmation: ChangeConfirmation): string {
+  return `**Nothing was changed yet.** Show the user this preview. If they agree, call \`${tool}\` again with the same arguments and \`confirmation_token: "${confirmation.token}"\` before ${confirmation.expires_at}.\n\n`
+}
+
+/**
+ * Render a tool result in the requested format.
+ *
+ * Markdown is returned as plain text. JSON is returned as MCP
+ * `structuredContent`, next to a text block for clients that don't read
+ * structured output: the serialized JSON, or the Markdown for `both`.
+ */
+export function renderResult<T>(
+  format: OutputFormat,
+  markdown: string,
+  payload: ToolPayload<T>
+): string | ContentResult {
+  if (format === "markdown") return markdown
+
+  const text = format === "json" ? JSON.stringify(payload, null, 2) : markdown
+  return { content: [{ type: "text", text }], structuredContent: { ...payload } }
+}
+
+/** Whether a tool result is one {@link renderError} produced, in any format */
+export function isErrorResult(result: unknown): boolean {
+  return typeof result === "object" && result !== null && (result as ContentResult).isError === true
+}
+
+/**
+ * Render an answer that found nothing, such as no product for an identifier.
+ * The call worked, so this is an ordinary result and not an error.
+ */
+export function renderNotFound(format: OutputFormat, tool: string, message: string, usage: UsageMeta | null = null): string | ContentResult {
+  return renderResult(format, `❌ ${message}`, { tool, data: null, usage, not_found: message })
+}
+
+/**
+ * Render a failed call, e.g. an API error, invalid arguments or a refusal, in
+ * the requested format, marked with the MCP `isError` flag so clients can
+ * tell it from a result
+ */
+export function renderError(format: OutputFormat, tool: string, message: string): ContentResult {
+  const result = renderResult(format, `❌ ${message}`, { tool, data: null, usage: null, error: message })
+  return { ...(typeof result === "string" ? { content: [{ type: "text", text: result }] } : result), isError: true }
+}
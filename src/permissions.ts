@@ -0,0 +1,105 @@
+/**
+ * Tool permissions
+ *
+ * Permission profiles decide which tools a server offers and whether tools
+ * that change the monitoring schedule need a second, confirmed call: the
+ * first call returns a preview and a single-use token, and the change is
+ * only made when the same call comes back with that token.
+ */
+
+import { randomBytes } from "node:crypto"
+import type { ChangeConfirmation } from "./types.js"
+
+/**
+ * - `full`: every tool, changes are made straight away (the default)
+ * - `confirm`: every tool, but schedule changes need a confirmation token
+ * - `read-only`: only tools that don't change anything
+ */
+export type PermissionProfile = "full" | "confirm" | "read-only"
+
+export const PERMISSION_PROFILES: readonly PermissionProfile[] = ["full", "confirm", "read-only"]
+
+/** Annotations for tools that only read data */
+export const READ_ONLY = { readOnlyHint: true, destructiveHint: false, idempotentHint: true }
+
+/**
+ * Annotations for tools that only read data and save it to a results file in
+ * the server's files directory. They change nothing in the account.
+ */
+export const READ_ONLY_EXPORT = { readOnlyHint: true, destructiveHint: false, idempotentHint: false }
+
+/**
+ * Annotations for tools that only read data but remember what they saw, such
+ * as the last price an alert was checked at, so a second call can answer
+ * differently. They change nothing in the account.
+ */
+export const READ_ONLY_TRACKED = { readOnlyHint: true, destructiveHint: false, idempotentHint: false }
+
+/** How long a confirmation token can be used (5 minutes) */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000
+
+interface PendingChange {
+  session: object
+  tool: string
+  fingerprint: string
+  expires: number
+}
+
+/** JSON with sorted keys and without undefined values, so equal arguments compare equal */
+function fingerprint(args: unknown): string {
+  return JSON.stringify(args, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]]))
+      : value
+  )
+}
+
+/**
+ * Confirmation tokens for changes that were previewed but not yet made. A
+ * token is bound to the session, tool and arguments it was issued for, and
+ * works once.
+ */
+export class ConfirmationStore {
+  private readonly pending = new Map<string, PendingChange>()
+
+  constructor(
+    readonly ttlMs = CONFIRMATION_TTL_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /** Issue a token for calling `tool` with `args` again in `session` */
+  issue(session: object, tool: string, args: unknown): ChangeConfirmation {
+    this.prune()
+    const token = randomBytes(12).toString("hex")
+    const expires = this.now() + this.ttlMs
+    this.pending.set(token, { session, tool, fingerprint: fingerprint(args), expires })
+    return { token, expires_at: new Date(expires).toISOString() }
+  }
+
+  /**
+   * Use up `token` for calling `tool` with `args` in `session`. Returns why
+   * the token can't be used, or `null` when the change may go ahead.
+   */
+  redeem(token: string, session: object, tool: string, args: unknown): string | null {
+    this.prune()
+    const change = this.pending.get(token)
+    if (!change || change.session !== session) {
+      return "This confirmation token is unknown or has expired. Call again without confirmation_token to get a new preview"
+    }
+    if (change.tool !== tool) {
+      return `This confirmation token was issued for ${change.tool}, not ${tool}`
+    }
+    if (change.fingerprint !== fingerprint(args)) {
+      return "The arguments differ from the previewed ones. Call again without confirmation_token to preview this change"
+    }
+    this.pending.delete(token)
+    return null
+  }
+
+  private prune() {
+    const now = this.now()
+    for (const [token, change] of this.pending) {
+      if (change.expires <= now) this.pending.delete(token)
+    }
+  }
+}
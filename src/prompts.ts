@@ -0,0 +1,156 @@
+/**
+ * MCP prompts
+ *
+ * Guided workflows for common shopping tasks. Each prompt spells out which
+ * tools to call and in what order, so the model answers with few calls and
+ * few credits instead of exploring the tool list.
+ */
+
+import { identifierList } from "./batch.js"
+import { describeIdentifier, parseIdentifier } from "./identifiers.js"
+import type { RecentProducts } from "./resources.js"
+import type { ShopSavvyServer } from "./tools/context.js"
+
+/**
+ * How a prompt should refer to a product argument: identifiers are described
+ * with their detected type, anything else is treated as a product name
+ */
+function describeProduct(value: string) {
+  try {
+    const id = parseIdentifier(value)
+    if (id.type !== "model_number") return { identifier: true, text: describeIdentifier(id) }
+  } catch {
+    // Not an identifier; search for it by name
+  }
+  return { identifier: false, text: `"${value.trim()}"` }
+}
+
+// FastMCP rejects prompt requests that are missing a required argument before
+// calling `load`, so required arguments are always set there
+export function registerPrompts(server: ShopSavvyServer, recent: RecentProducts) {
+  const completeProduct = async (value: string) => ({
+    values: recent.list().reverse().map((product) => product.id).filter((id) => id.startsWith(value))
+  })
+
+  server.addPrompt({
+    name: "best_deal",
+    description: "Find the best current deal for a product, by name or identifier",
+    arguments: [
+      { name: "product", description: "Product name, or an identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)", required: true, complete: completeProduct },
+      { name: "condition", description: "Item condition to shop for (default new)", enum: ["new", "used", "refurbished", "any"] },
+      { name: "retailers", description: "Optional: comma-separated retailers to limit the search to" }
+    ],
+    load: async ({ product, condition, retailers }) => {
+      const target = describeProduct(product!)
+      const conditionFilter = condition === "any" ? "" : `condition: ["${condition || "new"}"], `
+      const retailerFilter = retailers ? `retailers: "${retailers}", ` : ""
+
+      let steps = ""
+      if (!target.identifier) {
+        steps += `1. Call \`product_search\` with query ${target.text} and limit 5. Pick the result that best matches what the user asked for; if several are plausible, ask the user which one they mean before continuing.\n`
+        steps += `2. Call \`product_offers\` for the chosen product's ShopSavvy ID with ${conditionFilter}${retailerFilter}in_stock_only: true and limit: 5.\n`
+      } else {
+        steps += `1. Call \`product_offers\` for ${target.text} with ${conditionFilter}${retailerFilter}in_stock_only: true and limit: 5. It also returns the product's title, so there is no need to call \`product_lookup\` first.\n`
+        steps += `2. If no product is found, call \`product_search\` with the identifier as the query and continue with the best match.\n`
+      }
+      steps += `3. If no offer matches, call \`product_offers\` again without the filters and explain what is available instead (out of stock, other conditions or retailers).\n`
+
+      return `Find the best current deal for ${target.text}.
+
+Steps:
+${steps}
+Answer with the best offer first: price, retailer, condition, seller and link. Then list up to two runner-up offers and point out anything that makes the cheapest offer a worse deal, such as a marketplace seller or a refurbished item. Don't fetch price history unless the user asks whether to wait; suggest the \`good_time_to_buy\` prompt for that.`
+    }
+  })
+
+  server.addPrompt({
+    name: "good_time_to_buy",
+    description: "Judge whether now is a good time to buy a product from its price history and current offers",
+    arguments: [
+      { name: "identifier", description: "Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)", required: true, complete: completeProduct },
+      { name: "days", description: "Days of price history to consider (default 90)" },
+      { name: "target_price", description: "Optional: the price the user hopes to pay" }
+    ],
+    load: async ({ identifier, days, target_price }) => {
+      const target = describeProduct(identifier!)
+      const period = Number(days) > 0 ? Math.round(Number(days)) : 90
+      const start = new Date(Date.now() - period * 86400000).toISOString().slice(0, 10)
+
+      let prompt = `Is now a good time to buy ${target.text}?
+
+Steps:
+1. Call \`product_price_analysis\` for the product with start_date: "${start}". It returns the lows, highs, averages, a buy verdict and a compact series in one call, so don't call \`product_price_history\` unless the user wants the raw price points.
+2. Call \`product_offers\` with condition: ["new"], in_stock_only: true and limit: 3 to see what can actually be bought right now.
+3. Compare the best in-stock offer with the period low, mean and median from step 1.
+`
+      if (target_price) {
+        prompt += `4. The user hopes to pay ${target_price}. Say how that compares with the period low, and whether the price has reached it in the last ${period} days.\n`
+      }
+      prompt += `
+Answer with a clear recommendation (buy now or wait) in the first sentence, followed by the evidence: current best price, period low and when it happened, average, and the trend. If the recommendation is to wait, offer to set up monitoring with \`product_schedule\` and a price alert with \`alert_create\`${target_price ? ` at ${target_price}` : ""}.`
+      return prompt
+    }
+  })
+
+  server.addPrompt({
+    name: "track_wishlist",
+    description: "Set up price monitoring, and optionally price alerts, for a list of products",
+    arguments: [
+      { name: "items", description: "Products to track, separated by commas or new lines: identifiers or product names", required: true },
+      { name: "schedule", description: "How often to refresh prices (default daily)", enum: ["hourly", "daily", "weekly"] },
+      { name: "target_prices", description: "Optional: target prices, e.g. 'AirPods under 180, Sony headphones under 300'" }
+    ],
+    load: async ({ items, schedule, target_prices }) => {
+      const entries = identifierList(items!.split(/\r?\n/).join(","))
+      const described = entries.map(describeProduct)
+      const identifiers = entries.filter((_, index) => described[index].identifier)
+      const names = entries.filter((_, index) => !described[index].identifier)
+      const frequency = schedule || "daily"
+
+      let steps = ""
+      let step = 1
+      if (names.length > 0) {
+        steps += `${step++}. For each product name (${names.map((name) => `"${name}"`).join(", ")}), call \`product_search\` with limit 3 and pick the best match. Ask the user when a name is ambiguous instead of guessing.\n`
+      }
+      if (identifiers.length > 0) {
+        steps += `${step++}. Call \`product_lookup_batch\` once with identifiers ${JSON.stringify(identifiers)} to confirm they are the products the user means. Report any that are invalid or not found.\n`
+      }
+      steps += `${step++}. Call \`product_schedule\` once with every confirmed product's ShopSavvy ID in the identifiers array and schedule: "${frequency}".\n`
+      if (target_prices) {
+        steps += `${step++}. The user's targets are: ${target_prices}. For each product with a target, call \`alert_create\` with type: "below_price" and the target as target_price.\n`
+      }
+      steps += `${step++}. Call \`scheduled_products_list\` to confirm the final schedule.\n`
+
+      return `Set up ${frequency} price tracking for this wishlist:
+${entries.map((entry, index) => `- ${described[index].identifier ? described[index].text : entry}`).join("\n")}
+
+Steps:
+${steps}
+Batch tools take arrays, so don't call a tool once per product. Finish with a short table of the tracked products (title, ShopSavvy ID, schedule${target_prices ? ", alert" : ""}) and list anything that couldn't be tracked and why.${target_prices ? "" : " Offer to add price alerts with `alert_create`."}`
+    }
+  })
+
+  server.addPrompt({
+    name: "audit_monitoring",
+    description: "Review the monitoring schedule, price alerts and API credit spend, and suggest savings",
+    arguments: [
+      { name: "budget", description: "Optional: credits the user wants to stay under this billing period" }
+    ],
+    load: async ({ budget }) => {
+      return `Audit my ShopSavvy monitoring setup and credit spend.
+
+Steps:
+1. Call \`api_usage\` to see credits used and remaining in the billing period, what this session spent per tool, and any credit limits.
+2. Call \`scheduled_products_list\` to see what is monitored and how often.
+3. Call \`alert_list\` to see which products have price alerts and when they were last checked.
+
+Then report:
+- Credits used and remaining, and whether the current pace will last until the end of the billing period${budget ? ` and stay under the user's budget of ${budget} credits` : ""}.
+- Scheduled products grouped by frequency, flagging hourly schedules and products that have no price alert (monitored but not acted on).
+- Alerts for products that aren't scheduled, since their prices may be stale.
+- Concrete suggestions, such as moving products from hourly to daily or removing ones the user no longer needs.
+
+Don't change the schedule or alerts yourself: list the \`product_schedule\`, \`product_unschedule\` and \`alert_delete\` calls you would make (or show a \`schedule_sync\` dry run of the schedule you suggest) and ask the user to confirm first. These three reads are free or cheap, so don't fetch offers or history for the audit.`
+    }
+  })
+}
@@ -0,0 +1,321 @@
+/**
+ * MCP resources
+ *
+ * Exposes products, their offers and price history, and the monitoring
+ * schedule as JSON resources that clients can attach to a conversation.
+ * Products returned by earlier calls are listed, and sessions that subscribe
+ * to a scheduled product's offers are notified when the offers change.
+ */
+
+import {
+  ListResourcesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js"
+import type { FastMCPSession } from "fastmcp"
+import type { IncomingHttpHeaders } from "node:http"
+import { productMatches, runBatch } from "./batch.js"
+import { describeError } from "./errors.js"
+import { parseIdentifier } from "./identifiers.js"
+import { sortByPrice } from "./offers.js"
+import { objectsIn, toOffer, toProduct, toRetailerPriceHistory, toScheduledProduct } from "./output.js"
+import type { SessionAuth, ShopSavvyServer, ToolContext } from "./tools/context.js"
+
+export const SCHEDULED_URI = "shopsavvy://scheduled"
+
+const JSON_MIME_TYPE = "application/json"
+
+/** URI of a product resource, or of its offers or price history */
+export function productUri(identifier: string, view?: "offers" | "history") {
+  return `shopsavvy://product/${encodeURIComponent(identifier)}${view ? `/${view}` : ""}`
+}
+
+/**
+ * Products recently returned by the API, keyed by ShopSavvy ID, so
+ * `resources/list` can offer them. The oldest products are dropped first.
+ */
+export class RecentProducts {
+  private readonly products = new Map<string, string>()
+  private readonly listeners: (() => void)[] = []
+
+  constructor(private readonly maxProducts = 100) {}
+
+  /** Remember every product in an API response body */
+  record(body: any) {
+    let added = false
+    objectsIn(body?.data).forEach((raw) => {
+      if (typeof raw.shopsavvy !== "string" && typeof raw.shopsavvy !== "number") return
+      const id = String(raw.shopsavvy)
+      added ||= !this.products.has(id)
+      this.products.delete(id)
+      this.products.set(id, typeof raw.title === "string" ? raw.title : "")
+    })
+
+    while (this.products.size > this.maxProducts) {
+      const oldest = this.products.keys().next().value
+      if (oldest === undefined) break
+      this.products.delete(oldest)
+    }
+    if (added) this.listeners.forEach((listener) => listener())
+  }
+
+  /** Products from least to most recently seen */
+  list(): { id: string; title: string }[] {
+    return [...this.products.entries()].map(([id, title]) => ({ id, title }))
+  }
+
+  /** Call `listener` whenever a product is seen for the first time */
+  onAdded(listener: () => void) {
+    this.listeners.push(listener)
+  }
+}
+
+export interface ResourceOptions {
+  recent: RecentProducts
+  /** How often subscribed offers are checked for changes, in milliseconds; 0 disables checking */
+  pollIntervalMs: number
+  /**
+   * The session auth for a request's HTTP headers, or `undefined` to use the
+   * server's own key. Throws when the headers carry a key that isn't accepted.
+   */
+  authFor(headers: IncomingHttpHeaders | undefined): SessionAuth | undefined
+}
+
+/**
+ * Run a resource loader, turning failures into the same messages tools show
+ */
+async function loadJson(load: () => Promise<unknown>) {
+  try {
+    return { text: JSON.stringify(await load(), null, 2) }
+  } catch (error) {
+    throw new Error(describeError(error))
+  }
+}
+
+/** The first product in an API response, or an error naming the identifier */
+function firstProduct(result: any, identifier: string) {
+  const product = objectsIn(result.data)[0]
+  if (!product) throw new Error(`No product found for identifier: ${identifier}`)
+  return product
+}
+
+const identifierArgument = {
+  name: "identifier",
+  description: "Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)",
+  required: true
+} as const
+
+export function registerResources(server: ShopSavvyServer, context: ToolContext, options: ResourceOptions) {
+  const completeIdentifier = async (value: string) => ({
+    values: options.recent.list().map((product) => product.id).filter((id) => id.startsWith(value)).reverse()
+  })
+
+  // More specific templates first: the product template would also match their URIs
+  server.addResourceTemplate({
+    name: "Product offers",
+    uriTemplate: "shopsavvy://product/{identifier}/offers",
+    description: "Current offers for a product from every retailer, cheapest first",
+    mimeType: JSON_MIME_TYPE,
+    arguments: [{ ...identifierArgument, complete: completeIdentifier }],
+    load: ({ identifier }, auth) => loadJson(async () => {
+      const id = parseIdentifier(identifier)
+      const result = await context.clientFor(auth, "resources").get("/products/offers", { ids: id.normalized })
+      const product = firstProduct(result, identifier)
+      return { identifier: id, product: toProduct(product), offers: sortByPrice(objectsIn(product.offers).map(toOffer)) }
+    })
+  })
+
+  server.addResourceTemplate({
+    name: "Product price history",
+    uriTemplate: "shopsavvy://product/{identifier}/history{?start,end,retailer}",
+    description: "Price history for a product per retailer. Dates are YYYY-MM-DD; the last 90 days by default",
+    mimeType: JSON_MIME_TYPE,
+    arguments: [
+      { ...identifierArgument, complete: completeIdentifier },
+      { name: "start", description: "Start date (defaults to 90 days before end)" },
+      { name: "end", description: "End date (defaults to today)" },
+      { name: "retailer", description: "Only include this retailer domain" }
+    ],
+    load: ({ identifier, start, end, retailer }, auth) => loadJson(async () => {
+      const id = parseIdentifier(identifier)
+      const endDate = end || new Date().toISOString().slice(0, 10)
+      const startDate = start || new Date(Date.parse(endDate) - 90 * 86400000).toISOString().slice(0, 10)
+      const params: any = { ids: id.normalized, start: startDate, end: endDate }
+      if (retailer) params.retailer = retailer
+
+      const result = await context.clientFor(auth, "resources").get("/products/offers/history", params)
+      const product = firstProduct(result, identifier)
+      return {
+        identifier: id,
+        product: toProduct(product),
+        start_date: startDate,
+        end_date: endDate,
+        retailer: retailer || null,
+        history: objectsIn(product.offers).map(toRetailerPriceHistory)
+      }
+    })
+  })
+
+  server.addResourceTemplate({
+    name: "Product",
+    uriTemplate: "shopsavvy://product/{identifier}",
+    description: "Product details: title, brand, category, barcode, ASIN and images",
+    mimeType: JSON_MIME_TYPE,
+    arguments: [{ ...identifierArgument, complete: completeIdentifier }],
+    load: ({ identifier }, auth) => loadJson(async () => {
+      const id = parseIdentifier(identifier)
+      const result = await context.clientFor(auth, "resources").get("/products", { ids: id.normalized })
+      return { identifier: id, product: toProduct(firstProduct(result, identifier)) }
+    })
+  })
+
+  const scheduled = {
+    uri: SCHEDULED_URI,
+    name: "Scheduled products",
+    description: "Products scheduled for automatic price monitoring",
+    mimeType: JSON_MIME_TYPE
+  }
+  server.addResource({
+    ...scheduled,
+    load: (auth) => loadJson(async () => {
+      const result = await context.clientFor(auth, "resources").get("/products/scheduled")
+      return { products: objectsIn(result.data).map(toScheduledProduct) }
+    })
+  })
+
+  options.recent.onAdded(() => {
+    server.sessions.forEach((session) => {
+      session.server.sendResourceListChanged().catch(() => {})
+    })
+  })
+
+  server.on("connect", ({ session }) => {
+    const mcp = session.server
+
+    // FastMCP doesn't support subscriptions or dynamic resource lists, so
+    // extend the capabilities it built for the session in place. HTTP clients
+    // initialize after this point and see them. Over stdio FastMCP reports the
+    // session only after the client has initialized, so the capabilities
+    // aren't advertised there, but the handlers below still work.
+    const capabilities = mcp["getCapabilities"]()
+    capabilities.resources = { ...capabilities.resources, subscribe: true, listChanged: true }
+
+    mcp.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [
+        scheduled,
+        ...options.recent.list().reverse().map((product) => ({
+          uri: productUri(product.id),
+          name: product.title || `Product ${product.id}`,
+          description: `Product details for ShopSavvy ID ${product.id}`,
+          mimeType: JSON_MIME_TYPE
+        }))
+      ]
+    }))
+
+    const watcher = watchSubscriptions(session, context, options)
+    mcp.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      watcher.subscribe(request.params.uri, options.authFor(extra.requestInfo?.headers))
+      return {}
+    })
+    mcp.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      watcher.unsubscribe(request.params.uri)
+      return {}
+    })
+    server.on("disconnect", (event) => {
+      if (event.session === session) watcher.stop()
+    })
+  })
+}
+
+/**
+ * Track a session's subscriptions and poll the ones that can change: the
+ * schedule, and the offers of products that are scheduled for monitoring.
+ * The first poll of a resource records its state; later polls notify the
+ * session when it differs.
+ */
+function watchSubscriptions(session: FastMCPSession<SessionAuth>, context: ToolContext, options: ResourceOptions) {
+  const subscriptions = new Map<string, SessionAuth | undefined>()
+  const fingerprints = new Map<string, string>()
+  let timer: NodeJS.Timeout | undefined
+  let polling = false
+
+  const changed = (uri: string, value: unknown) => {
+    const fingerprint = JSON.stringify(value)
+    const previous = fingerprints.get(uri)
+    fingerprints.set(uri, fingerprint)
+    if (previous !== undefined && previous !== fingerprint) {
+      session.server.sendResourceUpdated({ uri }).catch(() => {})
+    }
+  }
+
+  const check = async (auth: SessionAuth | undefined, uris: string[]) => {
+    const client = context.clientFor(auth, "resource subscriptions")
+    const scheduled = objectsIn((await client.get("/products/scheduled")).data)
+    if (uris.includes(SCHEDULED_URI)) changed(SCHEDULED_URI, scheduled.map(toScheduledProduct))
+
+    // Only scheduled products get fresh prices, so only their offers are polled
+    const watched = new Map<string, string>()
+    uris.forEach((uri) => {
+      const match = uri.match(/^shopsavvy:\/\/product\/([^/?]+)\/offers$/)
+      if (!match) return
+      try {
+        const id = parseIdentifier(decodeURIComponent(match[1]))
+        if (scheduled.some((product) => productMatches(id, product))) watched.set(id.normalized, uri)
+      } catch {
+        // Reading the resource reports the invalid identifier
+      }
+    })
+    if (watched.size === 0) return
+
+    const { items } = await runBatch([...watched.keys()], context.batch, (chunk) =>
+      client.get("/products/offers", { ids: chunk.map((id) => id.normalized).join(",") }, { bypassCache: true })
+    )
+    items.forEach((item) => {
+      if (item.status === "found") changed(watched.get(item.input)!, sortByPrice(objectsIn(item.result.offers).map(toOffer)))
+    })
+  }
+
+  const poll = async () => {
+    if (polling) return
+    polling = true
+    try {
+      const byKey = new Map<string | undefined, { auth: SessionAuth | undefined; uris: string[] }>()
+      subscriptions.forEach((auth, uri) => {
+        const group = byKey.get(auth?.apiKey) ?? { auth, uris: [] }
+        group.uris.push(uri)
+        byKey.set(auth?.apiKey, group)
+      })
+      for (const { auth, uris } of byKey.values()) {
+        await check(auth, uris).catch((error) => {
+          context.logger.warn("Failed to check subscribed resources", { resources: uris, error: describeError(error) })
+        })
+      }
+    } finally {
+      polling = false
+    }
+  }
+
+  const stop = () => {
+    clearInterval(timer)
+    timer = undefined
+  }
+
+  return {
+    subscribe(uri: string, auth: SessionAuth | undefined) {
+      subscriptions.set(uri, auth)
+      if (options.pollIntervalMs <= 0) return
+      if (!timer) {
+        timer = setInterval(poll, options.pollIntervalMs)
+        timer.unref()
+      }
+      // Record the current state right away so the first change is noticed
+      void poll()
+    },
+    unsubscribe(uri: string) {
+      subscriptions.delete(uri)
+      fingerprints.delete(uri)
+      if (subscriptions.size === 0) stop()
+    },
+    stop
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Schedule planning
+ *
+ * Works out what to add, change and remove to turn the current monitoring
+ * schedule into a desired one, and which products a removal request actually
+ * took off the schedule.
+ */
+
+import { productMatches, UNMATCHABLE_TYPES } from "./batch.js"
+import type { Identifier } from "./identifiers.js"
+import type { ScheduleFrequency, ScheduleSyncItem } from "./types.js"
+
+/** Refreshes per product over 30 days for each monitoring frequency */
+export const REFRESHES_PER_30_DAYS: Record<ScheduleFrequency, number> = { hourly: 720, daily: 30, weekly: 5 }
+
+/** A desired schedule entry with a validated identifier */
+export interface DesiredEntry {
+  id: Identifier
+  schedule: ScheduleFrequency
+  retailer: string | null
+}
+
+export interface SchedulePlan {
+  /** Additions, changes and removals, all `planned` except additions of unknown products */
+  items: ScheduleSyncItem[]
+  /** Desired products that are already scheduled as wanted */
+  unchanged: number
+  /** Desired entries dropped because an earlier entry names the same product */
+  duplicates: number
+}
+
+function text(value: unknown): string | null {
+  return value === undefined || value === null || value === "" ? null : String(value)
+}
+
+function sameRetailer(a: string | null, b: string | null) {
+  return (a ?? "").toLowerCase() === (b ?? "").toLowerCase()
+}
+
+/** Credits that refreshing products on these schedules can cost over 30 days, at 1 credit per refresh */
+export function refreshCost(schedules: (string | null)[]): number {
+  return schedules.reduce((sum, schedule) => sum + (REFRESHES_PER_30_DAYS[schedule as ScheduleFrequency] ?? 0), 0)
+}
+
+/**
+ * Refresh cost over 30 days once `items` are applied to the `current`
+ * schedule. Additions of unknown products don't count.
+ */
+export function plannedRefreshCost(current: any[], items: ScheduleSyncItem[]): number {
+  const added = items.filter((item) => item.action !== "remove" && item.status !== "not_found").map((item) => item.schedule)
+  const dropped = items.filter((item) => item.action !== "add").map((item) => item.previous_schedule)
+  return refreshCost(current.map((raw) => text(raw.schedule))) + refreshCost(added) - refreshCost(dropped)
+}
+
+/** What scheduling `products` products costs every 30 days, as shown when the cost needs confirmation */
+export function scheduleCostChange(products: number, schedule: ScheduleFrequency): string {
+  const cost = products * REFRESHES_PER_30_DAYS[schedule]
+  return `Monitoring ${products} product${products === 1 ? "" : "s"} ${schedule} can use up to ${cost.toLocaleString()} credits every 30 days (one credit per product refresh)`
+}
+
+/** Whether a desired identifier names a raw scheduled product without asking the API */
+export function scheduledMatch(id: Identifier, current: any[]): any | undefined {
+  return current.find((raw) => productMatches(id, raw))
+}
+
+/**
+ * Diff the desired schedule against the current one (raw `/products/scheduled`
+ * entries). `resolved` maps the normalized identifiers that had to be looked
+ * up to their ShopSavvy ID, or to `null` when the API doesn't know them.
+ * Scheduled products missing from `desired` are removed unless `keepUnlisted`.
+ */
+export function planScheduleSync(
+  desired: DesiredEntry[],
+  current: any[],
+  resolved: Map<string, string | null>,
+  keepUnlisted: boolean
+): SchedulePlan {
+  const claimed = new Set<any>()
+  const items: ScheduleSyncItem[] = []
+  let unchanged = 0
+  let duplicates = 0
+
+  desired.forEach((entry) => {
+    const shopsavvyId = resolved.get(entry.id.normalized)
+    const existing = scheduledMatch(entry.id, current) ?? current.find((raw) => shopsavvyId && text(raw.shopsavvy) === shopsavvyId)
+    if (existing && claimed.has(existing)) {
+      duplicates++
+      return
+    }
+
+    const item: ScheduleSyncItem = {
+      action: "add",
+      identifier: entry.id.normalized,
+      shopsavvy_id: shopsavvyId ?? null,
+      title: null,
+      schedule: entry.schedule,
+      retailer: entry.retailer,
+      previous_schedule: null,
+      previous_retailer: null,
+      status: shopsavvyId === null ? "not_found" : "planned",
+      error: shopsavvyId === null ? `No product found for identifier: ${entry.id.normalized}` : null
+    }
+    if (!existing) {
+      items.push(item)
+      return
+    }
+
+    claimed.add(existing)
+    const previousSchedule = text(existing.schedule)
+    const previousRetailer = text(existing.retailer)
+    if (previousSchedule === entry.schedule && sameRetailer(previousRetailer, entry.retailer)) {
+      unchanged++
+      return
+    }
+    items.push({
+      ...item,
+      action: "change",
+      shopsavvy_id: text(existing.shopsavvy),
+      title: text(existing.title),
+      previous_schedule: previousSchedule,
+      previous_retailer: previousRetailer
+    })
+  })
+
+  if (!keepUnlisted) {
+    current.filter((raw) => !claimed.has(raw)).forEach((raw) => {
+      items.push({
+        action: "remove",
+        identifier: text(raw.shopsavvy) ?? "",
+        shopsavvy_id: text(raw.shopsavvy),
+        title: text(raw.title),
+        schedule: null,
+        retailer: null,
+        previous_schedule: text(raw.schedule),
+        previous_retailer: text(raw.retailer),
+        status: "planned",
+        error: null
+      })
+    })
+  }
+
+  return { items, unchanged, duplicates }
+}
+
+/** Scheduled products that are missing from the schedule read after a change */
+export function removedProducts(before: any[], after: any[]): any[] {
+  const remaining = new Set(after.map((raw) => text(raw.shopsavvy)))
+  return before.filter((raw) => !remaining.has(text(raw.shopsavvy)))
+}
+
+export interface RemovalAttribution {
+  /** The removed product for each identifier, or `null` when it wasn't scheduled */
+  products: (any | null)[]
+  /**
+   * Identifiers that could have removed one of the products left over: they
+   * need resolving to a ShopSavvy ID before the removals can be attributed
+   */
+  ambiguous: Identifier[]
+}
+
+/**
+ * Work out which removed product each identifier took off the schedule.
+ * Identifiers are matched on ID, ASIN, model, MPN or barcode, or on the
+ * ShopSavvy ID in `resolved`. A URL, ISBN or model number that matches
+ * nothing may still have removed a leftover product: with one of each they
+ * are paired, otherwise they are reported as ambiguous.
+ */
+export function attributeRemovals(identifiers: Identifier[], removed: any[], resolved = new Map<string, string | null>()): RemovalAttribution {
+  const leftover = [...removed]
+  const products = identifiers.map((id) => {
+    const shopsavvyId = resolved.get(id.normalized)
+    const position = leftover.findIndex((raw) => productMatches(id, raw) || (shopsavvyId && text(raw.shopsavvy) === shopsavvyId))
+    return position === -1 ? null : leftover.splice(position, 1)[0]
+  })
+
+  const candidates = identifiers.filter((id, index) => !products[index] && !resolved.has(id.normalized) && UNMATCHABLE_TYPES.includes(id.type))
+  if (leftover.length === 0 || candidates.length === 0) return { products, ambiguous: [] }
+  if (leftover.length === 1 && candidates.length === 1) {
+    products[identifiers.indexOf(candidates[0])] = leftover[0]
+    return { products, ambiguous: [] }
+  }
+  return { products, ambiguous: candidates }
+}
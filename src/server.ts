@@ -0,0 +1,347 @@
+/**
+ * MCP server factory
+ *
+ * Builds a ShopSavvy MCP server with every tool registered. All settings are
+ * passed in rather than read from the environment, so tests can point the
+ * server at a mock API and embedders can run several servers side by side.
+ */
+
+import { FastMCP, type Context, type SerializableValue } from "fastmcp"
+import { AsyncLocalStorage } from "node:async_hooks"
+import { randomBytes } from "node:crypto"
+import type { IncomingHttpHeaders, IncomingMessage } from "node:http"
+import { homedir } from "node:os"
+import { join } from "node:path"
+import { accountId, MemoryAlertStore, type AlertStore } from "./alerts.js"
+import { DEFAULT_BATCH_OPTIONS, type BatchOptions } from "./batch.js"
+import { CreditBudget, estimateCredits, type BudgetLimits } from "./budget.js"
+import { resolveFilePath } from "./bulk.js"
+import type { CacheStore } from "./cache.js"
+import { ShopSavvyClient } from "./client.js"
+import { DEFAULT_LOCALE, parseCurrency, parseRegion, type RateTable } from "./currency.js"
+import { Logger } from "./logger.js"
+import { Metrics } from "./metrics.js"
+import { isErrorResult } from "./output.js"
+import { ConfirmationStore, type PermissionProfile } from "./permissions.js"
+import { registerPrompts } from "./prompts.js"
+import { RecentProducts, registerResources } from "./resources.js"
+import { archiveResponse, type SnapshotStore } from "./snapshots.js"
+import { registerAlertTools } from "./tools/alerts.js"
+import { registerBulkTools } from "./tools/bulk.js"
+import type { SessionAuth, ShopSavvyServer, ToolContext } from "./tools/context.js"
+import { registerPricingTools } from "./tools/pricing.js"
+import { registerProductTools } from "./tools/products.js"
+import { registerSchedulingTools } from "./tools/scheduling.js"
+import { registerUsageTools } from "./tools/usage.js"
+import type { OutputFormat } from "./types.js"
+
+export type { SessionAuth, ShopSavvyServer } from "./tools/context.js"
+
+export const DEFAULT_API_BASE_URL = "https://shopsavvy.com/api/v1"
+
+/** Header that HTTP clients use to send their own ShopSavvy API key */
+export const API_KEY_HEADER = "x-shopsavvy-api-key"
+
+/** Whether `key` looks like a ShopSavvy Data API key */
+export function isValidApiKey(key: string) {
+  return /^ss_(live|test)_[a-zA-Z0-9]{32}$/.test(key)
+}
+
+/** Which tools a server offers */
+export interface ToolSelection {
+  /** Only offer these tools (default: every tool) */
+  enabled?: string[]
+  /** Never offer these tools */
+  disabled?: string[]
+}
+
+export interface ServerOptions {
+  /** API base URL (default {@link DEFAULT_API_BASE_URL}) */
+  apiBaseUrl?: string
+  /** Key used over stdio, and by HTTP sessions that don't send their own */
+  apiKey?: string
+  /** Decides whether an API key is acceptable (default {@link isValidApiKey}) */
+  validateApiKey?: (key: string) => boolean
+  /** Output format used when a tool call doesn't pass `format` (default "markdown") */
+  outputFormat?: OutputFormat
+  /** Response cache shared by every API key; omit to disable caching */
+  cache?: CacheStore
+  /** Per-attempt API request timeout in milliseconds */
+  timeoutMs?: number
+  /** Retries for transient API failures */
+  maxRetries?: number
+  batch?: BatchOptions
+  /** Credit spending limits (default: none) */
+  budget?: BudgetLimits
+  /** Where price alert rules are stored (default: in memory) */
+  alerts?: AlertStore
+  /**
+   * Archive of every offer and price history point the server receives,
+   * which `local_price_history` answers from; omit to keep none
+   */
+  snapshots?: SnapshotStore
+  /** Directory bulk imports are read from and exports written to (default "~/.shopsavvy/files") */
+  filesDir?: string
+  /** Country code of the market prices are requested for by default, e.g. "GB" (default: the API's own) */
+  region?: string
+  /** Currency to convert prices to by default (default: keep each price's own currency) */
+  currency?: string
+  /** Exchange rates used to convert prices between currencies (default: none) */
+  currencyRates?: RateTable
+  /** Retailer `product_offers_retailer` uses when a call doesn't name one */
+  defaultRetailer?: string
+  /** Which tools to offer (default: all of them). Naming a tool that doesn't exist throws. */
+  tools?: ToolSelection
+  /**
+   * "read-only" offers only tools that change nothing; "confirm" makes schedule
+   * changes return a preview and a token first (default "full")
+   */
+  profile?: PermissionProfile
+  /** Structured log of tool calls and API requests (default: no logging) */
+  logger?: Logger
+  /** Collects tool and API request metrics (default: a new {@link Metrics}) */
+  metrics?: Metrics
+  /** Health check path for the HTTP transport (default "/health") */
+  healthPath?: string
+  /**
+   * How often subscribed resources are checked for changes, in milliseconds.
+   * Each check spends credits on the offers of subscribed scheduled products;
+   * 0 disables checking (default 0).
+   */
+  resourcePollMs?: number
+}
+
+/**
+ * The API key an HTTP request carries in the `X-ShopSavvy-Api-Key` header or
+ * an `Authorization: Bearer` header
+ */
+function apiKeyFromHeaders(headers: IncomingHttpHeaders): string | undefined {
+  const header = headers[API_KEY_HEADER]
+  const bearer = headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+  return (Array.isArray(header) ? header[0] : header) ?? bearer
+}
+
+/** A tool's `log` that also writes every message to the structured log */
+function mirrorLog(mcpLog: Context<SessionAuth>["log"], logger: Logger): Context<SessionAuth>["log"] {
+  const mirror = (level: "debug" | "info" | "warn" | "error") => (message: string, data?: SerializableValue) => {
+    mcpLog[level](message, data)
+    logger[level](message, data === undefined || (typeof data === "object" && data !== null && !Array.isArray(data)) ? data : { data })
+  }
+  return { debug: mirror("debug"), info: mirror("info"), warn: mirror("warn"), error: mirror("error") }
+}
+
+export function createServer(options: ServerOptions = {}): ShopSavvyServer {
+  const apiBaseUrl = options.apiBaseUrl ?? DEFAULT_API_BASE_URL
+  const validateApiKey = options.validateApiKey ?? isValidApiKey
+  const recent = new RecentProducts()
+  const budget = new CreditBudget(options.budget)
+  const filesDir = options.filesDir ?? join(homedir(), ".shopsavvy", "files")
+  const region = options.region ? parseRegion(options.region) : null
+  const confirmations = options.profile === "confirm" ? new ConfirmationStore() : null
+  const logger = options.logger ?? new Logger("off")
+  const metrics = options.metrics ?? new Metrics()
+  // The logger of the tool call being run, which carries its request ID
+  const requests = new AsyncLocalStorage<Logger>()
+  // Stands in for the session auth of the single stdio session
+  const stdioSession = {}
+
+  const apiKeyFor = (session: SessionAuth | undefined) => {
+    const apiKey = session?.apiKey ?? options.apiKey
+    if (!apiKey) {
+      throw new Error("No ShopSavvy API key configured")
+    }
+    return apiKey
+  }
+
+  const context: ToolContext = {
+    clientFor(session, tool) {
+      const scope = context.scopeFor(session, tool)
+      return new ShopSavvyClient({
+        baseUrl: apiBaseUrl,
+        apiKey: apiKeyFor(session),
+        timeoutMs: options.timeoutMs,
+        maxRetries: options.maxRetries,
+        cache: options.cache,
+        beforeRequest: (method, endpoint, params) => budget.assertAffordable(scope, estimateCredits(method, endpoint, params)),
+        onResponse: (endpoint, body, params) => {
+          recent.record(body)
+          budget.record(scope, body.meta)
+          if (options.snapshots) archiveResponse(options.snapshots, endpoint, params, body)
+        },
+        onCall: (call) => {
+          metrics.recordApiCall(tool, call)
+          const log = requests.getStore() ?? logger.child({ tool })
+          log[call.error ? "warn" : "info"]("API request", {
+            method: call.method,
+            endpoint: call.endpoint,
+            status: call.status,
+            duration_ms: call.durationMs,
+            attempts: call.attempts,
+            cached: call.cached,
+            credits_used: call.creditsUsed,
+            error: call.error ?? undefined
+          })
+        }
+      })
+    },
+    scopeFor(session, tool) {
+      return { account: context.accountFor(session), session: session ?? stdioSession, tool }
+    },
+    accountFor(session) {
+      return accountId(apiKeyFor(session))
+    },
+    alerts: options.alerts ?? new MemoryAlertStore(),
+    snapshots: options.snapshots ?? null,
+    budget,
+    filesDir,
+    filePath(session, path) {
+      return resolveFilePath(filesDir, path, session === undefined)
+    },
+    outputFormat: options.outputFormat ?? "markdown",
+    batch: options.batch ?? DEFAULT_BATCH_OPTIONS,
+    market: {
+      region,
+      currency: options.currency ? parseCurrency(options.currency) : null,
+      locale: region?.locale ?? DEFAULT_LOCALE
+    },
+    rates: options.currencyRates ?? null,
+    defaultRetailer: options.defaultRetailer ?? null,
+    logger,
+    readOnly: options.profile === "read-only",
+    confirmChange(session, tool, args, token) {
+      if (!confirmations) return null
+      if (token === undefined) return confirmations.issue(session ?? stdioSession, tool, args)
+      return confirmations.redeem(token, session ?? stdioSession, tool, args)
+    }
+  }
+
+  /** Why an HTTP request's API key can't be used, or `null` when it can */
+  function apiKeyProblem(apiKey: string | undefined): string | null {
+    if (!apiKey) return "Missing ShopSavvy API key: send it in the X-ShopSavvy-Api-Key header"
+    if (!validateApiKey(apiKey)) return "Invalid ShopSavvy API key format"
+    return null
+  }
+
+  // Spend and confirmations are kept per session auth object, so every request
+  // of an HTTP session gets the same one for as long as its key stays the same
+  const sessionAuth = new Map<string, SessionAuth>()
+
+  /**
+   * Authenticate a request of an HTTP session from the `X-ShopSavvy-Api-Key`
+   * header or an `Authorization: Bearer` header, falling back to the server's
+   * own key. The stdio session has no request and always uses the server's key.
+   */
+  async function authenticate(request: IncomingMessage | undefined): Promise<SessionAuth | undefined> {
+    if (!request) return undefined
+    const apiKey = apiKeyFromHeaders(request.headers) ?? options.apiKey
+    const problem = apiKeyProblem(apiKey)
+    if (problem) {
+      const body = { jsonrpc: "2.0", id: null, error: { code: -32000, message: problem } }
+      throw new Response(JSON.stringify(body), { status: 401, statusText: problem, headers: { "Content-Type": "application/json" } })
+    }
+
+    const header = request.headers["mcp-session-id"]
+    const sessionId = Array.isArray(header) ? header[0] : header
+    const known = sessionId ? sessionAuth.get(sessionId) : undefined
+    if (known && known.apiKey === apiKey) return known
+    const auth = { apiKey: apiKey! }
+    if (sessionId) sessionAuth.set(sessionId, auth)
+    return auth
+  }
+
+  const server = new FastMCP<SessionAuth>({
+    name: "ShopSavvy Data API",
+    version: "1.0.0",
+    authenticate,
+    health: {
+      enabled: true,
+      path: options.healthPath ?? "/health"
+    },
+    instructions: `
+This server provides access to ShopSavvy's comprehensive product database and pricing data.
+
+Key capabilities:
+- Search for products by keyword when no identifier is known
+- Look up products by barcode, ASIN, URL, model number, or ShopSavvy ID
+- Get current pricing offers from multiple retailers, for a region (US, CA, GB and EU countries) and optionally converted to one currency
+- Compare offers for several products side by side
+- Access historical pricing data with custom date ranges
+- Analyze price history to judge whether now is a good time to buy
+- Answer price trends from the local price archive, when it is enabled, fetching only the days it doesn't have yet (local_price_history)
+- Schedule products for automatic price monitoring (hourly, daily, weekly), or sync the schedule to a desired list after reviewing a dry-run plan
+- Keep local price alert rules and check which ones fire
+- Import CSV or JSON product lists and export results to files (bulk_import, bulk_export): give the user the file path rather than repeating the rows
+- Track API usage, including credits spent per session and tool
+- Read products, offers, price history and the schedule as resources (shopsavvy://product/{identifier}, .../offers, .../history, shopsavvy://scheduled)
+- Guided prompts for common workflows: best_deal, good_time_to_buy, track_wishlist, audit_monitoring
+
+When a tool says a call needs confirmation because of its credit cost, tell the user the estimate and only call again with confirm_cost: true if they agree.
+
+When a tool returns a preview with a confirmation token instead of making a change, show the user the preview and only call again with that confirmation_token if they agree.
+
+Always provide specific, actionable product information to help users make informed purchasing decisions.
+    `.trim()
+  })
+
+  // Tool modules register every tool; the selection and the profile decide which ones are offered
+  const { enabled, disabled = [] } = options.tools ?? {}
+  const toolNames: string[] = []
+  const addTool = server.addTool.bind(server)
+  server.addTool = ((tool: Parameters<typeof addTool>[0]) => {
+    toolNames.push(tool.name)
+    if (context.readOnly && !tool.annotations?.readOnlyHint) return
+    if ((!enabled || enabled.includes(tool.name)) && !disabled.includes(tool.name)) addTool(observed(tool))
+  }) as typeof server.addTool
+
+  /** Give every call of `tool` a request ID, and log, time and count it */
+  function observed(tool: Parameters<typeof addTool>[0]): Parameters<typeof addTool>[0] {
+    return {
+      ...tool,
+      execute: async (args, toolContext) => {
+        const log = logger.child({ request_id: randomBytes(8).toString("hex"), tool: tool.name })
+        const started = performance.now()
+        let failed = true
+        try {
+          const result = await requests.run(log, () => tool.execute(args, { ...toolContext, log: mirrorLog(toolContext.log, log) }))
+          failed = isErrorResult(result)
+          return result
+        } finally {
+          const durationMs = Math.round(performance.now() - started)
+          metrics.recordToolCall(tool.name, durationMs, failed)
+          log[failed ? "warn" : "info"]("Tool call finished", { duration_ms: durationMs, outcome: failed ? "error" : "ok" })
+        }
+      }
+    }
+  }
+
+  registerProductTools(server, context)
+  registerPricingTools(server, context)
+  registerSchedulingTools(server, context)
+  registerAlertTools(server, context)
+  registerBulkTools(server, context)
+  registerUsageTools(server, context)
+  server.addTool = addTool
+
+  const unknownTools = [...(enabled ?? []), ...disabled].filter((name) => !toolNames.includes(name))
+  if (unknownTools.length > 0) {
+    throw new Error(`Unknown tool${unknownTools.length === 1 ? "" : "s"}: ${unknownTools.join(", ")}. Available tools: ${toolNames.join(", ")}`)
+  }
+  registerResources(server, context, {
+    recent,
+    pollIntervalMs: options.resourcePollMs ?? 0,
+    // Subscriptions are handled outside FastMCP, which hands tools the session auth, so they read the key of their own request
+    authFor(headers) {
+      const apiKey = headers && apiKeyFromHeaders(headers)
+      if (!apiKey) return undefined
+      const problem = apiKeyProblem(apiKey)
+      if (problem) throw new Error(problem)
+      return { apiKey }
+    }
+  })
+  registerPrompts(server, recent)
+  server.on("disconnect", ({ session }) => {
+    if (session.sessionId) sessionAuth.delete(session.sessionId)
+  })
+
+  return server
+}
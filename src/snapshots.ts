@@ -0,0 +1,406 @@
+/**
+ * Local price archive
+ *
+ * Keeps the offers and price history points the server receives from the API,
+ * unique by product, retailer, condition and timestamp, so price trends can be
+ * answered later without spending credits again. The archive also remembers
+ * which days of a product's price history were fetched in full, so only the
+ * days it is missing need to be fetched.
+ */
+
+import { mkdirSync } from "node:fs"
+import { createRequire } from "node:module"
+import { dirname } from "node:path"
+import { addDays, isDay } from "./analysis.js"
+import { productMatches } from "./batch.js"
+import type { Identifier } from "./identifiers.js"
+import { Logger } from "./logger.js"
+import { normalizeCondition } from "./offers.js"
+import { currencyCode, isoTimestamp, objectsIn, toOffer } from "./output.js"
+import type { DateRange, PriceSnapshot, QueryParams, RetailerPriceHistory } from "./types.js"
+
+/**
+ * What the archive knows about a product, in the API's raw field names so it
+ * can be matched with `productMatches` and shown with `toProduct`
+ */
+export interface ArchivedProduct {
+  shopsavvy: string
+  title: string
+  brand?: string
+  barcode?: string
+  amazon?: string
+  model?: string
+  mpn?: string
+}
+
+export interface SnapshotStore {
+  /** Save snapshots, skipping any already stored under the same key. Returns the new ones. */
+  add(snapshots: PriceSnapshot[]): PriceSnapshot[]
+  /** A product's snapshots in one market between two days, inclusive, oldest first */
+  query(product: string, region: string | null, range: DateRange): PriceSnapshot[]
+  /** Remember a product's identifiers and title */
+  putProduct(product: ArchivedProduct): void
+  /** The stored product `identifier` names, by ID, ASIN, model, MPN or barcode */
+  findProduct(identifier: Identifier): ArchivedProduct | undefined
+  /** Note that a product's full price history in one market was fetched for `range` */
+  addCoverage(product: string, region: string | null, range: DateRange): void
+  /** Days a product's full price history in one market was fetched for, merged and in order */
+  coverage(product: string, region: string | null): DateRange[]
+}
+
+/** Sort ranges and merge the ones that overlap or touch */
+export function mergeRanges(ranges: DateRange[]): DateRange[] {
+  const merged: DateRange[] = []
+  ;[...ranges]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .forEach((range) => {
+      const last = merged[merged.length - 1]
+      if (last && range.start <= addDays(last.end, 1)) {
+        if (range.end > last.end) last.end = range.end
+      } else {
+        merged.push({ ...range })
+      }
+    })
+  return merged
+}
+
+/** The parts of `range` that none of `covered` includes, in order */
+export function missingRanges(covered: DateRange[], range: DateRange): DateRange[] {
+  const missing: DateRange[] = []
+  let cursor = range.start
+
+  for (const known of mergeRanges(covered)) {
+    if (cursor > range.end) break
+    if (known.end < cursor || known.start > range.end) continue
+    if (known.start > cursor) missing.push({ start: cursor, end: addDays(known.start, -1) })
+    cursor = addDays(known.end, 1)
+  }
+  if (cursor <= range.end) missing.push({ start: cursor, end: range.end })
+  return missing
+}
+
+function snapshotKey(snapshot: PriceSnapshot) {
+  return [snapshot.product, snapshot.retailer, snapshot.condition ?? "", snapshot.timestamp].join("|")
+}
+
+function marketKey(product: string, region: string | null) {
+  return `${product}|${region ?? ""}`
+}
+
+/** Snapshots kept in memory for the lifetime of the server */
+export class MemorySnapshotStore implements SnapshotStore {
+  private readonly keys = new Set<string>()
+  private readonly byProduct = new Map<string, PriceSnapshot[]>()
+  private readonly products = new Map<string, ArchivedProduct>()
+  private readonly covered = new Map<string, DateRange[]>()
+
+  add(snapshots: PriceSnapshot[]): PriceSnapshot[] {
+    return snapshots.filter((snapshot) => {
+      const key = snapshotKey(snapshot)
+      if (this.keys.has(key)) return false
+      this.keys.add(key)
+
+      let stored = this.byProduct.get(snapshot.product)
+      if (!stored) {
+        stored = []
+        this.byProduct.set(snapshot.product, stored)
+      }
+      stored.push(snapshot)
+      return true
+    })
+  }
+
+  query(product: string, region: string | null, range: DateRange): PriceSnapshot[] {
+    return (this.byProduct.get(product) ?? [])
+      .filter((snapshot) => snapshot.region === region && snapshot.timestamp.slice(0, 10) >= range.start && snapshot.timestamp.slice(0, 10) <= range.end)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  }
+
+  putProduct(product: ArchivedProduct): void {
+    this.products.set(product.shopsavvy, product)
+  }
+
+  findProduct(identifier: Identifier): ArchivedProduct | undefined {
+    return [...this.products.values()].find((product) => productMatches(identifier, product))
+  }
+
+  addCoverage(product: string, region: string | null, range: DateRange): void {
+    const key = marketKey(product, region)
+    this.covered.set(key, mergeRanges([...(this.covered.get(key) ?? []), range]))
+  }
+
+  coverage(product: string, region: string | null): DateRange[] {
+    return this.covered.get(marketKey(product, region)) ?? []
+  }
+}
+
+/** The parts of a SQLite driver the archive uses, which `bun:sqlite` and better-sqlite3 share */
+interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint }
+  get(...params: unknown[]): any
+  all(...params: unknown[]): any[]
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void
+  prepare(sql: string): SqliteStatement
+  transaction<A extends unknown[]>(fn: (...args: A) => void): (...args: A) => void
+  close(): void
+}
+
+/** Open a SQLite database with Bun's built-in driver under Bun, and better-sqlite3 under Node.js */
+function openDatabase(path: string): SqliteDatabase {
+  const driver = createRequire(import.meta.url)(process.versions.bun ? "bun:sqlite" : "better-sqlite3")
+  return new (driver.Database ?? driver)(path)
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS snapshots (
+    product TEXT NOT NULL,
+    retailer TEXT NOT NULL,
+    condition TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    price REAL NOT NULL,
+    currency TEXT NOT NULL,
+    availability TEXT,
+    region TEXT,
+    source TEXT NOT NULL,
+    PRIMARY KEY (product, retailer, condition, timestamp)
+  );
+  CREATE INDEX IF NOT EXISTS snapshots_by_day ON snapshots (product, region, timestamp);
+
+  CREATE TABLE IF NOT EXISTS products (
+    shopsavvy TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    brand TEXT,
+    barcode TEXT,
+    amazon TEXT,
+    model TEXT,
+    mpn TEXT
+  );
+  CREATE INDEX IF NOT EXISTS products_by_barcode ON products (ltrim(barcode, '0'));
+  CREATE INDEX IF NOT EXISTS products_by_amazon ON products (lower(amazon));
+  CREATE INDEX IF NOT EXISTS products_by_model ON products (lower(model));
+  CREATE INDEX IF NOT EXISTS products_by_mpn ON products (lower(mpn));
+
+  CREATE TABLE IF NOT EXISTS coverage (
+    product TEXT NOT NULL,
+    region TEXT,
+    start_day TEXT NOT NULL,
+    end_day TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS coverage_by_market ON coverage (product, region);
+`
+
+const PRODUCT_FIELDS = ["brand", "barcode", "amazon", "model", "mpn"] as const
+
+/**
+ * Snapshots persisted to a SQLite database. Prices are unique by their
+ * primary key and found through indexes on product, market and day, so
+ * nothing is loaded into memory up front and the server starts as fast with
+ * a large archive as with an empty one. Failed writes are logged rather than
+ * thrown, so the call that fetched the prices still gets them.
+ */
+export class SqliteSnapshotStore implements SnapshotStore {
+  private readonly db: SqliteDatabase
+  private readonly statements
+
+  constructor(private readonly path: string, private readonly logger = new Logger()) {
+    mkdirSync(dirname(path), { recursive: true })
+    this.db = openDatabase(path)
+    this.db.exec(SCHEMA)
+    this.statements = {
+      addSnapshot: this.db.prepare(
+        "INSERT OR IGNORE INTO snapshots (product, retailer, condition, timestamp, price, currency, availability, region, source) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
+      ),
+      query: this.db.prepare("SELECT * FROM snapshots WHERE product = ? AND region IS ? AND timestamp >= ? AND timestamp < ? ORDER BY timestamp, rowid"),
+      putProduct: this.db.prepare(
+        `INSERT INTO products (shopsavvy, title, ${PRODUCT_FIELDS.join(", ")}) VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (shopsavvy) DO UPDATE SET title = excluded.title, ${PRODUCT_FIELDS.map((field) => `${field} = excluded.${field}`).join(", ")}`
+      ),
+      findProduct: this.db.prepare(
+        "SELECT * FROM products WHERE shopsavvy = ? OR lower(amazon) = ? OR lower(model) = ? OR lower(mpn) = ? OR ltrim(barcode, '0') = ? ORDER BY rowid"
+      ),
+      coverage: this.db.prepare("SELECT start_day, end_day FROM coverage WHERE product = ? AND region IS ?"),
+      clearCoverage: this.db.prepare("DELETE FROM coverage WHERE product = ? AND region IS ?"),
+      addCoverage: this.db.prepare("INSERT INTO coverage (product, region, start_day, end_day) VALUES (?, ?, ?, ?)")
+    }
+  }
+
+  add(snapshots: PriceSnapshot[]): PriceSnapshot[] {
+    return this.write([], () => {
+      const added: PriceSnapshot[] = []
+      this.db.transaction(() => {
+        snapshots.forEach((snapshot) => {
+          const { product, retailer, condition, timestamp, price, currency, availability, region, source } = snapshot
+          const result = this.statements.addSnapshot.run(product, retailer, condition ?? "", timestamp, price, currency, availability, region, source)
+          if (Number(result.changes) > 0) added.push(snapshot)
+        })
+      })()
+      return added
+    })
+  }
+
+  query(product: string, region: string | null, range: DateRange): PriceSnapshot[] {
+    return this.statements.query.all(product, region, range.start, addDays(range.end, 1)).map((row) => ({
+      product: row.product,
+      retailer: row.retailer,
+      condition: row.condition === "" ? null : row.condition,
+      timestamp: row.timestamp,
+      price: row.price,
+      currency: row.currency,
+      availability: row.availability,
+      region: row.region,
+      source: row.source
+    }))
+  }
+
+  putProduct(product: ArchivedProduct): void {
+    this.write(undefined, () => {
+      this.statements.putProduct.run(product.shopsavvy, product.title, ...PRODUCT_FIELDS.map((field) => product[field] ?? null))
+    })
+  }
+
+  findProduct(identifier: Identifier): ArchivedProduct | undefined {
+    const value = identifier.normalized.toLowerCase()
+    // The indexes narrow the candidates down; productMatches decides, e.g. that only digits are barcodes
+    return this.statements.findProduct
+      .all(value, value, value, value, value.replace(/^0+/, ""))
+      .map((row) => {
+        const product: ArchivedProduct = { shopsavvy: row.shopsavvy, title: row.title }
+        PRODUCT_FIELDS.forEach((field) => {
+          if (row[field] !== null) product[field] = row[field]
+        })
+        return product
+      })
+      .find((product) => productMatches(identifier, product))
+  }
+
+  addCoverage(product: string, region: string | null, range: DateRange): void {
+    this.write(undefined, () => {
+      this.db.transaction(() => {
+        const ranges = mergeRanges([...this.coverage(product, region), range])
+        this.statements.clearCoverage.run(product, region)
+        ranges.forEach((merged) => this.statements.addCoverage.run(product, region, merged.start, merged.end))
+      })()
+    })
+  }
+
+  coverage(product: string, region: string | null): DateRange[] {
+    return mergeRanges(this.statements.coverage.all(product, region).map((row) => ({ start: row.start_day, end: row.end_day })))
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  /** Run a write, or log why it failed and return `fallback` */
+  private write<T>(fallback: T, run: () => T): T {
+    try {
+      return run()
+    } catch (error) {
+      this.logger.warn("Failed to write to the price archive", { path: this.path, error })
+      return fallback
+    }
+  }
+}
+
+/** The identifying fields of a raw API product, or `null` without a ShopSavvy ID */
+export function toArchivedProduct(raw: any): ArchivedProduct | null {
+  if (typeof raw.shopsavvy !== "string" && typeof raw.shopsavvy !== "number") return null
+  const product: ArchivedProduct = { shopsavvy: String(raw.shopsavvy), title: typeof raw.title === "string" ? raw.title : "" }
+  ;(["brand", "barcode", "amazon", "model", "mpn"] as const).forEach((field) => {
+    if (typeof raw[field] === "string" && raw[field] !== "") product[field] = raw[field]
+  })
+  return product
+}
+
+/**
+ * Save the products and prices of an API response.
+ *
+ * Current offers are timestamped when the response was fetched, which for a
+ * cached response is when it was cached; when a retailer has several offers
+ * in the same condition, the lowest price is kept. A price history response
+ * that wasn't narrowed to one retailer also marks its days as fetched, up to
+ * the day before it was fetched: that day's prices could still change.
+ */
+export function archiveResponse(store: SnapshotStore, endpoint: string, params: QueryParams, body: any, now = new Date()) {
+  if (endpoint !== "/products/offers" && endpoint !== "/products/offers/history") return
+  const region = typeof params.country === "string" ? params.country.toUpperCase() : null
+  const timestamp = (body?.meta?.cached && isoTimestamp(body.meta.cached_at)) || now.toISOString()
+  const snapshots = new Map<string, PriceSnapshot>()
+  const keep = (snapshot: PriceSnapshot) => {
+    const key = snapshotKey(snapshot)
+    const kept = snapshots.get(key)
+    if (!kept || snapshot.price < kept.price) snapshots.set(key, snapshot)
+  }
+
+  objectsIn(body?.data).forEach((raw) => {
+    const product = toArchivedProduct(raw)
+    if (!product) return
+    store.putProduct(product)
+
+    if (endpoint === "/products/offers") {
+      objectsIn(raw.offers).forEach((rawOffer) => {
+        const offer = toOffer(rawOffer)
+        if (offer.retailer === null || offer.price === null || offer.price <= 0) return
+        keep({
+          product: product.shopsavvy,
+          retailer: offer.retailer,
+          condition: normalizeCondition(rawOffer.condition),
+          timestamp,
+          price: offer.price,
+          currency: offer.currency,
+          availability: offer.availability,
+          region,
+          source: "offers"
+        })
+      })
+      return
+    }
+
+    objectsIn(raw.offers).forEach((series) => {
+      const retailer = typeof series.retailer === "string" && series.retailer !== "" ? series.retailer : null
+      if (retailer === null) return
+      const currency = currencyCode(series.currency)
+      objectsIn(series.history).forEach((point) => {
+        const pointTimestamp = isoTimestamp(point.timestamp)
+        if (pointTimestamp === null || typeof point.price !== "number" || !(point.price > 0)) return
+        keep({
+          product: product.shopsavvy,
+          retailer,
+          condition: null,
+          timestamp: pointTimestamp,
+          price: point.price,
+          currency,
+          availability: typeof point.availability === "string" ? point.availability : null,
+          region,
+          source: "history"
+        })
+      })
+    })
+
+    const lastClosedDay = addDays(timestamp.slice(0, 10), -1)
+    if (!params.retailer && isDay(params.start) && isDay(params.end)) {
+      const end = params.end < lastClosedDay ? params.end : lastClosedDay
+      if (params.start <= end) store.addCoverage(product.shopsavvy, region, { start: params.start, end })
+    }
+  })
+
+  store.add([...snapshots.values()])
+}
+
+/** Archived prices as one price history per retailer and currency, ready for the price analytics */
+export function snapshotHistories(snapshots: PriceSnapshot[]): RetailerPriceHistory[] {
+  const histories = new Map<string, RetailerPriceHistory>()
+  snapshots.forEach((snapshot) => {
+    const key = `${snapshot.retailer}|${snapshot.currency}`
+    let history = histories.get(key)
+    if (!history) {
+      history = { retailer: snapshot.retailer, currency: snapshot.currency, converted_from: null, history: [] }
+      histories.set(key, history)
+    }
+    history.history.push({ timestamp: snapshot.timestamp, price: snapshot.price, availability: snapshot.availability })
+  })
+  return [...histories.values()]
+}
@@ -0,0 +1,436 @@
+/**
+ * Alert tools
+ *
+ * Create, list, update and delete local price alert rules, and check them
+ * against fresh offers and recent price history.
+ */
+
+import { z } from "zod"
+import { alertProblem, DEFAULT_AVERAGE_DAYS, describeAlert, evaluateAlert, newAlertId } from "../alerts.js"
+import { mapWithConcurrency, mergeUsage, runBatch, splitList } from "../batch.js"
+import { parseCurrency } from "../currency.js"
+import { describeError } from "../errors.js"
+import { identifierLabel, parseIdentifier } from "../identifiers.js"
+import {
+  confirmCostParameter,
+  formatParameter,
+  formatPrice,
+  formatUsage,
+  objectsIn,
+  renderError,
+  renderResult,
+  toOffer,
+  toProduct,
+  toRetailerPriceHistory,
+  toUsageMeta
+} from "../output.js"
+import { READ_ONLY, READ_ONLY_TRACKED } from "../permissions.js"
+import type { AlertCheckResult, AlertRule, RetailerPriceHistory } from "../types.js"
+import type { ShopSavvyServer, ToolContext } from "./context.js"
+
+/** Rule settings shared by `alert_create` and `alert_update` */
+const ruleParameters = {
+  name: z.string().optional().describe("Optional: a label for the alert, e.g. 'AirPods for Sam'"),
+  type: z.enum(["below_price", "below_average"]).describe("'below_price' fires when the best matching offer is at or below target_price; 'below_average' fires when it is percent_below under the average daily low of the last average_days days"),
+  target_price: z.number().positive().optional().describe("Target price for 'below_price' alerts"),
+  currency: z.string().optional().describe("Optional: ISO 4217 currency of target_price, e.g. 'GBP' (default: the server's currency or region, else USD). Offers in other currencies are converted with the server's exchange rate table, or skipped if it has no rate for them"),
+  percent_below: z.number().positive().max(100).optional().describe("Required drop under the average, in percent, for 'below_average' alerts (e.g., 15)"),
+  average_days: z.number().int().min(2).max(365).optional().describe(`Optional: days of history to average for 'below_average' alerts (default ${DEFAULT_AVERAGE_DAYS})`),
+  condition: z.array(z.enum(["new", "used", "refurbished"])).optional().describe("Optional: offer conditions to consider (default ['new']; an empty list means any condition)"),
+  in_stock_only: z.boolean().optional().describe("Optional: only consider in-stock offers (default true)"),
+  seller_type: z.enum(["retailer", "marketplace"]).optional().describe("Optional: only consider offers sold by the retailer itself or by marketplace sellers"),
+  retailers: z.string().optional().describe("Optional: comma-separated list of retailers to consider (default: all retailers)")
+}
+
+function ruleLabel(rule: AlertRule) {
+  return rule.name || rule.title || rule.identifier
+}
+
+/** Clear the settings that don't apply to the rule's type, and fill in `currency` for price targets */
+function withTypeSettings(rule: AlertRule, currency: string): AlertRule {
+  return rule.type === "below_price"
+    ? { ...rule, currency: rule.currency ?? currency, percent_below: null, average_days: null }
+    : { ...rule, target_price: null, currency: null, average_days: rule.average_days ?? DEFAULT_AVERAGE_DAYS }
+}
+
+function formatRule(rule: AlertRule, index: number) {
+  let text = `${index + 1}. **${ruleLabel(rule)}** - ID \`${rule.id}\`${rule.enabled ? '' : ' (disabled)'}\n`
+  text += `   - Product: ${rule.identifier} (${identifierLabel(rule.identifier_type)})\n`
+  text += `   - Alert: ${describeAlert(rule)}\n`
+  if (rule.last_checked_at) {
+    const price = rule.last_price !== null ? `best price ${formatPrice(rule.last_price, rule.last_currency ?? undefined)}` : "no matching offers"
+    text += `   - Last checked: ${rule.last_checked_at.slice(0, 16).replace('T', ' ')} UTC, ${price}${rule.firing ? ', firing' : ''}\n`
+  } else {
+    text += `   - Last checked: never\n`
+  }
+  return text + "\n"
+}
+
+const MANAGEMENT_USAGE = `**Usage:** No credits used for managing alert rules`
+
+export function registerAlertTools(server: ShopSavvyServer, context: ToolContext) {
+  // Price targets are in the currency the server shows prices in, unless a rule names its own
+  const defaultCurrency = context.market.currency ?? context.market.region?.currency ?? "USD"
+
+  server.addTool({
+    name: "alert_create",
+    description: "Create a local price alert rule for a product, e.g. 'below $199 new and in stock' or '15% under its 30-day average'. Rules are checked with alert_check",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)"),
+      ...ruleParameters,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, name, type, target_price, currency, percent_below, average_days, condition, in_stock_only, seller_type, retailers, format }, { log, session }) => {
+      const account = context.accountFor(session)
+      log.info(`Creating ${type} alert for: ${identifier}`)
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const id = parseIdentifier(identifier)
+        const now = new Date().toISOString()
+        const rule = withTypeSettings({
+          id: newAlertId(context.alerts.list(account)),
+          name: name?.trim() || null,
+          identifier: id.normalized,
+          identifier_type: id.type,
+          title: null,
+          type,
+          target_price: target_price ?? null,
+          currency: currency !== undefined ? parseCurrency(currency) : null,
+          percent_below: percent_below ?? null,
+          average_days: average_days ?? null,
+          filters: {
+            conditions: condition ?? ["new"],
+            in_stock_only: in_stock_only ?? true,
+            seller_type: seller_type ?? null,
+            retailers: splitList(retailers)
+          },
+          enabled: true,
+          created_at: now,
+          updated_at: now,
+          last_checked_at: null,
+          last_price: null,
+          last_currency: null,
+          firing: false,
+          last_fired_at: null
+        }, defaultCurrency)
+
+        const problem = alertProblem(rule)
+        if (problem) {
+          return renderError(outputFormat, "alert_create", `Error creating alert: ${problem}`)
+        }
+        context.alerts.put(account, rule)
+
+        let response = `## 🔔 Alert Created\n\n`
+        response += formatRule(rule, 0)
+        response += `Run \`alert_check\` to evaluate your alerts against current offers.\n\n`
+        response += MANAGEMENT_USAGE
+
+        return renderResult(outputFormat, response, {
+          tool: "alert_create",
+          data: { rule },
+          usage: null
+        })
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Alert creation failed", { identifier, error: errorMessage })
+        return renderError(outputFormat, "alert_create", `Error creating alert: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "alert_list",
+    description: "List your local price alert rules with their last check results",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      format: formatParameter
+    }),
+    execute: async ({ format }, { log, session }) => {
+      const account = context.accountFor(session)
+      log.info("Listing price alerts")
+      const outputFormat = format ?? context.outputFormat
+      const rules = context.alerts.list(account)
+
+      if (rules.length === 0) {
+        return renderResult(outputFormat, "📭 You have no price alerts.\n\nUse the `alert_create` tool to add one.", {
+          tool: "alert_list",
+          data: { rules: [] },
+          usage: null
+        })
+      }
+
+      let response = `## 🔔 Price Alerts (${rules.length} total)\n\n`
+      rules.forEach((rule, index) => {
+        response += formatRule(rule, index)
+      })
+      response += MANAGEMENT_USAGE
+
+      return renderResult(outputFormat, response, {
+        tool: "alert_list",
+        data: { rules },
+        usage: null
+      })
+    }
+  })
+
+  server.addTool({
+    name: "alert_update",
+    description: "Change a price alert rule's condition, filters or name, or enable and disable it",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    parameters: z.object({
+      rule_id: z.string().describe("ID of the alert to update, as shown by alert_list"),
+      ...ruleParameters,
+      type: ruleParameters.type.optional(),
+      enabled: z.boolean().optional().describe("Optional: enable or disable the alert"),
+      format: formatParameter
+    }),
+    execute: async ({ rule_id, name, type, target_price, currency, percent_below, average_days, condition, in_stock_only, seller_type, retailers, enabled, format }, { log, session }) => {
+      const account = context.accountFor(session)
+      log.info(`Updating alert: ${rule_id}`)
+      const outputFormat = format ?? context.outputFormat
+
+      const existing = context.alerts.get(account, rule_id.trim())
+      if (!existing) {
+        return renderError(outputFormat, "alert_update", `No alert found with ID: ${rule_id}`)
+      }
+
+      let targetCurrency = existing.currency
+      try {
+        if (currency !== undefined) targetCurrency = parseCurrency(currency)
+      } catch (error) {
+        return renderError(outputFormat, "alert_update", `Error updating alert: ${describeError(error)}`)
+      }
+
+      const rule = withTypeSettings({
+        ...existing,
+        name: name !== undefined ? name.trim() || null : existing.name,
+        type: type ?? existing.type,
+        target_price: target_price ?? existing.target_price,
+        // Rules saved before currencies were recorded keep their USD reading
+        currency: targetCurrency ?? (existing.type === "below_price" ? "USD" : null),
+        percent_below: percent_below ?? existing.percent_below,
+        average_days: average_days ?? existing.average_days,
+        filters: {
+          conditions: condition ?? existing.filters.conditions,
+          in_stock_only: in_stock_only ?? existing.filters.in_stock_only,
+          seller_type: seller_type ?? existing.filters.seller_type,
+          retailers: retailers !== undefined ? splitList(retailers) : existing.filters.retailers
+        },
+        enabled: enabled ?? existing.enabled,
+        updated_at: new Date().toISOString()
+      }, defaultCurrency)
+
+      const problem = alertProblem(rule)
+      if (problem) {
+        return renderError(outputFormat, "alert_update", `Error updating alert: ${problem}`)
+      }
+
+      // A changed condition should notify again the next time it is met
+      if (describeAlert(rule) !== describeAlert(existing)) rule.firing = false
+      context.alerts.put(account, rule)
+
+      let response = `## 🔔 Alert Updated\n\n`
+      response += formatRule(rule, 0)
+      response += MANAGEMENT_USAGE
+
+      return renderResult(outputFormat, response, {
+        tool: "alert_update",
+        data: { rule },
+        usage: null
+      })
+    }
+  })
+
+  server.addTool({
+    name: "alert_delete",
+    description: "Delete price alert rules",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    parameters: z.object({
+      rule_ids: z.array(z.string()).min(1).describe("IDs of the alerts to delete, as shown by alert_list"),
+      format: formatParameter
+    }),
+    execute: async ({ rule_ids, format }, { log, session }) => {
+      const account = context.accountFor(session)
+      log.info(`Deleting ${rule_ids.length} alerts`)
+      const outputFormat = format ?? context.outputFormat
+
+      const ids = [...new Set(rule_ids.map((id) => id.trim()).filter(Boolean))]
+      const deleted = ids.filter((id) => context.alerts.delete(account, id))
+      const unknown = ids.filter((id) => !deleted.includes(id))
+
+      if (deleted.length === 0) {
+        return renderError(outputFormat, "alert_delete", `No alert found with ID: ${unknown.join(', ')}`)
+      }
+
+      let response = `✅ Deleted ${deleted.length} of ${ids.length} alerts.\n\n`
+      if (unknown.length > 0) response += `**Not found:** ${unknown.join(', ')}\n\n`
+      response += MANAGEMENT_USAGE
+
+      return renderResult(outputFormat, response, {
+        tool: "alert_delete",
+        data: { deleted, not_found: unknown },
+        usage: null
+      })
+    }
+  })
+
+  server.addTool({
+    name: "alert_check",
+    description: "Check price alert rules against fresh offers and recent price history, and report which fired and why. Suitable for running on a schedule to notify the user",
+    // Records each rule's latest result, so checking again reports nothing newly fired
+    annotations: READ_ONLY_TRACKED,
+    parameters: z.object({
+      rule_ids: z.array(z.string()).optional().describe("Optional: only check these alerts, including disabled ones (default: every enabled alert)"),
+      confirm_cost: confirmCostParameter,
+      format: formatParameter
+    }),
+    execute: async ({ rule_ids, confirm_cost, format }, { log, session }) => {
+      const client = context.clientFor(session, "alert_check")
+      const account = context.accountFor(session)
+      const outputFormat = format ?? context.outputFormat
+
+      const all = context.alerts.list(account)
+      const requested = rule_ids?.map((id) => id.trim()).filter(Boolean)
+      const rules = requested ? all.filter((rule) => requested.includes(rule.id)) : all.filter((rule) => rule.enabled)
+      const unknown = requested ? requested.filter((id) => !all.some((rule) => rule.id === id)) : []
+      log.info(`Checking ${rules.length} price alerts`)
+
+      if (rules.length === 0) {
+        if (unknown.length > 0) {
+          return renderError(outputFormat, "alert_check", `No alert found with ID: ${unknown.join(', ')}`)
+        }
+        return renderResult(outputFormat, "📭 No enabled price alerts to check.\n\nUse the `alert_create` tool to add one.", {
+          tool: "alert_check",
+          data: { checked_at: new Date().toISOString(), results: [], not_found: [] },
+          usage: null
+        })
+      }
+
+      // One history request per product and averaging period
+      const historyKey = (rule: AlertRule) => `${rule.identifier}|${rule.average_days}`
+
+      // Up to one credit per product for offers, and one per history request
+      const identifiers = [...new Set(rules.map((rule) => rule.identifier))]
+      const averages = new Set(rules.filter((rule) => rule.type === "below_average").map(historyKey))
+      const refusal = context.budget.approve(context.scopeFor(session, "alert_check"), identifiers.length + averages.size, confirm_cost)
+      if (refusal) {
+        log.warn("Alert check refused", { reason: refusal })
+        return renderError(outputFormat, "alert_check", refusal)
+      }
+
+      // Alerts are about the current price, so offers always skip the cache
+      const offers = await runBatch(identifiers, context.batch, (chunk) =>
+        client.get("/products/offers", { ids: chunk.map((id) => id.normalized).join(",") }, { bypassCache: true })
+      )
+      const metas = [offers.meta]
+
+      const end = new Date().toISOString().slice(0, 10)
+      const historyRules = rules.filter((rule) =>
+        rule.type === "below_average" && offers.items.some((item) => item.input === rule.identifier && item.status === "found")
+      )
+      const historyKeys = [...new Set(historyRules.map(historyKey))]
+      const histories = new Map<string, { history: RetailerPriceHistory[] } | { error: string }>()
+      await mapWithConcurrency(historyKeys, context.batch.concurrency, async (key) => {
+        const rule = historyRules.find((candidate) => historyKey(candidate) === key)!
+        const start = new Date(Date.parse(end) - rule.average_days! * 86400000).toISOString().slice(0, 10)
+        try {
+          const result = await client.get("/products/offers/history", { ids: rule.identifier, start, end })
+          metas.push(result.meta)
+          const productData = objectsIn(result.data)[0]
+          histories.set(key, { history: productData ? objectsIn(productData.offers).map(toRetailerPriceHistory) : [] })
+        } catch (error) {
+          histories.set(key, { error: describeError(error) })
+        }
+      })
+
+      const checkedAt = new Date().toISOString()
+      const results = rules.map((rule): AlertCheckResult => {
+        const base = { rule_id: rule.id, name: rule.name, identifier: rule.identifier, newly_fired: false, product: null, best_offer: null, average_price: null }
+        const item = offers.items.find((candidate) => candidate.input === rule.identifier)
+        if (!item || item.status === "error" || item.status === "invalid") {
+          return { ...base, status: "error", reason: item?.error ?? "The product was not checked" }
+        }
+        if (item.status === "not_found") {
+          context.alerts.put(account, { ...rule, last_checked_at: checkedAt, last_price: null, last_currency: null, firing: false })
+          return { ...base, status: "not_found", reason: `No product found for identifier: ${rule.identifier}` }
+        }
+
+        let history: RetailerPriceHistory[] = []
+        if (rule.type === "below_average") {
+          const fetched = histories.get(historyKey(rule))!
+          if ("error" in fetched) return { ...base, status: "error", reason: fetched.error }
+          history = fetched.history
+        }
+
+        const product = toProduct(item.result)
+        const evaluation = evaluateAlert(rule, objectsIn(item.result.offers).map(toOffer), history, context.rates)
+        const fired = evaluation.status === "fired"
+        context.alerts.put(account, {
+          ...rule,
+          title: product.title || rule.title,
+          last_checked_at: checkedAt,
+          last_price: evaluation.best_offer?.price ?? null,
+          last_currency: evaluation.best_offer?.currency ?? null,
+          firing: fired,
+          last_fired_at: fired ? checkedAt : rule.last_fired_at
+        })
+        return { ...base, ...evaluation, product, newly_fired: fired && !rule.firing }
+      })
+
+      if (results.every((result) => result.status === "error")) {
+        const errorMessage = results[0].reason
+        log.error("Alert check failed", { error: errorMessage })
+        return renderError(outputFormat, "alert_check", `Error checking alerts: ${errorMessage}`)
+      }
+
+      const fired = results.filter((result) => result.status === "fired")
+      const quiet = results.filter((result) => result.status === "not_fired")
+      const problems = results.filter((result) => result.status !== "fired" && result.status !== "not_fired")
+      const labelFor = (result: AlertCheckResult) => result.name || result.product?.title || result.identifier
+      const ruleFor = (result: AlertCheckResult) => rules.find((rule) => rule.id === result.rule_id)!
+      const meta = mergeUsage(metas)
+
+      let response = `## 🔔 Alert Check: ${fired.length} of ${results.length} alerts fired\n\n`
+      const newlyFired = fired.filter((result) => result.newly_fired).length
+      if (fired.length > 0) response += `**Newly fired:** ${newlyFired} (the rest were already firing on the last check)\n\n`
+      if (unknown.length > 0) response += `**Unknown alert IDs:** ${unknown.join(', ')}\n\n`
+
+      if (fired.length > 0) {
+        response += `### 🎯 Fired\n\n`
+        fired.forEach((result, index) => {
+          response += `${index + 1}. **${labelFor(result)}**${result.newly_fired ? ' 🆕' : ''} - ID \`${result.rule_id}\`\n`
+          response += `   - Alert: ${describeAlert(ruleFor(result))}\n`
+          response += `   - ${result.reason}\n`
+          if (result.best_offer?.url) response += `   - [View Offer](${result.best_offer.url})\n`
+          response += "\n"
+        })
+      }
+
+      if (quiet.length > 0) {
+        response += `### Not Fired\n\n`
+        quiet.forEach((result) => {
+          response += `- **${labelFor(result)}** (\`${result.rule_id}\`): ${result.reason}\n`
+        })
+        response += "\n"
+      }
+
+      if (problems.length > 0) {
+        response += `### Could Not Evaluate\n\n`
+        problems.forEach((result) => {
+          response += `- **${labelFor(result)}** (\`${result.rule_id}\`): ${result.reason}\n`
+        })
+        response += "\n"
+      }
+
+      response += formatUsage(meta)
+
+      return renderResult(outputFormat, response, {
+        tool: "alert_check",
+        data: { checked_at: checkedAt, results, not_found: unknown },
+        usage: toUsageMeta(meta)
+      })
+    }
+  })
+}
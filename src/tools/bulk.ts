@@ -0,0 +1,439 @@
+/**
+ * Bulk tools
+ *
+ * Import product lists from CSV or JSON, run lookups, offers, price history
+ * or scheduling across every row, and export the results to a file instead
+ * of pasting them into the chat.
+ */
+
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { z } from "zod"
+import { identifierList, runBatch } from "../batch.js"
+import { identifierCost } from "../budget.js"
+import {
+  bestOfferPerRetailer,
+  detectFileFormat,
+  exportFileName,
+  historySummaryRows,
+  offerColumns,
+  productColumns,
+  readIdentifierList,
+  scheduledColumns,
+  serializeRows,
+  writeFileAtomically,
+  type ExportRow,
+  type ImportRow
+} from "../bulk.js"
+import type { ShopSavvyClient } from "../client.js"
+import { describeError } from "../errors.js"
+import { parseIdentifier } from "../identifiers.js"
+import { matchesRetailer } from "../offers.js"
+import {
+  confirmationTokenParameter,
+  confirmCostParameter,
+  formatConfirmationRequest,
+  formatParameter,
+  formatUsage,
+  identifiersParameter,
+  objectsIn,
+  renderError,
+  renderResult,
+  toOffer,
+  toProduct,
+  toRetailerPriceHistory,
+  toScheduledProduct,
+  toUsageMeta
+} from "../output.js"
+import { READ_ONLY_EXPORT } from "../permissions.js"
+import { REFRESHES_PER_30_DAYS, scheduleCostChange } from "../schedule.js"
+import type { BatchItemStatus, BulkAction, BulkOutputFile, FileFormat, QueryParams, ScheduleFrequency, UsageMeta } from "../types.js"
+import type { SessionAuth, ShopSavvyServer, ToolContext } from "./context.js"
+
+/** Most problem rows listed in a tool result; the file has all of them */
+const PROBLEM_LIST_LIMIT = 10
+
+/** Bulk actions that only read; the read-only profile offers `bulk_import` with just these */
+const READ_ACTIONS = ["lookup", "offers", "price_history"] as const
+
+const ACTION_TITLES: Record<BulkAction, string> = {
+  lookup: "Lookup",
+  offers: "Offers",
+  price_history: "Price History",
+  schedule: "Scheduling"
+}
+
+type ExportDataset = "products" | "offers" | "price_history" | "scheduled"
+
+const DATASET_TITLES: Record<ExportDataset, string> = {
+  products: "Product Details",
+  offers: "Best Offers per Retailer",
+  price_history: "Price History Summaries",
+  scheduled: "Scheduled Products"
+}
+
+interface BulkOptions {
+  schedule?: ScheduleFrequency
+  retailer?: string
+  days: number
+}
+
+interface BulkRun {
+  /** Output rows: one or more per input row */
+  rows: ExportRow[]
+  /** Status of each input row */
+  statuses: BatchItemStatus[]
+  /** "Row N (input): reason" for rows that weren't found, failed or were invalid */
+  problems: string[]
+  meta: UsageMeta | null
+}
+
+function fileFormatParameter(fallback: string) {
+  return z
+    .enum(["csv", "json"])
+    .optional()
+    .describe(`Optional: format of the results file. Defaults to the output path's extension, then ${fallback}`)
+}
+
+const outputPathParameter = z
+  .string()
+  .optional()
+  .describe("Optional: where to write the results, relative to the server's files directory. Defaults to a new timestamped file there")
+
+const daysParameter = z
+  .number()
+  .int()
+  .min(1)
+  .max(365)
+  .optional()
+  .describe("Optional: days of price history to summarize for price_history (default 90)")
+
+/**
+ * Run `action` for every row through the batch endpoints. Rows naming the
+ * same product share one request and one result.
+ */
+async function runBulk(client: ShopSavvyClient, context: ToolContext, action: BulkAction, rows: ImportRow[], options: BulkOptions): Promise<BulkRun> {
+  const end = new Date().toISOString().slice(0, 10)
+  const start = new Date(Date.parse(end) - options.days * 86400000).toISOString().slice(0, 10)
+
+  const { items, meta } = await runBatch(rows.map((row) => row.identifier), context.batch, (chunk) => {
+    const params: QueryParams = { ids: chunk.map((id) => id.normalized).join(",") }
+    // Lookups aren't per retailer, and offers are filtered here, after the request
+    if (options.retailer && (action === "price_history" || action === "schedule")) params.retailer = options.retailer
+    switch (action) {
+      case "lookup":
+        return client.get("/products", params)
+      case "offers":
+        return client.get("/products/offers", params)
+      case "price_history":
+        return client.get("/products/offers/history", { ...params, start, end })
+      case "schedule":
+        return client.put("/products/scheduled", { ...params, schedule: options.schedule })
+    }
+  })
+
+  const run: BulkRun = { rows: [], statuses: [], problems: [], meta }
+  rows.forEach(({ row, identifier }) => {
+    let normalized: string | null = null
+    try {
+      normalized = parseIdentifier(identifier).normalized
+    } catch {
+      // Reported through its invalid batch item
+    }
+    const item = items.find((candidate) => (normalized !== null ? candidate.normalized === normalized : candidate.input === identifier))!
+    const base: ExportRow = { row, input: identifier, status: item.status, error: item.error }
+    run.statuses.push(item.status)
+
+    if (item.status !== "found") {
+      run.problems.push(`Row ${row} (${identifier}): ${item.error ?? "not found"}`)
+      run.rows.push(base)
+      return
+    }
+
+    const raw = item.result
+    const details = toProduct(raw)
+    const product = { shopsavvy_id: details.shopsavvy_id, title: details.title }
+    switch (action) {
+      case "lookup":
+        run.rows.push({ ...base, ...productColumns(details) })
+        break
+      case "offers": {
+        let offers = objectsIn(raw.offers).map(toOffer)
+        if (options.retailer) offers = offers.filter((offer) => matchesRetailer(offer.retailer, [options.retailer!]))
+        const best = bestOfferPerRetailer(offers)
+        if (best.length === 0) run.rows.push({ ...base, ...product })
+        best.forEach((offer) => run.rows.push({ ...base, ...product, ...offerColumns(offer) }))
+        break
+      }
+      case "price_history":
+        historySummaryRows(objectsIn(raw.offers).map(toRetailerPriceHistory)).forEach((summary) => {
+          run.rows.push({ ...base, ...product, start, end, ...summary })
+        })
+        break
+      case "schedule":
+        run.rows.push({ ...base, ...scheduledColumns(toScheduledProduct(raw)) })
+        break
+    }
+  })
+  return run
+}
+
+/** The up-front check for a bulk action: a credit estimate, or the refresh cost of scheduling */
+function approveBulk(context: ToolContext, session: SessionAuth | undefined, tool: string, action: BulkAction, inputs: string[], options: BulkOptions, confirmed?: boolean) {
+  const products = identifierCost(inputs)
+  if (action === "schedule") {
+    const refreshCost = products * REFRESHES_PER_30_DAYS[options.schedule!]
+    return context.budget.approveRecurring(refreshCost, scheduleCostChange(products, options.schedule!), confirmed)
+  }
+  return context.budget.approve(context.scopeFor(session, tool), products, confirmed)
+}
+
+/** Write `rows` to the requested path, or to a new file in the files directory */
+function writeResults(context: ToolContext, session: SessionAuth | undefined, name: string, rows: ExportRow[], outputPath?: string, fileFormat?: FileFormat): BulkOutputFile {
+  const format = fileFormat ?? (outputPath ? detectFileFormat(outputPath, "") : "csv")
+  const path = outputPath ? context.filePath(session, outputPath) : join(context.filesDir, exportFileName(name, format))
+  writeFileAtomically(path, serializeRows(rows, format))
+  return { path, format, rows: rows.length }
+}
+
+function formatOutputFile(file: BulkOutputFile) {
+  return `**Saved To:** \`${file.path}\` (${file.format.toUpperCase()}, ${file.rows} row${file.rows === 1 ? "" : "s"})\n`
+}
+
+/** Markdown row counts and the first few problems of a bulk run */
+function formatBulkSummary(run: BulkRun, action: BulkAction): string {
+  const count = (status: BatchItemStatus) => run.statuses.filter((candidate) => candidate === status).length
+  const labels: [BatchItemStatus, string][] = [
+    ["found", action === "schedule" ? "scheduled" : "found"],
+    ["not_found", "not found"],
+    ["error", "errored"],
+    ["invalid", "invalid"]
+  ]
+  let summary = `**Rows:** ${labels.filter(([status]) => status === "found" || count(status) > 0).map(([status, label]) => `${count(status)} ${label}`).join(", ")}\n\n`
+
+  if (run.problems.length > 0) {
+    summary += `**Problems${run.problems.length > PROBLEM_LIST_LIMIT ? ` (first ${PROBLEM_LIST_LIMIT} of ${run.problems.length}, all are in the file)` : ""}:**\n`
+    run.problems.slice(0, PROBLEM_LIST_LIMIT).forEach((problem) => {
+      summary += `- ${problem}\n`
+    })
+    summary += "\n"
+  }
+  return summary
+}
+
+function usageLine(action: BulkAction, meta: UsageMeta | null) {
+  return action === "schedule" ? `**Usage:** No credits used for scheduling` : formatUsage(meta)
+}
+
+export function registerBulkTools(server: ShopSavvyServer, context: ToolContext) {
+  server.addTool({
+    name: "bulk_import",
+    description: `Import a CSV or JSON list of product identifiers (UPCs, ASINs, MPNs, URLs...) from a file or inline content, run a lookup, offers, price history summary${context.readOnly ? "" : " or scheduling"} for every row, and save the results to a CSV or JSON file. Returns a short summary and the file path`,
+    // Scheduling changes the account; without it, only a results file is written
+    annotations: context.readOnly ? READ_ONLY_EXPORT : { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+    parameters: z.object({
+      path: z.string().optional().describe("Path of the CSV or JSON file to import, relative to the server's files directory. Give this or content"),
+      content: z.string().optional().describe("The CSV or JSON to import, pasted inline. Give this or path"),
+      column: z.string().optional().describe("Optional: column holding the identifiers. By default the columns identifier, shopsavvy_id, barcode, upc, ean, gtin, isbn, asin, mpn, model, model_number, url and product_url are used, first non-empty one per row"),
+      action: z
+        .enum(context.readOnly ? READ_ACTIONS : [...READ_ACTIONS, "schedule"])
+        .describe(`What to run for each row: product details, the best offer per retailer, ${context.readOnly ? "or " : ""}a price history summary per retailer${context.readOnly ? "" : ", or adding it to the monitoring schedule"}`),
+      schedule: z.enum(["hourly", "daily", "weekly"]).optional().describe("Monitoring frequency, required for the schedule action"),
+      retailer: z.string().optional().describe("Optional: only this retailer's offers, history or monitoring"),
+      days: daysParameter,
+      output_path: outputPathParameter,
+      file_format: fileFormatParameter("the imported list's format"),
+      confirm_cost: confirmCostParameter,
+      confirmation_token: confirmationTokenParameter,
+      format: formatParameter
+    }),
+    execute: async ({ path, content, column, action, schedule, retailer, days, output_path, file_format, confirm_cost, confirmation_token, format }, { log, session }) => {
+      const outputFormat = format ?? context.outputFormat
+      if ((path === undefined) === (content === undefined)) {
+        return renderError(outputFormat, "bulk_import", "Give either path or content to import")
+      }
+      if (action === "schedule" && !schedule) {
+        return renderError(outputFormat, "bulk_import", "The schedule action needs a schedule: hourly, daily or weekly")
+      }
+
+      let source: string | null = null
+      let list
+      let sourceFormat: FileFormat
+      try {
+        if (path !== undefined) source = context.filePath(session, path)
+        const text = source !== null ? readFileSync(source, "utf8") : content!
+        sourceFormat = detectFileFormat(source ?? undefined, text)
+        list = readIdentifierList(text, sourceFormat, column)
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Bulk import couldn't read its input", { path, error: errorMessage })
+        return renderError(outputFormat, "bulk_import", `Error reading ${source ?? "the inline content"}: ${errorMessage}`)
+      }
+      if (list.rows.length === 0) {
+        return renderError(outputFormat, "bulk_import", `No identifiers found in ${source ?? "the inline content"}`)
+      }
+      log.info(`Bulk ${action} for ${list.rows.length} rows`)
+
+      const client = context.clientFor(session, "bulk_import")
+      const options: BulkOptions = { schedule, retailer, days: days ?? 90 }
+      const refusal = approveBulk(context, session, "bulk_import", action, list.rows.map((row) => row.identifier), options, confirm_cost)
+      if (refusal) {
+        log.warn("Bulk import refused", { reason: refusal })
+        return renderError(outputFormat, "bulk_import", refusal)
+      }
+
+      if (action === "schedule") {
+        const change = { path, content, column, schedule, retailer, output_path, file_format }
+        const confirmation = context.confirmChange(session, "bulk_import", change, confirmation_token)
+        if (typeof confirmation === "string") {
+          log.warn("Bulk scheduling confirmation refused", { reason: confirmation })
+          return renderError(outputFormat, "bulk_import", confirmation)
+        }
+        if (confirmation) {
+          const refreshCost = identifierCost(list.rows.map((row) => row.identifier)) * REFRESHES_PER_30_DAYS[schedule!]
+          let response = `## 📦 Bulk Scheduling: ${list.rows.length} Rows? (preview)\n\n`
+          response += `**Source:** ${source ? `\`${source}\`` : "inline content"} (${sourceFormat.toUpperCase()})\n`
+          response += `**Monitoring Frequency:** ${schedule}${retailer ? ` at ${retailer}` : ""}\n`
+          response += `**Refresh Cost:** up to ${refreshCost.toLocaleString()} credits every 30 days\n`
+          if (list.skipped.length > 0) {
+            response += `**Skipped:** ${list.skipped.length} row${list.skipped.length === 1 ? "" : "s"} without an identifier\n`
+          }
+          response += "\n"
+          response += formatConfirmationRequest("bulk_import", confirmation)
+          response += `**Usage:** No credits used for the preview`
+
+          return renderResult(outputFormat, response, {
+            tool: "bulk_import",
+            data: {
+              action,
+              source: { path: source, format: sourceFormat, columns: list.columns, rows: list.rows.length, skipped_rows: list.skipped },
+              schedule,
+              retailer: retailer ?? null,
+              refresh_cost: refreshCost,
+              confirmation
+            },
+            usage: null
+          })
+        }
+      }
+
+      const run = await runBulk(client, context, action, list.rows, options)
+      if (run.statuses.every((status) => status === "error" || status === "invalid")) {
+        const errorMessage = run.problems[0] ?? "No identifiers given"
+        log.error("Bulk import failed", { action, error: errorMessage })
+        return renderError(outputFormat, "bulk_import", `Error running bulk ${action}: ${errorMessage}`)
+      }
+
+      let file: BulkOutputFile
+      try {
+        file = writeResults(context, session, action, run.rows, output_path, file_format ?? (output_path ? undefined : sourceFormat))
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Bulk import couldn't write its results", { output_path, error: errorMessage })
+        return renderError(outputFormat, "bulk_import", `The ${action} ran, but its results couldn't be saved: ${errorMessage}`)
+      }
+
+      const found = run.statuses.filter((status) => status === "found").length
+      let response = `## 📦 Bulk ${ACTION_TITLES[action]}: ${found} of ${list.rows.length} Rows ${action === "schedule" ? "Scheduled" : "Found"}\n\n`
+      response += `**Source:** ${source ? `\`${source}\`` : "inline content"} (${sourceFormat.toUpperCase()}${list.columns.length > 0 ? `, column${list.columns.length === 1 ? "" : "s"} ${list.columns.join(", ")}` : ""})\n`
+      if (list.skipped.length > 0) {
+        response += `**Skipped:** ${list.skipped.length} row${list.skipped.length === 1 ? "" : "s"} without an identifier\n`
+      }
+      response += formatOutputFile(file)
+      response += "\n"
+      response += formatBulkSummary(run, action)
+      response += usageLine(action, run.meta)
+
+      return renderResult(outputFormat, response, {
+        tool: "bulk_import",
+        data: {
+          action,
+          source: { path: source, format: sourceFormat, columns: list.columns, rows: list.rows.length, skipped_rows: list.skipped },
+          output: file,
+          counts: Object.fromEntries(["found", "not_found", "error", "invalid"].map((status) => [status, run.statuses.filter((candidate) => candidate === status).length]))
+        },
+        usage: toUsageMeta(run.meta)
+      })
+    }
+  })
+
+  server.addTool({
+    name: "bulk_export",
+    description: "Export product details, the best offer per retailer, price history summaries or the monitoring schedule to a CSV or JSON file. Returns a short summary and the file path instead of the rows",
+    annotations: READ_ONLY_EXPORT,
+    parameters: z.object({
+      dataset: z.enum(["products", "offers", "price_history", "scheduled"]).describe("What to export: product details, the best offer per retailer, a price history summary per retailer, or every scheduled product"),
+      identifiers: identifiersParameter("Product identifiers to export, not needed for scheduled").optional(),
+      retailer: z.string().optional().describe("Optional: only this retailer's offers or history"),
+      days: daysParameter,
+      output_path: outputPathParameter,
+      file_format: fileFormatParameter("CSV"),
+      confirm_cost: confirmCostParameter,
+      format: formatParameter
+    }),
+    execute: async ({ dataset, identifiers, retailer, days, output_path, file_format, confirm_cost, format }, { log, session }) => {
+      const client = context.clientFor(session, "bulk_export")
+      const outputFormat = format ?? context.outputFormat
+
+      let rows: ExportRow[]
+      let summary = ""
+      let meta: UsageMeta | null = null
+      if (dataset === "scheduled") {
+        log.info("Exporting the monitoring schedule")
+        try {
+          const result = await client.get("/products/scheduled")
+          rows = objectsIn(result.data).map((raw) => scheduledColumns(toScheduledProduct(raw)))
+        } catch (error) {
+          const errorMessage = describeError(error)
+          log.error("Schedule export failed", { error: errorMessage })
+          return renderError(outputFormat, "bulk_export", `Error getting scheduled products: ${errorMessage}`)
+        }
+      } else {
+        const inputs = identifierList(identifiers ?? [])
+        if (inputs.length === 0) {
+          return renderError(outputFormat, "bulk_export", `Exporting ${dataset} needs identifiers`)
+        }
+        log.info(`Exporting ${dataset} for ${inputs.length} identifiers`)
+
+        const action: BulkAction = dataset === "products" ? "lookup" : dataset
+        const options: BulkOptions = { retailer, days: days ?? 90 }
+        const refusal = approveBulk(context, session, "bulk_export", action, inputs, options, confirm_cost)
+        if (refusal) {
+          log.warn("Bulk export refused", { reason: refusal })
+          return renderError(outputFormat, "bulk_export", refusal)
+        }
+
+        const run = await runBulk(client, context, action, inputs.map((identifier, index) => ({ row: index + 1, identifier })), options)
+        if (run.statuses.every((status) => status === "error" || status === "invalid")) {
+          const errorMessage = run.problems[0] ?? "No identifiers given"
+          log.error("Bulk export failed", { dataset, error: errorMessage })
+          return renderError(outputFormat, "bulk_export", `Error exporting ${dataset}: ${errorMessage}`)
+        }
+        rows = run.rows
+        summary = formatBulkSummary(run, action)
+        meta = run.meta
+      }
+
+      let file: BulkOutputFile
+      try {
+        file = writeResults(context, session, dataset, rows, output_path, file_format)
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Bulk export couldn't write its results", { output_path, error: errorMessage })
+        return renderError(outputFormat, "bulk_export", `Error saving the export: ${errorMessage}`)
+      }
+
+      let response = `## 📤 Exported ${DATASET_TITLES[dataset]}\n\n`
+      response += formatOutputFile(file)
+      response += "\n"
+      response += summary
+      response += meta ? formatUsage(meta) : `**Usage:** No credits used for exporting the schedule`
+
+      return renderResult(outputFormat, response, {
+        tool: "bulk_export",
+        data: { dataset, output: file },
+        usage: toUsageMeta(meta)
+      })
+    }
+  })
+}
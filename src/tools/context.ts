@@ -0,0 +1,69 @@
+/**
+ * Shared tool context
+ *
+ * What every tool module gets from the server that registers it: the API
+ * client and account for the calling session, local stores and the
+ * server-wide defaults.
+ */
+
+import type { FastMCP } from "fastmcp"
+import type { AlertStore } from "../alerts.js"
+import type { BatchOptions } from "../batch.js"
+import type { CreditBudget, SpendScope } from "../budget.js"
+import type { ShopSavvyClient } from "../client.js"
+import type { Market, RateTable } from "../currency.js"
+import type { Logger } from "../logger.js"
+import type { SnapshotStore } from "../snapshots.js"
+import type { ChangeConfirmation, OutputFormat } from "../types.js"
+
+/** Authentication data attached to each HTTP session */
+export type SessionAuth = {
+  apiKey: string
+}
+
+export type ShopSavvyServer = FastMCP<SessionAuth>
+
+export interface ToolContext {
+  /**
+   * Get the API client for a tool call, so credits are billed to the key the
+   * session authenticated with and counted against the session's budget.
+   * Stdio sessions use the server's own key.
+   */
+  clientFor(session: SessionAuth | undefined, tool: string): ShopSavvyClient
+  /** Who a tool call's credits are counted against */
+  scopeFor(session: SessionAuth | undefined, tool: string): SpendScope
+  /** Account ID that locally stored data (such as alert rules) is kept under for a session */
+  accountFor(session: SessionAuth | undefined): string
+  alerts: AlertStore
+  /** Local archive of the prices the server has received, or `null` when it keeps none */
+  snapshots: SnapshotStore | null
+  budget: CreditBudget
+  /** Where bulk exports are written when no path is given */
+  filesDir: string
+  /**
+   * Resolve a path given to a bulk tool against {@link filesDir}. HTTP
+   * sessions can't reach outside it; over stdio the user is local and any
+   * path works.
+   */
+  filePath(session: SessionAuth | undefined, path: string): string
+  /** Output format used when a tool call doesn't pass `format` */
+  outputFormat: OutputFormat
+  batch: BatchOptions
+  /** Region, target currency and locale used when a tool call doesn't pass `region` or `currency` */
+  market: Market
+  /** Exchange rates for currency conversion, or `null` when none are configured */
+  rates: RateTable | null
+  /** Retailer `product_offers_retailer` uses when a call doesn't name one */
+  defaultRetailer: string | null
+  /** Structured log for events outside tool calls; a tool's own `log` also writes here */
+  logger: Logger
+  /** Whether the server runs the read-only profile, so tools that can also make changes offer only their reads */
+  readOnly: boolean
+  /**
+   * Check a call that changes the monitoring schedule before making the
+   * change. Returns `null` to go ahead, or when the server's permission
+   * profile requires confirmation: a {@link ChangeConfirmation} to return with
+   * a preview if no `token` was given, or why the given token can't be used.
+   */
+  confirmChange(session: SessionAuth | undefined, tool: string, args: Record<string, unknown>, token: string | undefined): ChangeConfirmation | string | null
+}
@@ -0,0 +1,759 @@
+/**
+ * Pricing tools
+ *
+ * Current offers, side-by-side comparisons, price history and price analysis.
+ */
+
+import { z } from "zod"
+import {
+  addDays,
+  buyVerdict,
+  dailyLows,
+  dateRangeProblem,
+  defaultInterval,
+  downsample,
+  isDay,
+  priceStats,
+  retailerStats,
+  type SeriesInterval
+} from "../analysis.js"
+import { identifierList, mergeUsage, runBatch, splitList, uniqueIdentifiers } from "../batch.js"
+import { convertHistory, convertOffers, currenciesOf, resolveMarket, type Market } from "../currency.js"
+import { describeError } from "../errors.js"
+import { describeIdentifier, parseIdentifier, parseIdentifiers } from "../identifiers.js"
+import {
+  cheapestOffer,
+  comparablePrice,
+  filterOffers,
+  isInStock,
+  isNewCondition,
+  isUsedCondition,
+  matchesRetailer,
+  sortByPrice
+} from "../offers.js"
+import {
+  bypassCacheParameter,
+  confirmCostParameter,
+  currencyParameter,
+  formatAvailability,
+  formatBatchSummary,
+  formatDate,
+  formatMixedCurrencies,
+  formatOfferPrice,
+  formatParameter,
+  formatPrice,
+  formatUsage,
+  identifiersParameter,
+  objectsIn,
+  regionParameter,
+  renderError,
+  renderNotFound,
+  renderResult,
+  toInvalidIdentifier,
+  toOffer,
+  toProduct,
+  toRetailerPriceHistory,
+  toUsageMeta
+} from "../output.js"
+import { READ_ONLY } from "../permissions.js"
+import { missingRanges, snapshotHistories, toArchivedProduct } from "../snapshots.js"
+import type { DateRange, Offer, PriceStats, QueryParams, RetailerPriceHistory, RetailerPriceStats, SeriesBucket, UsageMeta } from "../types.js"
+import type { ShopSavvyServer, ToolContext } from "./context.js"
+
+/**
+ * Most separate requests `local_price_history` makes for the days missing
+ * from the archive; more gaps than this are fetched as one range spanning them
+ */
+const MAX_GAP_REQUESTS = 3
+
+/** Markdown filter labels for a market chosen with `region` or `currency` */
+function marketFilters(market: Market): string[] {
+  const filters: string[] = []
+  if (market.region) filters.push(`Region: ${market.region.name}`)
+  if (market.currency) filters.push(`Prices in ${market.currency}`)
+  return filters
+}
+
+/** Structured-output fields describing the market a tool priced things in */
+function marketData(market: Market) {
+  return { region: market.region?.code ?? null, currency: market.currency }
+}
+
+/**
+ * Markdown for overall and per-retailer price statistics and the downsampled
+ * series of daily lows
+ */
+function formatPriceTrend(
+  overall: PriceStats,
+  retailers: RetailerPriceStats[],
+  series: SeriesBucket[],
+  seriesInterval: SeriesInterval,
+  money: (value: number | null) => string
+): string {
+  const percent = (value: number | null) => value !== null ? `${value > 0 ? '+' : ''}${value}%` : 'N/A'
+
+  let response = `### Overall (lowest price across retailers, ${overall.points} days)\n\n`
+  response += `- Current best: ${money(overall.current)}\n`
+  response += `- Low: ${money(overall.min)} on ${overall.min_at!.slice(0, 10)}\n`
+  response += `- High: ${money(overall.max)}\n`
+  response += `- Mean: ${money(overall.mean)} | Median: ${money(overall.median)}\n`
+  response += `- Change over period: ${percent(overall.change_percent)}\n`
+  response += `- Price drops: ${overall.price_drops}\n\n`
+
+  response += `### By Retailer\n\n`
+  response += `| Retailer | Current | Low | High | Mean | Median | vs Low | Change | Drops |\n`
+  response += `|----------|---------|-----|------|------|--------|--------|--------|-------|\n`
+  retailers.filter((stats) => stats.points > 0).forEach((stats) => {
+    response += `| ${stats.retailer || 'Unknown retailer'} | ${money(stats.current)} | ${money(stats.min)} | ${money(stats.max)} | ${money(stats.mean)} | ${money(stats.median)} | ${percent(stats.current_vs_low_percent)} | ${percent(stats.change_percent)} | ${stats.price_drops} |\n`
+  })
+  response += "\n"
+
+  const seriesLabel = { day: "Daily", week: "Weekly", month: "Monthly" }[seriesInterval]
+  const bucketLabel = { day: "Date", week: "Week of", month: "Month of" }[seriesInterval]
+  response += `### ${seriesLabel} Lows\n\n`
+  response += `| ${bucketLabel} | Low | High | Average |\n`
+  response += `|------|-----|------|---------|\n`
+  series.forEach((bucket) => {
+    response += `| ${bucket.start} | ${money(bucket.low)} | ${money(bucket.high)} | ${money(bucket.average)} |\n`
+  })
+  return response + "\n"
+}
+
+export function registerPricingTools(server: ShopSavvyServer, context: ToolContext) {
+  server.addTool({
+    name: "product_offers",
+    description: "Get current pricing offers for a product from all retailers, optionally filtered by condition, stock, seller type, retailer and price",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)"),
+      condition: z.array(z.enum(["new", "used", "refurbished"])).optional().describe("Optional: only include offers in these conditions (e.g., ['new'])"),
+      in_stock_only: z.boolean().optional().describe("Optional: only include offers that are in stock"),
+      seller_type: z.enum(["retailer", "marketplace"]).optional().describe("Optional: 'retailer' for items sold by the retailer itself, 'marketplace' for third-party sellers"),
+      retailers: z.string().optional().describe("Optional: comma-separated list of retailers to include (e.g., 'amazon.com, bestbuy.ca, argos.co.uk')"),
+      exclude_retailers: z.string().optional().describe("Optional: comma-separated list of retailers to exclude"),
+      max_price: z.number().min(0).optional().describe("Optional: maximum price, in the currency prices are converted to if currency is given"),
+      limit: z.number().int().min(1).max(100).optional().describe("Optional: maximum number of offers to return, cheapest first"),
+      region: regionParameter,
+      currency: currencyParameter,
+      bypass_cache: bypassCacheParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, condition, in_stock_only, seller_type, retailers, exclude_retailers, max_price, limit, region, currency, bypass_cache, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_offers")
+      log.info(`Getting offers for: ${identifier}`)
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const id = parseIdentifier(identifier)
+        const market = resolveMarket(context.market, region, currency)
+        const result = await client.get("/products/offers", { ids: id.normalized, country: market.region?.code }, { bypassCache: bypass_cache })
+
+        if (result.data && result.data.length > 0) {
+          const productData = result.data[0]
+          let allOffers: Offer[] = objectsIn(productData.offers).map(toOffer)
+          if (market.currency) allOffers = convertOffers(allOffers, market.currency, context.rates)
+          const filteredOffers = filterOffers(allOffers, {
+            conditions: condition,
+            inStockOnly: in_stock_only,
+            sellerType: seller_type,
+            retailers: splitList(retailers),
+            excludeRetailers: splitList(exclude_retailers),
+            maxPrice: max_price
+          })
+          // Sort offers by price (lowest first)
+          const sortedOffers = sortByPrice(filteredOffers).slice(0, limit)
+
+          let response = `## 💰 Current Offers for ${productData.title}\n\n`
+          response += `**Identifier:** ${describeIdentifier(id)}\n\n`
+
+          const filters = marketFilters(market)
+          if (condition?.length) filters.push(`Condition: ${condition.join(', ')}`)
+          if (in_stock_only) filters.push("In stock only")
+          if (seller_type) filters.push(`Seller: ${seller_type === 'retailer' ? 'retailer itself' : 'marketplace sellers'}`)
+          if (retailers) filters.push(`Retailers: ${splitList(retailers).join(', ')}`)
+          if (exclude_retailers) filters.push(`Excluding: ${splitList(exclude_retailers).join(', ')}`)
+          if (max_price !== undefined) {
+            const maxCurrency = market.currency ?? sortedOffers[0]?.currency ?? market.region?.currency
+            filters.push(`Max price: ${formatPrice(max_price, maxCurrency, market.locale)}`)
+          }
+          if (filters.length > 0) response += `**Filters:** ${filters.join(' | ')}\n\n`
+          if (!market.currency) response += formatMixedCurrencies(currenciesOf(sortedOffers))
+
+          if (sortedOffers.length > 0) {
+            response += sortedOffers.length === allOffers.length
+              ? `**${sortedOffers.length} offers found:**\n\n`
+              : `**Showing ${sortedOffers.length} of ${allOffers.length} offers:**\n\n`
+
+            sortedOffers.forEach((offer, index) => {
+              const price = formatOfferPrice(offer, market.locale)
+              const retailer = offer.retailer || 'Unknown retailer'
+              const availability = formatAvailability(offer.availability)
+              const offerCondition = offer.condition || 'N/A'
+
+              response += `${index + 1}. **${retailer}** - ${price}\n`
+              response += `   - Availability: ${availability}\n`
+              response += `   - Condition: ${offerCondition}\n`
+              if (offer.seller) response += `   - Seller: ${offer.seller}${offer.seller_type === 'marketplace' ? ' (marketplace)' : ''}\n`
+              response += `   - [View Offer](${offer.url})\n\n`
+            })
+          } else if (allOffers.length > 0) {
+            response += `❌ None of the ${allOffers.length} current offers match these filters.\n\n`
+          } else {
+            response += "❌ No current offers available for this product.\n\n"
+          }
+
+          response += formatUsage(result.meta)
+
+          return renderResult(outputFormat, response, {
+            tool: "product_offers",
+            data: { identifier: id, product: toProduct(productData), ...marketData(market), total_offers: allOffers.length, offers: sortedOffers },
+            usage: toUsageMeta(result.meta)
+          })
+        } else {
+          return renderNotFound(outputFormat, "product_offers", `No product found for identifier: ${identifier}`, toUsageMeta(result.meta))
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Offers lookup failed", { identifier, error: errorMessage })
+        return renderError(outputFormat, "product_offers", `Error getting offers: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "product_offers_retailer",
+    description: "Get current pricing offers for a product from a specific retailer",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)"),
+      retailer: z.string().optional().describe("Retailer domain name (e.g., 'amazon.com', 'amazon.co.uk', 'bestbuy.ca', 'target.com'). Optional when the server has a default retailer"),
+      region: regionParameter,
+      currency: currencyParameter,
+      bypass_cache: bypassCacheParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, retailer: requested, region, currency, bypass_cache, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_offers_retailer")
+      const outputFormat = format ?? context.outputFormat
+      const retailer = requested ?? context.defaultRetailer
+      if (!retailer) {
+        return renderError(outputFormat, "product_offers_retailer", "No retailer given and the server has no default retailer: pass retailer (e.g., 'amazon.com')")
+      }
+      log.info(`Getting ${retailer} offers for: ${identifier}`)
+
+      try {
+        const id = parseIdentifier(identifier)
+        const market = resolveMarket(context.market, region, currency)
+        const result = await client.get("/products/offers", { 
+          ids: id.normalized, 
+          retailer: retailer,
+          country: market.region?.code
+        }, { bypassCache: bypass_cache })
+
+        if (result.data && result.data.length > 0) {
+          const productData = result.data[0]
+          let response = `## 💰 ${retailer} Offers for ${productData.title}\n\n`
+          response += `**Identifier:** ${describeIdentifier(id)}\n\n`
+          const filters = marketFilters(market)
+          if (filters.length > 0) response += `**Filters:** ${filters.join(' | ')}\n\n`
+
+          let offers: Offer[] = objectsIn(productData.offers).map(toOffer)
+          if (market.currency) offers = convertOffers(offers, market.currency, context.rates)
+          if (offers.length > 0) {
+            offers.forEach((offer, index) => {
+              const price = formatOfferPrice(offer, market.locale)
+              const availability = formatAvailability(offer.availability)
+              const condition = offer.condition || 'N/A'
+
+              response += `**Offer ${index + 1}:**\n`
+              response += `- Price: ${price}\n`
+              response += `- Availability: ${availability}\n`
+              response += `- Condition: ${condition}\n`
+              if (offer.seller) response += `- Seller: ${offer.seller}${offer.seller_type === 'marketplace' ? ' (marketplace)' : ''}\n`
+              response += `- [View Offer](${offer.url})\n\n`
+            })
+          } else {
+            response += `❌ No current offers available from ${retailer} for this product.\n\n`
+          }
+
+          response += formatUsage(result.meta)
+
+          return renderResult(outputFormat, response, {
+            tool: "product_offers_retailer",
+            data: { identifier: id, product: toProduct(productData), retailer, ...marketData(market), offers },
+            usage: toUsageMeta(result.meta)
+          })
+        } else {
+          return renderNotFound(outputFormat, "product_offers_retailer", `No product found for identifier: ${identifier}`, toUsageMeta(result.meta))
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Retailer offers lookup failed", { identifier, retailer, error: errorMessage })
+        return renderError(outputFormat, "product_offers_retailer", `Error getting ${retailer} offers: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "compare_offers",
+    description: "Compare current offers for several products side by side: best new price, best used/refurbished price, cheapest in-stock retailer, and retailer count for each",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifiers: identifiersParameter("Product identifiers to compare (barcodes, ASINs, URLs, model numbers, or ShopSavvy IDs)"),
+      retailers: z.string().optional().describe("Optional: comma-separated list of trusted retailers to limit the comparison to (e.g., 'amazon.com, bestbuy.ca, argos')"),
+      region: regionParameter,
+      currency: currencyParameter,
+      bypass_cache: bypassCacheParameter,
+      confirm_cost: confirmCostParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifiers, retailers, region, currency, bypass_cache, confirm_cost, format }, { log, session }) => {
+      const client = context.clientFor(session, "compare_offers")
+      const inputs = identifierList(identifiers)
+      log.info(`Comparing offers for ${inputs.length} identifiers`)
+      const outputFormat = format ?? context.outputFormat
+      const trusted = splitList(retailers)
+      const { valid, invalid } = parseIdentifiers(inputs)
+      if (valid.length === 0) {
+        return renderError(outputFormat, "compare_offers", `No valid identifiers to compare:\n${invalid.map((error) => `- ${error.message}`).join('\n')}`)
+      }
+
+      const refusal = context.budget.approve(context.scopeFor(session, "compare_offers"), uniqueIdentifiers(valid).length, confirm_cost)
+      if (refusal) {
+        log.warn("Offer comparison refused", { reason: refusal })
+        return renderError(outputFormat, "compare_offers", refusal)
+      }
+
+      try {
+        const market = resolveMarket(context.market, region, currency)
+        const { items, duplicates, meta } = await runBatch(inputs, context.batch, (chunk) =>
+          client.get("/products/offers", { ids: chunk.map((id) => id.normalized).join(","), country: market.region?.code }, { bypassCache: bypass_cache })
+        )
+
+        const results = items.map((item) => {
+          if (!item.result) return { ...item, result: null }
+          let offers: Offer[] = objectsIn(item.result.offers)
+            .map(toOffer)
+            .filter((offer: Offer) => trusted.length === 0 || matchesRetailer(offer.retailer, trusted))
+          if (market.currency) offers = convertOffers(offers, market.currency, context.rates)
+
+          return {
+            ...item,
+            result: {
+              product: toProduct(item.result),
+              offer_count: offers.length,
+              retailer_count: new Set(offers.map((offer) => offer.retailer).filter(Boolean)).size,
+              best_new: cheapestOffer(offers.filter(isNewCondition)),
+              best_used: cheapestOffer(offers.filter(isUsedCondition)),
+              cheapest_in_stock: cheapestOffer(offers.filter(isInStock))
+            }
+          }
+        })
+        const comparisons = results.flatMap((item) => (item.result ? [item.result] : []))
+
+        if (comparisons.length === 0) {
+          const failed = results.find((item) => item.status === "error")
+          if (failed) {
+            log.error("Offer comparison failed", { error: failed.error })
+            return renderError(outputFormat, "compare_offers", `Error comparing offers: ${failed.error}`)
+          }
+          const notFound = results.filter((item) => item.status === "not_found").map((item) => item.input)
+          return renderNotFound(outputFormat, "compare_offers", `No products found for identifiers: ${notFound.join(', ')}`, toUsageMeta(meta))
+        }
+
+        const money = (offer: Offer | null) => offer ? `${formatOfferPrice(offer, market.locale)} (${offer.retailer || 'Unknown retailer'})` : '—'
+
+        // Without a conversion, prices in different currencies can't be ranked
+        const currencies = market.currency ? [] : currenciesOf(comparisons.flatMap((comparison) =>
+          [comparison.best_new, comparison.best_used, comparison.cheapest_in_stock].filter((offer): offer is Offer => offer !== null)
+        ))
+
+        let response = `## ⚖️ Offer Comparison (${comparisons.length} products)\n\n`
+        if (trusted.length > 0) response += `**Retailers:** ${trusted.join(', ')}\n\n`
+        const filters = marketFilters(market)
+        if (filters.length > 0) response += `**Filters:** ${filters.join(' | ')}\n\n`
+        if (comparisons.length < results.length || duplicates > 0) response += formatBatchSummary(results, duplicates)
+        response += formatMixedCurrencies(currencies)
+
+        response += `| Product | Best New | Best Used/Refurbished | Cheapest In Stock | Retailers |\n`
+        response += `|---------|----------|-----------------------|-------------------|-----------|\n`
+        comparisons.forEach((comparison) => {
+          const id = comparison.product.shopsavvy_id ? ` (${comparison.product.shopsavvy_id})` : ''
+          response += `| ${comparison.product.title}${id} | ${money(comparison.best_new)} | ${money(comparison.best_used)} | ${money(comparison.cheapest_in_stock)} | ${comparison.retailer_count} |\n`
+        })
+        response += "\n"
+
+        const withNewPrice = comparisons.filter((comparison) => comparison.best_new)
+        if (withNewPrice.length > 1 && currencies.length < 2) {
+          const winner = withNewPrice.reduce((best, comparison) =>
+            comparablePrice(comparison.best_new!)! < comparablePrice(best.best_new!)! ? comparison : best
+          )
+          response += `**Lowest new price:** ${winner.product.title} at ${money(winner.best_new)}\n\n`
+        }
+
+        response += formatUsage(meta)
+
+        return renderResult(outputFormat, response, {
+          tool: "compare_offers",
+          data: { retailers: trusted, ...marketData(market), products: comparisons, results, duplicates, invalid_identifiers: invalid.map(toInvalidIdentifier) },
+          usage: toUsageMeta(meta)
+        })
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Offer comparison failed", { identifiers, error: errorMessage })
+        return renderError(outputFormat, "compare_offers", `Error comparing offers: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "product_price_history",
+    description: "Get historical pricing data for a product within a specific date range",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)"),
+      start_date: z.string().describe("Start date in YYYY-MM-DD format (e.g., '2024-01-01')"),
+      end_date: z.string().describe("End date in YYYY-MM-DD format (e.g., '2024-01-31')"),
+      retailer: z.string().optional().describe("Optional: specific retailer domain name to filter results"),
+      region: regionParameter,
+      currency: currencyParameter,
+      bypass_cache: bypassCacheParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, start_date, end_date, retailer, region, currency, bypass_cache, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_price_history")
+      log.info(`Getting price history for: ${identifier} from ${start_date} to ${end_date}`)
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const dateProblem = dateRangeProblem(start_date, end_date)
+        if (dateProblem) return renderError(outputFormat, "product_price_history", dateProblem)
+
+        const id = parseIdentifier(identifier)
+        const market = resolveMarket(context.market, region, currency)
+        const params: QueryParams = { 
+          ids: id.normalized, 
+          start: start_date, 
+          end: end_date 
+        }
+        if (retailer) params.retailer = retailer
+        if (market.region) params.country = market.region.code
+
+        const result = await client.get("/products/offers/history", params, { bypassCache: bypass_cache })
+
+        if (result.data && result.data.length > 0) {
+          const productData = result.data[0]
+          let response = `## 📈 Price History for ${productData.title}\n`
+          response += `**Identifier:** ${describeIdentifier(id)}\n`
+          response += `**Period:** ${start_date} to ${end_date}\n`
+          const filters = marketFilters(market)
+          if (filters.length > 0) response += `**Filters:** ${filters.join(' | ')}\n`
+          response += "\n"
+
+          let histories: RetailerPriceHistory[] = objectsIn(productData.offers).map(toRetailerPriceHistory)
+          if (market.currency) histories = histories.map((history) => convertHistory(history, market.currency!, context.rates))
+          else response += formatMixedCurrencies(currenciesOf(histories.filter((history) => history.history.length > 0)))
+
+          if (histories.length > 0) {
+            histories.forEach((retailerHistory) => {
+              const retailerName = retailerHistory.retailer || 'Unknown retailer'
+              response += `### ${retailerName}\n`
+              if (retailerHistory.converted_from) {
+                const { currency: from, rate } = retailerHistory.converted_from
+                response += `_Converted from ${from} at ${rate.toFixed(4)} ${retailerHistory.currency} per ${from}_\n`
+              }
+
+              const history = retailerHistory.history
+              if (history.length > 0) {
+                response += `**${history.length} price points:**\n\n`
+
+                history.forEach((point) => {
+                  const date = formatDate(point.timestamp, market.locale)
+                  const price = point.price !== null ? formatPrice(point.price, retailerHistory.currency, market.locale) : 'N/A'
+                  const availability = point.availability || 'Unknown'
+
+                  response += `- ${date}: ${price} (${availability})\n`
+                })
+              } else {
+                response += "No historical data available\n"
+              }
+              response += "\n"
+            })
+          } else {
+            response += "❌ No price history available for this product in the specified date range.\n\n"
+          }
+
+          response += formatUsage(result.meta)
+
+          return renderResult(outputFormat, response, {
+            tool: "product_price_history",
+            data: {
+              identifier: id,
+              product: toProduct(productData),
+              start_date,
+              end_date,
+              ...marketData(market),
+              retailers: histories
+            },
+            usage: toUsageMeta(result.meta)
+          })
+        } else {
+          return renderNotFound(outputFormat, "product_price_history", `No product found for identifier: ${identifier}`, toUsageMeta(result.meta))
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Price history lookup failed", { identifier, start_date, end_date, error: errorMessage })
+        return renderError(outputFormat, "product_price_history", `Error getting price history: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "product_price_analysis",
+    description: "Analyze a product's price history: lows, highs, averages, price drops per retailer and overall, a 'good time to buy' verdict, and a compact downsampled price series",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)"),
+      start_date: z.string().optional().describe("Optional: start date in YYYY-MM-DD format (defaults to 90 days before end_date)"),
+      end_date: z.string().optional().describe("Optional: end date in YYYY-MM-DD format (defaults to today)"),
+      retailer: z.string().optional().describe("Optional: specific retailer domain name to analyze"),
+      interval: z.enum(["day", "week", "month"]).optional().describe("Optional: bucket size for the downsampled series (chosen from the range length by default)"),
+      region: regionParameter,
+      currency: currencyParameter,
+      bypass_cache: bypassCacheParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, start_date, end_date, retailer, interval, region, currency, bypass_cache, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_price_analysis")
+      const outputFormat = format ?? context.outputFormat
+      const end = end_date ?? new Date().toISOString().slice(0, 10)
+      let start = start_date ?? end
+
+      try {
+        if (!start_date && isDay(end)) start = addDays(end, -90)
+        const dateProblem = dateRangeProblem(start, end)
+        if (dateProblem) return renderError(outputFormat, "product_price_analysis", dateProblem)
+        log.info(`Analyzing price history for: ${identifier} from ${start} to ${end}`)
+
+        const id = parseIdentifier(identifier)
+        const params: QueryParams = {
+          ids: id.normalized,
+          start: start,
+          end: end
+        }
+        if (retailer) params.retailer = retailer
+        const market = resolveMarket(context.market, region, currency)
+        if (market.region) params.country = market.region.code
+
+        const result = await client.get("/products/offers/history", params, { bypassCache: bypass_cache })
+
+        if (result.data && result.data.length > 0) {
+          const productData = result.data[0]
+          let histories: RetailerPriceHistory[] = objectsIn(productData.offers).map(toRetailerPriceHistory)
+          if (market.currency) histories = histories.map((history) => convertHistory(history, market.currency!, context.rates))
+
+          // Lows and averages across retailers only mean something in one currency
+          const currencies = currenciesOf(histories.filter((history) => history.history.length > 0))
+          if (currencies.length > 1) {
+            return renderError(
+              outputFormat,
+              "product_price_analysis",
+              `Price history for ${productData.title} is in ${currencies.join(", ")}. Pass currency to convert it to one currency, or region or retailer to narrow it to one market`
+            )
+          }
+          const priceCurrency = currencies[0] ?? market.currency ?? market.region?.currency ?? "USD"
+
+          const lows = dailyLows(histories)
+          const overall = priceStats(lows)
+          const retailers = retailerStats(histories)
+          const verdict = buyVerdict(overall, priceCurrency, market.locale)
+          const seriesInterval = interval ?? defaultInterval(start, end)
+          const series = downsample(lows, seriesInterval)
+          const money = (value: number | null) => value !== null ? formatPrice(value, priceCurrency, market.locale) : 'N/A'
+
+          let response = `## 📊 Price Analysis for ${productData.title}\n`
+          response += `**Identifier:** ${describeIdentifier(id)}\n`
+          response += `**Period:** ${start} to ${end}\n`
+          const filters = marketFilters(market)
+          if (filters.length > 0) response += `**Filters:** ${filters.join(' | ')}\n`
+          response += "\n"
+
+          response += `### Verdict: ${verdict.summary}\n\n`
+          verdict.reasons.forEach((reason) => {
+            response += `- ${reason}\n`
+          })
+          response += "\n"
+
+          if (overall.points > 0) {
+            response += formatPriceTrend(overall, retailers, series, seriesInterval, money)
+          } else {
+            response += "❌ No price history available for this product in the specified date range.\n\n"
+          }
+
+          response += formatUsage(result.meta)
+
+          return renderResult(outputFormat, response, {
+            tool: "product_price_analysis",
+            data: {
+              identifier: id,
+              product: toProduct(productData),
+              start_date: start,
+              end_date: end,
+              ...marketData(market),
+              price_currency: priceCurrency,
+              verdict,
+              overall,
+              retailers,
+              series: { interval: seriesInterval, buckets: series }
+            },
+            usage: toUsageMeta(result.meta)
+          })
+        } else {
+          return renderNotFound(outputFormat, "product_price_analysis", `No product found for identifier: ${identifier}`, toUsageMeta(result.meta))
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Price analysis failed", { identifier, start_date: start, end_date: end, error: errorMessage })
+        return renderError(outputFormat, "product_price_analysis", `Error analyzing price history: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "local_price_history",
+    description: "Analyze a product's price trend from the server's local price archive, which keeps every offer and price history point the server has received. Only days missing from the archive are fetched from the API; with fetch_missing: false no credits are spent at all",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number, or ShopSavvy ID)"),
+      start_date: z.string().optional().describe("Optional: start date in YYYY-MM-DD format (defaults to 90 days before end_date)"),
+      end_date: z.string().optional().describe("Optional: end date in YYYY-MM-DD format (defaults to today)"),
+      retailer: z.string().optional().describe("Optional: specific retailer domain name to analyze"),
+      condition: z.enum(["new", "used", "refurbished", "any"]).optional().describe("Optional: condition of the prices to analyze (default 'new'). Price history from the API has no condition and counts as new"),
+      fetch_missing: z.boolean().optional().describe("Optional: fetch the days missing from the archive from the API, 1 credit per request (default true). Pass false to answer from the archive alone, for free"),
+      interval: z.enum(["day", "week", "month"]).optional().describe("Optional: bucket size for the downsampled series (chosen from the range length by default)"),
+      region: regionParameter,
+      currency: currencyParameter,
+      confirm_cost: confirmCostParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, start_date, end_date, retailer, condition = "new", fetch_missing = true, interval, region, currency, confirm_cost, format }, { log, session }) => {
+      const outputFormat = format ?? context.outputFormat
+      const today = new Date().toISOString().slice(0, 10)
+      const end = end_date ?? today
+      const start = start_date ?? (isDay(end) ? addDays(end, -90) : end)
+      log.info(`Reading local price history for: ${identifier} from ${start} to ${end}`)
+
+      const archive = context.snapshots
+      if (!archive) {
+        return renderError(outputFormat, "local_price_history", "The local price archive is off. Set snapshots.path (SHOPSAVVY_SNAPSHOTS_PATH or --snapshots-path) to keep every price the server receives")
+      }
+      const dateProblem = dateRangeProblem(start, end)
+      if (dateProblem) return renderError(outputFormat, "local_price_history", dateProblem)
+
+      try {
+        const id = parseIdentifier(identifier)
+        const market = resolveMarket(context.market, region, currency)
+        const regionCode = market.region?.code ?? null
+        let product = archive.findProduct(id)
+
+        // Today's prices can still change, so only the days before it are ever complete
+        const closedEnd = end < today ? end : addDays(today, -1)
+        let missing: DateRange[] = []
+        if (!product) missing = [{ start, end }]
+        else if (start <= closedEnd) missing = missingRanges(archive.coverage(product.shopsavvy, regionCode), { start, end: closedEnd })
+
+        if (!product && !fetch_missing) {
+          return renderNotFound(outputFormat, "local_price_history", `No prices for ${identifier} are in the local archive yet. Call again with fetch_missing: true to fetch them`)
+        }
+
+        const requests = !fetch_missing ? [] : missing.length > MAX_GAP_REQUESTS ? [{ start: missing[0].start, end: missing[missing.length - 1].end }] : missing
+        const refusal = context.budget.approve(context.scopeFor(session, "local_price_history"), requests.length, confirm_cost)
+        if (refusal) return renderError(outputFormat, "local_price_history", refusal)
+
+        // Fetched for every retailer, whatever the filter, so the days are archived in full for the same credit
+        const client = context.clientFor(session, "local_price_history")
+        const metas: (UsageMeta | null)[] = []
+        for (const gap of requests) {
+          const params: QueryParams = { ids: product?.shopsavvy ?? id.normalized, start: gap.start, end: gap.end }
+          if (market.region) params.country = market.region.code
+          const result = await client.get("/products/offers/history", params)
+          metas.push(result.meta)
+          if (!product) product = archive.findProduct(id) ?? toArchivedProduct(objectsIn(result.data)[0] ?? {}) ?? undefined
+        }
+        if (!product) {
+          return renderNotFound(outputFormat, "local_price_history", `No product found for identifier: ${identifier}`, toUsageMeta(mergeUsage(metas)))
+        }
+
+        const snapshots = archive.query(product.shopsavvy, regionCode, { start, end }).filter((snapshot) =>
+          (!retailer || matchesRetailer(snapshot.retailer, [retailer])) &&
+          (condition === "any" || (snapshot.condition ?? "new") === condition)
+        )
+        let histories: RetailerPriceHistory[] = snapshotHistories(snapshots)
+        if (market.currency) histories = histories.map((history) => convertHistory(history, market.currency!, context.rates))
+
+        // Lows and averages across retailers only mean something in one currency
+        const currencies = currenciesOf(histories)
+        if (currencies.length > 1) {
+          return renderError(
+            outputFormat,
+            "local_price_history",
+            `Archived prices for ${product.title} are in ${currencies.join(", ")}. Pass currency to convert them to one currency, or region or retailer to narrow them to one market`
+          )
+        }
+        const priceCurrency = currencies[0] ?? market.currency ?? market.region?.currency ?? "USD"
+
+        const lows = dailyLows(histories)
+        const overall = priceStats(lows)
+        const retailers = retailerStats(histories)
+        const seriesInterval = interval ?? defaultInterval(start, end)
+        const series = downsample(lows, seriesInterval)
+        const money = (value: number | null) => value !== null ? formatPrice(value, priceCurrency, market.locale) : 'N/A'
+        const fromOffers = snapshots.filter((snapshot) => snapshot.source === "offers").length
+        const notFetched = fetch_missing ? [] : missing
+        const days = (ranges: DateRange[]) => ranges.map((range) => range.start === range.end ? range.start : `${range.start} to ${range.end}`).join(", ")
+
+        let response = `## 🗄️ Local Price History for ${product.title}\n`
+        response += `**Identifier:** ${describeIdentifier(id)}\n`
+        response += `**Period:** ${start} to ${end}\n`
+        const filters = [`Condition: ${condition}`, ...(retailer ? [`Retailer: ${retailer}`] : []), ...marketFilters(market)]
+        response += `**Filters:** ${filters.join(' | ')}\n`
+        response += `**Archived Prices:** ${snapshots.length} (${snapshots.length - fromOffers} from price history, ${fromOffers} from offers)\n`
+        response += `**Fetched from the API:** ${requests.length > 0 ? days(requests) : "nothing, the archive already had these days"}\n`
+        if (notFetched.length > 0) response += `**Missing from the archive:** ${days(notFetched)} (call again with fetch_missing: true to fetch them)\n`
+        response += "\n"
+
+        if (overall.points > 0) {
+          response += formatPriceTrend(overall, retailers, series, seriesInterval, money)
+        } else {
+          response += "❌ No archived prices for this product match the date range and filters.\n\n"
+        }
+
+        response += metas.length > 0 ? formatUsage(mergeUsage(metas)) : `**Usage:** answered from the local archive, 0 credits`
+
+        return renderResult(outputFormat, response, {
+          tool: "local_price_history",
+          data: {
+            identifier: id,
+            product: toProduct(product),
+            start_date: start,
+            end_date: end,
+            condition,
+            ...marketData(market),
+            price_currency: priceCurrency,
+            archived_prices: snapshots.length,
+            fetched: requests,
+            missing: notFetched,
+            overall,
+            retailers,
+            series: { interval: seriesInterval, buckets: series }
+          },
+          usage: toUsageMeta(mergeUsage(metas))
+        })
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Local price history failed", { identifier, start_date: start, end_date: end, error: errorMessage })
+        return renderError(outputFormat, "local_price_history", `Error reading local price history: ${errorMessage}`)
+      }
+    }
+  })
+}
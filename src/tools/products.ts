@@ -0,0 +1,240 @@
+/**
+ * Product lookup tools
+ *
+ * Look up products by identifier, one at a time or in batches, and search the
+ * catalog by keyword.
+ */
+
+import { z } from "zod"
+import { identifierList, runBatch } from "../batch.js"
+import { identifierCost } from "../budget.js"
+import { resolveMarket } from "../currency.js"
+import { describeError } from "../errors.js"
+import { describeIdentifier, identifierLabel, parseIdentifier } from "../identifiers.js"
+import {
+  bypassCacheParameter,
+  confirmCostParameter,
+  formatBatchSummary,
+  formatParameter,
+  formatPrice,
+  formatUsage,
+  identifiersParameter,
+  regionParameter,
+  renderError,
+  renderNotFound,
+  renderResult,
+  toProduct,
+  toUsageMeta
+} from "../output.js"
+import { READ_ONLY } from "../permissions.js"
+import type { ShopSavvyServer, ToolContext } from "./context.js"
+
+export function registerProductTools(server: ShopSavvyServer, context: ToolContext) {
+  server.addTool({
+    name: "product_lookup",
+    description: "Look up a product by barcode, ASIN, URL, model number, or ShopSavvy product ID",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifier: z.string().describe("Product identifier (barcode/UPC/EAN, ASIN, product URL, model number, or ShopSavvy ID)"),
+      bypass_cache: bypassCacheParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifier, bypass_cache, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_lookup")
+      log.info(`Looking up product: ${identifier}`)
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const id = parseIdentifier(identifier)
+        const result = await client.get("/products", { ids: id.normalized }, { bypassCache: bypass_cache })
+
+        if (result.data && result.data.length > 0) {
+          const product = result.data[0]
+
+          const response = `## 🛍️ Product Found
+
+**${product.title}**
+
+**Identifier:** ${describeIdentifier(id)}
+
+**Details:**
+- Brand: ${product.brand || 'N/A'}
+- Category: ${product.category || 'N/A'}
+- Color: ${product.color || 'N/A'}
+- Model: ${product.model || 'N/A'}
+- MPN: ${product.mpn || 'N/A'}
+- Barcode: ${product.barcode || 'N/A'}
+- Amazon ASIN: ${product.amazon || 'N/A'}
+- ShopSavvy ID: ${product.shopsavvy || 'N/A'}
+
+**Images:** ${product.images?.length || 0} available
+
+${formatUsage(result.meta)}`
+
+          return renderResult(outputFormat, response, {
+            tool: "product_lookup",
+            data: { identifier: id, product: toProduct(product) },
+            usage: toUsageMeta(result.meta)
+          })
+        } else {
+          return renderNotFound(outputFormat, "product_lookup", `No product found for identifier: ${identifier}`, toUsageMeta(result.meta))
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Product lookup failed", { identifier, error: errorMessage })
+        return renderError(outputFormat, "product_lookup", `Error looking up product: ${errorMessage}`)
+      }
+    }
+  })
+
+  server.addTool({
+    name: "product_lookup_batch",
+    description: "Look up multiple products at once. Reports which identifiers were found, not found or errored",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      identifiers: identifiersParameter("Product identifiers (barcodes, ASINs, URLs, model numbers, or ShopSavvy IDs)"),
+      bypass_cache: bypassCacheParameter,
+      confirm_cost: confirmCostParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifiers, bypass_cache, confirm_cost, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_lookup_batch")
+      const inputs = identifierList(identifiers)
+      log.info(`Batch lookup for ${inputs.length} identifiers`)
+      const outputFormat = format ?? context.outputFormat
+
+      const refusal = context.budget.approve(context.scopeFor(session, "product_lookup_batch"), identifierCost(inputs), confirm_cost)
+      if (refusal) {
+        log.warn("Batch lookup refused", { reason: refusal })
+        return renderError(outputFormat, "product_lookup_batch", refusal)
+      }
+
+      const { items, duplicates, meta } = await runBatch(inputs, context.batch, (chunk) =>
+        client.get("/products", { ids: chunk.map((id) => id.normalized).join(",") }, { bypassCache: bypass_cache })
+      )
+      const results = items.map((item) => ({ ...item, result: item.result && toProduct(item.result) }))
+      const found = results.filter((item) => item.status === "found")
+
+      if (found.length === 0 && results.every((item) => item.status === "error" || item.status === "invalid")) {
+        const errorMessage = results[0]?.error ?? "No identifiers given"
+        log.error("Batch lookup failed", { error: errorMessage })
+        return renderError(outputFormat, "product_lookup_batch", `Error in batch lookup: ${errorMessage}`)
+      }
+
+      let response = `## 🛍️ Found ${found.length} of ${results.length} Products\n\n`
+      response += formatBatchSummary(results, duplicates)
+
+      found.forEach((item, index) => {
+        const product = item.result!
+        response += `### ${index + 1}. ${product.title}\n`
+        response += `- Identifier: ${item.normalized} (${identifierLabel(item.type!)})\n`
+        response += `- Brand: ${product.brand || 'N/A'}\n`
+        response += `- Category: ${product.category || 'N/A'}\n`
+        response += `- Barcode: ${product.barcode || 'N/A'}\n`
+        response += `- ASIN: ${product.asin || 'N/A'}\n\n`
+      })
+
+      response += formatUsage(meta)
+
+      return renderResult(outputFormat, response, {
+        tool: "product_lookup_batch",
+        data: { results, duplicates },
+        usage: toUsageMeta(meta)
+      })
+    }
+  })
+
+  server.addTool({
+    name: "product_search",
+    description: "Search for products by keyword (e.g., 'airpods pro'). Returns ranked results with ShopSavvy IDs that can be passed to product_offers and product_price_history",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      query: z.string().min(1).describe("Search keywords (e.g., 'airpods pro', '65 inch oled tv')"),
+      limit: z.number().int().min(1).max(100).default(10).describe("Maximum number of results to return (1-100, default 10)"),
+      offset: z.number().int().min(0).default(0).describe("Number of results to skip, for pagination (default 0)"),
+      brand: z.string().optional().describe("Optional: only return products from this brand"),
+      category: z.string().optional().describe("Optional: only return products in this category"),
+      min_price: z.number().min(0).optional().describe("Optional: minimum price, in the region's currency"),
+      max_price: z.number().min(0).optional().describe("Optional: maximum price, in the region's currency"),
+      region: regionParameter,
+      bypass_cache: bypassCacheParameter,
+      format: formatParameter
+    }),
+    execute: async ({ query, limit, offset, brand, category, min_price, max_price, region, bypass_cache, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_search")
+      log.info(`Searching products for: ${query}`)
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const market = resolveMarket(context.market, region)
+        const result = await client.get("/products/search", {
+          q: query,
+          limit: limit,
+          offset: offset,
+          brand: brand,
+          category: category,
+          min_price: min_price,
+          max_price: max_price,
+          country: market.region?.code
+        }, { bypassCache: bypass_cache })
+
+        if (result.data && result.data.length > 0) {
+          const total = result.meta?.total
+          const first = offset + 1
+          const last = offset + result.data.length
+
+          let response = `## 🔎 Search Results for "${query}"\n\n`
+
+          const priceCurrency = market.region?.currency ?? "USD"
+          const filters: string[] = []
+          if (market.region) filters.push(`Region: ${market.region.name}`)
+          if (brand) filters.push(`Brand: ${brand}`)
+          if (category) filters.push(`Category: ${category}`)
+          if (min_price !== undefined) filters.push(`Min price: ${formatPrice(min_price, priceCurrency, market.locale)}`)
+          if (max_price !== undefined) filters.push(`Max price: ${formatPrice(max_price, priceCurrency, market.locale)}`)
+          if (filters.length > 0) response += `**Filters:** ${filters.join(', ')}\n`
+
+          response += `**Showing:** results ${first}-${last}${total !== undefined ? ` of ${total}` : ''}\n\n`
+
+          result.data.forEach((product: any, index: number) => {
+            response += `${offset + index + 1}. **${product.title}**\n`
+            response += `   - ShopSavvy ID: ${product.shopsavvy || 'N/A'}\n`
+            response += `   - Brand: ${product.brand || 'N/A'}\n`
+            response += `   - Category: ${product.category || 'N/A'}\n`
+            if (product.barcode) response += `   - Barcode: ${product.barcode}\n`
+            if (product.amazon) response += `   - ASIN: ${product.amazon}\n`
+            response += "\n"
+          })
+
+          const hasMore = total !== undefined ? last < total : result.data.length === limit
+          if (hasMore) {
+            response += `_More results available: call again with offset ${last}._\n\n`
+          }
+
+          response += `Use a ShopSavvy ID with \`product_offers\` or \`product_price_history\` for pricing details.\n\n`
+          response += formatUsage(result.meta)
+
+          return renderResult(outputFormat, response, {
+            tool: "product_search",
+            data: {
+              query,
+              region: market.region?.code ?? null,
+              offset,
+              limit,
+              total: total ?? null,
+              has_more: hasMore,
+              products: result.data.map(toProduct)
+            },
+            usage: toUsageMeta(result.meta)
+          })
+        } else {
+          return renderNotFound(outputFormat, "product_search", `No products found matching: ${query}`, toUsageMeta(result.meta))
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Product search failed", { query, error: errorMessage })
+        return renderError(outputFormat, "product_search", `Error searching products: ${errorMessage}`)
+      }
+    }
+  })
+}
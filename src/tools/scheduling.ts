@@ -0,0 +1,586 @@
+/**
+ * Scheduling tools
+ *
+ * Add and remove products from automatic price monitoring, and list what is
+ * currently scheduled.
+ */
+
+import { z } from "zod"
+import { identifierList, mergeUsage, productMatches, runBatch, uniqueIdentifiers } from "../batch.js"
+import { identifierCost } from "../budget.js"
+import type { ShopSavvyClient } from "../client.js"
+import { describeError } from "../errors.js"
+import { identifierLabel, parseIdentifiers, type Identifier } from "../identifiers.js"
+import {
+  confirmationTokenParameter,
+  confirmCostParameter,
+  formatBatchSummary,
+  formatConfirmationRequest,
+  formatInvalidIdentifiers,
+  formatParameter,
+  formatUsage,
+  identifiersParameter,
+  objectsIn,
+  renderError,
+  renderResult,
+  toInvalidIdentifier,
+  toScheduledProduct,
+  toUsageMeta
+} from "../output.js"
+import { READ_ONLY } from "../permissions.js"
+import {
+  REFRESHES_PER_30_DAYS,
+  attributeRemovals,
+  plannedRefreshCost,
+  planScheduleSync,
+  refreshCost,
+  removedProducts,
+  scheduleCostChange,
+  scheduledMatch,
+  type DesiredEntry
+} from "../schedule.js"
+import type { ChangeConfirmation, QueryParams, ScheduleSyncAction, ScheduleSyncItem, UsageMeta } from "../types.js"
+import type { ShopSavvyServer, ToolContext } from "./context.js"
+
+/**
+ * Look identifiers up to learn which product each one is. `resolved` maps
+ * each normalized identifier to its ShopSavvy ID, or to `null` when the API
+ * doesn't know it; `failed` maps the ones whose lookup errored to the error.
+ */
+async function resolveShopSavvyIds(client: ShopSavvyClient, context: ToolContext, identifiers: Identifier[]) {
+  const { items, meta } = await runBatch(identifiers.map((id) => id.normalized), context.batch, (chunk) =>
+    client.get("/products", { ids: chunk.map((id) => id.normalized).join(",") })
+  )
+  const resolved = new Map<string, string | null>()
+  const failed = new Map<string, string>()
+  items.forEach((item) => {
+    if (item.status === "found") resolved.set(item.normalized!, String(item.result.shopsavvy))
+    else if (item.status === "not_found") resolved.set(item.normalized!, null)
+    else failed.set(item.normalized!, item.error ?? "Lookup failed")
+  })
+  return { resolved, failed, meta }
+}
+
+/** Most products listed per section of a sync plan */
+const SYNC_LIST_LIMIT = 25
+
+function scheduleLabel(schedule: string | null, retailer: string | null) {
+  return `${schedule ?? "unknown schedule"}${retailer ? ` at ${retailer}` : ""}`
+}
+
+/** Markdown list of one kind of sync change, with the outcome of each once applied */
+function formatSyncSection(heading: string, items: ScheduleSyncItem[], detail: (item: ScheduleSyncItem) => string): string {
+  if (items.length === 0) return ""
+  let section = `### ${heading} (${items.length})\n\n`
+  items.slice(0, SYNC_LIST_LIMIT).forEach((item) => {
+    const name = item.title ? `${item.title} (${item.identifier})` : item.identifier
+    section += `- ${name}: ${detail(item)}`
+    if (item.status === "not_found") section += " - ❌ not found"
+    if (item.status === "error") section += ` - ❌ ${item.error}`
+    section += "\n"
+  })
+  if (items.length > SYNC_LIST_LIMIT) section += `- ...and ${items.length - SYNC_LIST_LIMIT} more\n`
+  return section + "\n"
+}
+
+/**
+ * Apply a sync plan in place: removals first, checked against the schedule
+ * read back afterwards, then additions and changes batched per frequency and
+ * retailer. Each item ends up `applied`, `not_found` or `error`.
+ */
+async function applyScheduleSync(client: ShopSavvyClient, context: ToolContext, items: ScheduleSyncItem[]) {
+  const removals = items.filter((item) => item.action === "remove")
+  if (removals.length > 0) {
+    const { items: results } = await runBatch(removals.map((item) => item.shopsavvy_id!), context.batch, async (chunk) => {
+      const result = await client.delete("/products/scheduled", { ids: chunk.map((id) => id.normalized).join(",") })
+      return { data: [], meta: result.meta }
+    })
+    let remaining: Set<string> | null = null
+    let readError = ""
+    try {
+      remaining = new Set(objectsIn((await client.get("/products/scheduled")).data).map((raw) => String(raw.shopsavvy)))
+    } catch (error) {
+      readError = describeError(error)
+    }
+    removals.forEach((item) => {
+      const result = results.find((result) => result.input === item.shopsavvy_id)!
+      if (result.status === "error") Object.assign(item, { status: "error", error: result.error })
+      else if (!remaining) Object.assign(item, { status: "error", error: `Removal was requested but the schedule couldn't be read back: ${readError}` })
+      else if (remaining.has(item.shopsavvy_id!)) Object.assign(item, { status: "error", error: "Still scheduled after the removal request" })
+      else item.status = "applied"
+    })
+  }
+
+  // One batch per frequency and retailer, since a request sets them for every product in it
+  const groups = new Map<string, ScheduleSyncItem[]>()
+  items.filter((item) => item.action !== "remove" && item.status === "planned").forEach((item) => {
+    const key = `${item.schedule}|${item.retailer ?? ""}`
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  })
+  for (const group of groups.values()) {
+    const { schedule, retailer } = group[0]
+    const target = (item: ScheduleSyncItem) => item.shopsavvy_id ?? item.identifier
+    const { items: results } = await runBatch(group.map(target), context.batch, (chunk) => {
+      const params: QueryParams = { ids: chunk.map((id) => id.normalized).join(","), schedule }
+      if (retailer) params.retailer = retailer
+      return client.put("/products/scheduled", params)
+    })
+    group.forEach((item) => {
+      const result = results.find((result) => result.input === target(item))!
+      if (result.status === "found") {
+        Object.assign(item, { status: "applied", shopsavvy_id: String(result.result.shopsavvy), title: item.title ?? result.result.title ?? null })
+      } else if (result.status === "not_found") {
+        Object.assign(item, { status: "not_found", error: `No product found for identifier: ${item.identifier}` })
+      } else {
+        Object.assign(item, { status: "error", error: result.error })
+      }
+    })
+  }
+}
+
+export function registerSchedulingTools(server: ShopSavvyServer, context: ToolContext) {
+  server.addTool({
+    name: "product_schedule",
+    description: "Schedule products for automatic price monitoring at regular intervals. Reports which identifiers were scheduled, not found or errored",
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+    parameters: z.object({
+      identifiers: identifiersParameter("Product identifiers to schedule"),
+      schedule: z.enum(["hourly", "daily", "weekly"]).describe("Monitoring frequency"),
+      retailer: z.string().optional().describe("Optional: specific retailer domain to monitor"),
+      confirm_cost: confirmCostParameter,
+      confirmation_token: confirmationTokenParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifiers, schedule, retailer, confirm_cost, confirmation_token, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_schedule")
+      const inputs = identifierList(identifiers)
+      log.info(`Scheduling ${schedule} monitoring for ${inputs.length} identifiers`)
+      const outputFormat = format ?? context.outputFormat
+
+      // Scheduling itself is free, but every refresh afterwards is billed
+      const products = identifierCost(inputs)
+      const refreshCost = products * REFRESHES_PER_30_DAYS[schedule]
+      const costCheck = context.budget.approveRecurring(refreshCost, scheduleCostChange(products, schedule), confirm_cost)
+      if (costCheck) {
+        log.warn("Product scheduling needs confirmation", { schedule, refreshCost })
+        return renderError(outputFormat, "product_schedule", costCheck)
+      }
+
+      const confirmation = context.confirmChange(session, "product_schedule", { identifiers: inputs, schedule, retailer }, confirmation_token)
+      if (typeof confirmation === "string") {
+        log.warn("Product scheduling confirmation refused", { reason: confirmation })
+        return renderError(outputFormat, "product_schedule", confirmation)
+      }
+      if (confirmation) {
+        const { valid, invalid } = parseIdentifiers(inputs)
+        const unique = uniqueIdentifiers(valid)
+        let response = `## ⏰ Schedule ${unique.length} Products? (preview)\n\n`
+        response += `**Monitoring Frequency:** ${schedule.charAt(0).toUpperCase() + schedule.slice(1)}\n`
+        if (retailer) response += `**Retailer Filter:** ${retailer}\n`
+        response += `**Refresh Cost:** up to ${refreshCost.toLocaleString()} credits every 30 days\n\n`
+        unique.forEach((id, index) => {
+          response += `${index + 1}. ${id.normalized} (${identifierLabel(id.type)})\n`
+        })
+        response += "\n" + formatInvalidIdentifiers(invalid)
+        response += formatConfirmationRequest("product_schedule", confirmation)
+        response += `**Usage:** No credits used for the preview`
+
+        return renderResult(outputFormat, response, {
+          tool: "product_schedule",
+          data: {
+            schedule,
+            retailer: retailer ?? null,
+            identifiers: unique.map((id) => ({ input: id.input, type: id.type, normalized: id.normalized })),
+            invalid_identifiers: invalid.map(toInvalidIdentifier),
+            refresh_cost: refreshCost,
+            confirmation
+          },
+          usage: null
+        })
+      }
+
+      const { items, duplicates, meta } = await runBatch(inputs, context.batch, (chunk) => {
+        const params: QueryParams = { 
+          ids: chunk.map((id) => id.normalized).join(","), 
+          schedule: schedule 
+        }
+        if (retailer) params.retailer = retailer
+        return client.put("/products/scheduled", params)
+      })
+      const results = items.map((item) => ({ ...item, result: item.result && toScheduledProduct(item.result) }))
+      const scheduled = results.filter((item) => item.status === "found")
+
+      if (scheduled.length === 0 && results.every((item) => item.status === "error" || item.status === "invalid")) {
+        const errorMessage = results[0]?.error ?? "No identifiers given"
+        log.error("Product scheduling failed", { schedule, error: errorMessage })
+        return renderError(outputFormat, "product_schedule", `Error scheduling products: ${errorMessage}`)
+      }
+
+      let response = `## ⏰ Scheduled ${scheduled.length} of ${results.length} Products\n\n`
+      response += `**Monitoring Frequency:** ${schedule.charAt(0).toUpperCase() + schedule.slice(1)}\n`
+      if (retailer) response += `**Retailer Filter:** ${retailer}\n`
+      if (scheduled.length > 0) {
+        response += `**Refresh Cost:** up to ${(scheduled.length * REFRESHES_PER_30_DAYS[schedule]).toLocaleString()} credits every 30 days\n`
+      }
+      response += "\n"
+      response += formatBatchSummary(results, duplicates)
+
+      if (scheduled.length > 0) {
+        response += "**Scheduled Products:**\n\n"
+        scheduled.forEach((item, index) => {
+          const product = item.result!
+          response += `${index + 1}. ${product.title}\n`
+          response += `   - Identifier: ${item.normalized} (${identifierLabel(item.type!)})\n`
+          response += `   - ShopSavvy ID: ${product.shopsavvy_id}\n`
+          response += `   - Schedule: ${product.schedule}\n`
+          if (product.retailer) response += `   - Retailer: ${product.retailer}\n`
+          response += "\n"
+        })
+      }
+
+      response += formatUsage(meta)
+
+      return renderResult(outputFormat, response, {
+        tool: "product_schedule",
+        data: { schedule, retailer: retailer ?? null, results, duplicates },
+        usage: toUsageMeta(meta)
+      })
+    }
+  })
+
+  server.addTool({
+    name: "product_unschedule",
+    description: "Remove products from the automatic price monitoring schedule",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    parameters: z.object({
+      identifiers: identifiersParameter("Product identifiers to unschedule"),
+      confirm_cost: confirmCostParameter,
+      confirmation_token: confirmationTokenParameter,
+      format: formatParameter
+    }),
+    execute: async ({ identifiers, confirm_cost, confirmation_token, format }, { log, session }) => {
+      const client = context.clientFor(session, "product_unschedule")
+      const inputs = identifierList(identifiers)
+      log.info(`Unscheduling ${inputs.length} identifiers`)
+      const outputFormat = format ?? context.outputFormat
+
+      const confirmation = context.confirmChange(session, "product_unschedule", { identifiers: inputs }, confirmation_token)
+      if (typeof confirmation === "string") {
+        log.warn("Product unscheduling confirmation refused", { reason: confirmation })
+        return renderError(outputFormat, "product_unschedule", confirmation)
+      }
+      if (confirmation) {
+        let current: any[]
+        try {
+          current = objectsIn((await client.get("/products/scheduled")).data)
+        } catch (error) {
+          const errorMessage = describeError(error)
+          log.error("Reading the schedule for an unschedule preview failed", { error: errorMessage })
+          return renderError(outputFormat, "product_unschedule", `Error reading the current schedule: ${errorMessage}`)
+        }
+
+        const { valid, invalid } = parseIdentifiers(inputs)
+        const matches = uniqueIdentifiers(valid).map((id) => ({ id, product: scheduledMatch(id, current) }))
+        let response = `## ⏰ Remove ${matches.length} Products from the Schedule? (preview)\n\n`
+        matches.forEach(({ id, product }, index) => {
+          response += `${index + 1}. ${id.normalized} (${identifierLabel(id.type)}): `
+          response += product ? `${product.title || product.shopsavvy}, ${scheduleLabel(product.schedule ?? null, product.retailer || null)}\n` : "not found in the schedule by this identifier\n"
+        })
+        response += "\n" + formatInvalidIdentifiers(invalid)
+        response += formatConfirmationRequest("product_unschedule", confirmation)
+        response += `**Usage:** No credits used for the preview`
+
+        return renderResult(outputFormat, response, {
+          tool: "product_unschedule",
+          data: {
+            identifiers: matches.map(({ id, product }) => ({ input: id.input, type: id.type, normalized: id.normalized, scheduled: product ? toScheduledProduct(product) : null })),
+            invalid_identifiers: invalid.map(toInvalidIdentifier),
+            confirmation
+          },
+          usage: null
+        })
+      }
+
+      // The API doesn't say what it removed, so compare the schedule before and after
+      let before: Promise<any[]> | undefined
+      const { items, duplicates, meta } = await runBatch(inputs, context.batch, async (chunk) => {
+        before ??= client.get("/products/scheduled").then((result) => objectsIn(result.data))
+        await before
+        const result = await client.delete("/products/scheduled", { ids: chunk.map((id) => id.normalized).join(",") })
+        return { data: [], meta: result.meta }
+      })
+      const sent = items.filter((item) => item.status === "not_found")
+
+      if (sent.length === 0) {
+        const errorMessage = items[0]?.error ?? "No identifiers given"
+        log.error("Product unscheduling failed", { error: errorMessage })
+        return renderError(outputFormat, "product_unschedule", `Error unscheduling products: ${errorMessage}`)
+      }
+
+      let after: any[]
+      try {
+        after = objectsIn((await client.get("/products/scheduled")).data)
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Reading the schedule after unscheduling failed", { error: errorMessage })
+        return renderError(outputFormat, "product_unschedule", `Removal requests were sent, but the schedule couldn't be read back to confirm what was removed: ${errorMessage}`)
+      }
+
+      const sentIds = sent.map((item) => ({ input: item.input, type: item.type!, normalized: item.normalized! }))
+      const removedFromSchedule = removedProducts(await before!, after)
+      let attribution = attributeRemovals(sentIds, removedFromSchedule)
+      let unresolved = new Map<string, string>()
+      let lookupMeta: UsageMeta | null = null
+      if (attribution.ambiguous.length > 0) {
+        // Several URLs or ISBNs could have removed the same products: ask the API which product each one is
+        const refusal = context.budget.approve(context.scopeFor(session, "product_unschedule"), attribution.ambiguous.length, confirm_cost)
+        if (refusal) {
+          log.warn("Unschedule lookup refused", { reason: refusal })
+          unresolved = new Map(attribution.ambiguous.map((id) => [id.normalized, refusal]))
+        } else {
+          log.info(`Looking up ${attribution.ambiguous.length} identifiers to tell which products they removed`)
+          const lookup = await resolveShopSavvyIds(client, context, attribution.ambiguous)
+          attribution = attributeRemovals(sentIds, removedFromSchedule, lookup.resolved)
+          unresolved = lookup.failed
+          lookupMeta = lookup.meta
+        }
+      }
+
+      const results = items.map((item) => {
+        const index = sent.indexOf(item)
+        if (index === -1) return { ...item, result: null }
+        const product = attribution.products[index]
+        if (!product && unresolved.has(item.normalized!)) {
+          return { ...item, status: "error" as const, error: `Couldn't tell whether this was removed: ${unresolved.get(item.normalized!)}` }
+        }
+        return { ...item, status: product ? "found" as const : "not_found" as const, result: product && toScheduledProduct(product) }
+      })
+      const removed = results.filter((item) => item.status === "found")
+
+      let response = `✅ Removed ${removed.length} of ${results.length} products from the monitoring schedule.\n\n`
+      response += formatBatchSummary(results, duplicates, { found: "removed", not_found: "not scheduled" })
+
+      if (removed.length > 0) {
+        response += "**Removed Products:**\n\n"
+        removed.forEach((item, index) => {
+          const product = item.result!
+          response += `${index + 1}. ${product.title || item.normalized}\n`
+          response += `   - ShopSavvy ID: ${product.shopsavvy_id}\n`
+          response += `   - Was: ${product.schedule || 'unknown schedule'}${product.retailer ? ` at ${product.retailer}` : ''}\n\n`
+        })
+      }
+
+      response += lookupMeta ? formatUsage(lookupMeta) : `**Usage:** No credits used for unscheduling`
+
+      return renderResult(outputFormat, response, {
+        tool: "product_unschedule",
+        data: { results, duplicates },
+        usage: toUsageMeta(mergeUsage([meta, lookupMeta]))
+      })
+    }
+  })
+
+  server.addTool({
+    name: "schedule_sync",
+    description: "Make the monitoring schedule match a desired list of products. Shows which products would be added, removed or moved to another frequency, and makes the changes only when apply is true",
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    parameters: z.object({
+      products: z
+        .array(
+          z.object({
+            identifier: z.string().describe("Product identifier (barcode, ASIN, URL, model number or ShopSavvy ID)"),
+            schedule: z.enum(["hourly", "daily", "weekly"]).describe("Monitoring frequency"),
+            retailer: z.string().optional().describe("Optional: only monitor this retailer domain")
+          })
+        )
+        .min(1)
+        .describe("Every product that should be monitored, with its frequency"),
+      keep_unlisted: z.boolean().optional().describe("Optional: keep scheduled products that aren't in the list instead of removing them"),
+      apply: z.boolean().optional().describe("Optional: make the changes. Defaults to false, which only shows the plan"),
+      confirm_cost: confirmCostParameter,
+      confirmation_token: confirmationTokenParameter,
+      format: formatParameter
+    }),
+    execute: async ({ products, keep_unlisted, apply, confirm_cost, confirmation_token, format }, { log, session }) => {
+      const client = context.clientFor(session, "schedule_sync")
+      log.info(`${apply ? "Syncing" : "Planning a sync of"} the schedule to ${products.length} products`)
+      const outputFormat = format ?? context.outputFormat
+
+      const { valid, invalid } = parseIdentifiers(products.map((product) => product.identifier))
+      if (invalid.length > 0) {
+        // A product that can't be identified would be removed, so don't guess
+        return renderError(outputFormat, "schedule_sync", `Fix these identifiers first, nothing was changed:\n${invalid.map((error) => `- ${error.message}`).join("\n")}`)
+      }
+      const desired: DesiredEntry[] = []
+      valid.forEach((id, index) => {
+        if (desired.some((entry) => entry.id.normalized === id.normalized)) return
+        desired.push({ id, schedule: products[index].schedule, retailer: products[index].retailer || null })
+      })
+
+      let current: any[]
+      try {
+        current = objectsIn((await client.get("/products/scheduled")).data)
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Reading the schedule failed", { error: errorMessage })
+        return renderError(outputFormat, "schedule_sync", `Error reading the current schedule: ${errorMessage}`)
+      }
+
+      // Identifiers that match no scheduled product may still name one (e.g. by URL):
+      // look them up, but only when some scheduled product is left unaccounted for
+      let resolved = new Map<string, string | null>()
+      let lookupMeta: UsageMeta | null = null
+      const unmatched = desired.filter((entry) => !scheduledMatch(entry.id, current)).map((entry) => entry.id)
+      const unaccounted = current.filter((raw) => !desired.some((entry) => productMatches(entry.id, raw)))
+      if (unmatched.length > 0 && unaccounted.length > 0) {
+        const refusal = context.budget.approve(context.scopeFor(session, "schedule_sync"), unmatched.length, confirm_cost)
+        if (refusal) {
+          log.warn("Schedule sync refused", { reason: refusal })
+          return renderError(outputFormat, "schedule_sync", refusal)
+        }
+        const lookup = await resolveShopSavvyIds(client, context, unmatched)
+        if (lookup.failed.size > 0) {
+          const [identifier, errorMessage] = [...lookup.failed][0]
+          log.error("Schedule sync lookup failed", { identifier, error: errorMessage })
+          return renderError(outputFormat, "schedule_sync", `Error looking up ${identifier}, nothing was changed: ${errorMessage}`)
+        }
+        resolved = lookup.resolved
+        lookupMeta = lookup.meta
+      }
+
+      const plan = planScheduleSync(desired, current, resolved, keep_unlisted ?? false)
+      const duplicates = plan.duplicates + valid.length - desired.length
+      const currentCost = refreshCost(current.map((raw) => raw.schedule ?? null))
+      const plannedCost = plannedRefreshCost(current, plan.items)
+
+      let confirmation: ChangeConfirmation | null = null
+      if (apply && plan.items.length > 0) {
+        const costCheck = context.budget.approveRecurring(
+          plannedCost - currentCost,
+          `This sync adds up to ${(plannedCost - currentCost).toLocaleString()} credits to the refresh cost every 30 days (from ${currentCost.toLocaleString()} to ${plannedCost.toLocaleString()}, one credit per product refresh)`,
+          confirm_cost
+        )
+        if (costCheck) {
+          log.warn("Schedule sync needs confirmation", { currentCost, plannedCost })
+          return renderError(outputFormat, "schedule_sync", costCheck)
+        }
+        // With confirmation required, applying shows the plan with a token first
+        const check = context.confirmChange(session, "schedule_sync", { products, keep_unlisted }, confirmation_token)
+        if (typeof check === "string") {
+          log.warn("Schedule sync confirmation refused", { reason: check })
+          return renderError(outputFormat, "schedule_sync", check)
+        }
+        confirmation = check
+        if (!confirmation) await applyScheduleSync(client, context, plan.items)
+      }
+
+      const applying = Boolean(apply) && !confirmation
+      const items = plan.items
+      const count = (action: ScheduleSyncAction) => items.filter((item) => item.action === action).length
+      const failed = items.filter((item) => item.status === "error" || (applying && item.status === "not_found"))
+
+      let response: string
+      if (items.length === 0) {
+        response = `✅ The monitoring schedule already matches the ${desired.length} listed product${desired.length === 1 ? "" : "s"}.\n\n`
+      } else if (!applying) {
+        response = `## 🔄 Schedule Sync Plan (${confirmation ? "preview" : "dry run"})\n\n`
+        response += `**Changes:** ${count("add")} to add, ${count("change")} to change, ${count("remove")} to remove, ${plan.unchanged} unchanged\n`
+      } else {
+        const applied = items.length - failed.length
+        response = `## 🔄 Schedule Synced: ${applied} of ${items.length} Changes Applied\n\n`
+        response += `**Changes:** ${count("add")} added, ${count("change")} changed, ${count("remove")} removed, ${plan.unchanged} unchanged\n`
+      }
+      if (items.length > 0) {
+        response += `**Refresh Cost:** up to ${currentCost.toLocaleString()} credits every 30 days now, up to ${plannedCost.toLocaleString()} after the sync\n`
+        if (keep_unlisted) response += `**Unlisted Products:** kept\n`
+        if (duplicates > 0) response += `**Duplicates Skipped:** ${duplicates}\n`
+        response += "\n"
+
+        response += formatSyncSection("➕ Add", items.filter((item) => item.action === "add"), (item) => scheduleLabel(item.schedule, item.retailer))
+        response += formatSyncSection("🔁 Change", items.filter((item) => item.action === "change"), (item) =>
+          `${scheduleLabel(item.previous_schedule, item.previous_retailer)} → ${scheduleLabel(item.schedule, item.retailer)}`
+        )
+        response += formatSyncSection("➖ Remove", items.filter((item) => item.action === "remove"), (item) => `was ${scheduleLabel(item.previous_schedule, item.previous_retailer)}`)
+
+        if (confirmation) response += formatConfirmationRequest("schedule_sync", confirmation)
+        else if (!applying) response += "Nothing was changed. Call again with `apply: true` to make these changes.\n\n"
+      }
+
+      response += lookupMeta ? formatUsage(lookupMeta) : `**Usage:** No credits used for reading or changing the schedule`
+
+      return renderResult(outputFormat, response, {
+        tool: "schedule_sync",
+        data: {
+          applied: applying && items.length > 0,
+          items,
+          unchanged: plan.unchanged,
+          duplicates,
+          refresh_cost: { current: currentCost, planned: plannedCost },
+          confirmation
+        },
+        usage: toUsageMeta(lookupMeta)
+      })
+    }
+  })
+
+  server.addTool({
+    name: "scheduled_products_list",
+    description: "View all products currently scheduled for automatic price monitoring",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      format: formatParameter
+    }),
+    execute: async ({ format }, { log, session }) => {
+      const client = context.clientFor(session, "scheduled_products_list")
+      log.info("Getting scheduled products list")
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const result = await client.get("/products/scheduled")
+
+        if (result.data && result.data.length > 0) {
+          let response = `## ⏰ Scheduled Products (${result.data.length} total)\n\n`
+
+          // Group by schedule frequency
+          const bySchedule: Record<string, any[]> = {}
+          result.data.forEach((product: any) => {
+            const schedule = product.schedule || 'unknown'
+            if (!bySchedule[schedule]) bySchedule[schedule] = []
+            bySchedule[schedule].push(product)
+          })
+
+          Object.entries(bySchedule).forEach(([schedule, products]) => {
+            response += `### ${schedule.charAt(0).toUpperCase() + schedule.slice(1)} (${products.length})\n\n`
+
+            products.forEach((product, index) => {
+              response += `${index + 1}. **${product.title}**\n`
+              response += `   - ShopSavvy ID: ${product.shopsavvy}\n`
+              if (product.barcode) response += `   - Barcode: ${product.barcode}\n`
+              if (product.amazon) response += `   - ASIN: ${product.amazon}\n`
+              if (product.retailer) response += `   - Retailer Filter: ${product.retailer}\n`
+              response += "\n"
+            })
+          })
+
+          response += `**Usage:** No credits used for listing scheduled products`
+
+          return renderResult(outputFormat, response, {
+            tool: "scheduled_products_list",
+            data: { products: result.data.map(toScheduledProduct) },
+            usage: null
+          })
+        } else {
+          return renderResult(outputFormat, "📭 No products are currently scheduled for monitoring.\n\nUse the `product_schedule` tool to start monitoring products.", {
+            tool: "scheduled_products_list",
+            data: { products: [] },
+            usage: null
+          })
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Scheduled products list failed", { error: errorMessage })
+        return renderError(outputFormat, "scheduled_products_list", `Error getting scheduled products: ${errorMessage}`)
+      }
+    }
+  })
+}
@@ -0,0 +1,98 @@
+/**
+ * Usage tools
+ *
+ * Credit usage for the current billing period, next to the credits this
+ * server has spent for the session and API key and the configured limits.
+ */
+
+import { z } from "zod"
+import { describeError } from "../errors.js"
+import { formatParameter, renderError, renderResult, toUsageStats } from "../output.js"
+import { READ_ONLY } from "../permissions.js"
+import type { CreditSpend, LocalUsage } from "../types.js"
+import type { ShopSavvyServer, ToolContext } from "./context.js"
+
+function formatSpend(spend: CreditSpend) {
+  const cached = spend.cached_responses > 0 ? `, ${spend.cached_responses.toLocaleString()} from cache` : ""
+  return `${spend.credits_used.toLocaleString()} credits (${spend.requests.toLocaleString()} request${spend.requests === 1 ? "" : "s"}${cached})`
+}
+
+function formatLocalUsage(local: LocalUsage) {
+  let response = `**This Session:** ${formatSpend(local.session)}\n`
+  Object.entries(local.by_tool)
+    .sort(([, a], [, b]) => b.credits_used - a.credits_used)
+    .forEach(([tool, spend]) => {
+      response += `- ${tool}: ${formatSpend(spend)}\n`
+    })
+  response += `\n**Today on This Server:** ${formatSpend(local.today)}\n\n`
+
+  const { per_call, per_session, per_day, min_remaining, recurring } = local.limits
+  const limits = [
+    per_call !== null && `${per_call.toLocaleString()} per call`,
+    per_session !== null && `${per_session.toLocaleString()} per session`,
+    per_day !== null && `${per_day.toLocaleString()} per day`,
+    min_remaining !== null && `keep ${min_remaining.toLocaleString()} in reserve`,
+    recurring !== null && `${recurring.toLocaleString()} more every 30 days per schedule change`
+  ].filter(Boolean)
+  response += `**Credit Limits:** ${limits.length > 0 ? limits.join(", ") : "none configured"}\n\n`
+  return response
+}
+
+export function registerUsageTools(server: ShopSavvyServer, context: ToolContext) {
+  server.addTool({
+    name: "api_usage",
+    description: "View current API usage statistics",
+    annotations: READ_ONLY,
+    parameters: z.object({
+      format: formatParameter
+    }),
+    execute: async ({ format }, { log, session }) => {
+      const client = context.clientFor(session, "api_usage")
+      log.info("Getting API usage statistics")
+      const outputFormat = format ?? context.outputFormat
+
+      try {
+        const result = await client.get("/usage")
+
+        if (result.data?.current_period && typeof result.data.current_period === "object") {
+          const usage = result.data
+          const period = usage.current_period
+          const count = (value: any) => typeof value === "number" ? value.toLocaleString() : 'N/A'
+
+          let response = `## 📊 API Usage Statistics\n\n`
+          response += `**Current Billing Period:** ${period.start_date} to ${period.end_date}\n\n`
+          response += `**Credit Usage:**\n`
+          response += `- Used: ${count(period.credits_used)} credits\n`
+          response += `- Limit: ${count(period.credits_limit)} credits\n`
+          response += `- Remaining: ${count(period.credits_remaining)} credits\n`
+          response += `- Usage: ${usage.usage_percentage}%\n\n`
+          response += `**Requests Made:** ${count(period.requests_made)}\n\n`
+
+          const local = context.budget.usage(context.scopeFor(session, "api_usage"))
+          response += formatLocalUsage(local)
+
+          // Usage indicator
+          if (usage.usage_percentage >= 90) {
+            response += `⚠️ **High Usage Warning:** You've used ${usage.usage_percentage}% of your monthly credits.`
+          } else if (usage.usage_percentage >= 75) {
+            response += `⚡ **Usage Notice:** You've used ${usage.usage_percentage}% of your monthly credits.`
+          } else {
+            response += `✅ **Usage Status:** Good - ${usage.usage_percentage}% of monthly credits used.`
+          }
+
+          return renderResult(outputFormat, response, {
+            tool: "api_usage",
+            data: { usage: toUsageStats(usage), local },
+            usage: null
+          })
+        } else {
+          return renderError(outputFormat, "api_usage", "Unable to retrieve usage statistics")
+        }
+      } catch (error) {
+        const errorMessage = describeError(error)
+        log.error("Usage statistics failed", { error: errorMessage })
+        return renderError(outputFormat, "api_usage", `Error getting usage statistics: ${errorMessage}`)
+      }
+    }
+  })
+}
@@ -0,0 +1,432 @@
+/**
+ * Structured output schema
+ *
+ * These types describe the machine-readable payload returned by every tool
+ * when the `json` or `both` output format is selected. Field names follow the
+ * ShopSavvy Data API (snake_case) so values can be passed straight back into
+ * other tools. Missing values are always `null`, never omitted.
+ */
+
+import type { IdentifierType } from "./identifiers.js"
+
+/**
+ * Output format for tool results:
+ * - `markdown`: human-readable Markdown text only (default)
+ * - `json`: a {@link ToolPayload} as `structuredContent`, and serialized in a text block
+ * - `both`: the Markdown text block, with the {@link ToolPayload} as `structuredContent`
+ */
+export type OutputFormat = "markdown" | "json" | "both"
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["markdown", "json", "both"]
+
+/** A product as returned by lookup, search, offers and history endpoints */
+export interface Product {
+  /** ShopSavvy product ID, accepted by every tool that takes an identifier */
+  shopsavvy_id: string | null
+  title: string
+  brand: string | null
+  category: string | null
+  color: string | null
+  model: string | null
+  mpn: string | null
+  /** UPC/EAN barcode */
+  barcode: string | null
+  /** Amazon ASIN */
+  asin: string | null
+  /** Product image URLs */
+  images: string[]
+}
+
+/** Normalized item condition */
+export type OfferCondition = "new" | "used" | "refurbished"
+
+/** Normalized stock status */
+export type OfferAvailability = "in_stock" | "out_of_stock" | "preorder"
+
+/**
+ * Who sells the item: the retailer itself, or a third-party seller on the
+ * retailer's marketplace
+ */
+export type SellerType = "retailer" | "marketplace"
+
+/** An identifier that was rejected before reaching the API */
+export interface InvalidIdentifier {
+  /** The identifier as given by the user */
+  input: string
+  /** Why it can't identify a product, e.g. a wrong barcode check digit */
+  reason: string
+}
+
+/**
+ * Outcome for one identifier in a batch tool:
+ * - `found`: the API returned a product for it
+ * - `not_found`: the request succeeded but nothing matched it
+ * - `error`: the request for its chunk failed
+ * - `invalid`: rejected locally, never sent to the API
+ */
+export type BatchItemStatus = "found" | "not_found" | "error" | "invalid"
+
+/** Per-identifier result of a batch tool */
+export interface BatchItemResult<T> {
+  /** The identifier as given by the user */
+  input: string
+  /** Detected identifier type, or `null` when invalid */
+  type: IdentifierType | null
+  /** The value sent to the API, or `null` when invalid */
+  normalized: string | null
+  status: BatchItemStatus
+  result: T | null
+  /** Why the identifier errored or is invalid */
+  error: string | null
+}
+
+/** A single retailer offer for a product */
+export interface Offer {
+  /** Retailer domain, e.g. "amazon.com" */
+  retailer: string | null
+  /** Price as a number in `currency` units, e.g. 12.99 */
+  price: number | null
+  /** ISO 4217 currency code, e.g. "USD" (assumed "USD" when the API omits it) */
+  currency: string
+  /** `null` when the API reports an availability we don't recognize */
+  availability: OfferAvailability | null
+  /** `null` when the API reports a condition we don't recognize */
+  condition: OfferCondition | null
+  seller: string | null
+  seller_type: SellerType | null
+  url: string | null
+  /** The price in the requested `currency`, or `null` when no conversion was asked for */
+  converted: ConvertedPrice | null
+}
+
+/** A price converted to another currency with the server's local rate table */
+export interface ConvertedPrice {
+  price: number | null
+  /** ISO 4217 currency code converted to */
+  currency: string
+  /** Units of `currency` per unit of the original currency */
+  rate: number
+}
+
+/** A single point in a retailer's price history */
+export interface PriceHistoryPoint {
+  /** ISO 8601 timestamp of the observation */
+  timestamp: string
+  price: number | null
+  availability: string | null
+}
+
+/** Price history for one retailer */
+export interface RetailerPriceHistory {
+  retailer: string | null
+  /** ISO 4217 currency code of every price in `history` (assumed "USD" when the API omits it) */
+  currency: string
+  /**
+   * The currency the API reported and the rate used, when prices were
+   * converted to a requested currency; otherwise `null`
+   */
+  converted_from: { currency: string; rate: number } | null
+  history: PriceHistoryPoint[]
+}
+
+/**
+ * Where a stored price came from:
+ * - `offers`: a current offer, timestamped when the server received it
+ * - `history`: a point of the API's price history
+ */
+export type SnapshotSource = "offers" | "history"
+
+/**
+ * A price kept in the local archive. Snapshots are unique by product,
+ * retailer, condition and timestamp.
+ */
+export interface PriceSnapshot {
+  /** ShopSavvy product ID */
+  product: string
+  retailer: string
+  /** `null` for price history points and offers whose condition isn't recognized */
+  condition: OfferCondition | null
+  /** ISO 8601 timestamp of the observation */
+  timestamp: string
+  price: number
+  /** ISO 4217 currency code of `price` */
+  currency: string
+  availability: string | null
+  /** Country code of the market the price was requested for, or `null` for the API's default */
+  region: string | null
+  source: SnapshotSource
+}
+
+/** An inclusive range of days */
+export interface DateRange {
+  /** First day (YYYY-MM-DD) */
+  start: string
+  /** Last day (YYYY-MM-DD) */
+  end: string
+}
+
+/** A product scheduled for automatic price monitoring */
+export interface ScheduledProduct {
+  shopsavvy_id: string | null
+  title: string
+  /** Monitoring frequency: "hourly", "daily" or "weekly" */
+  schedule: string | null
+  /** Retailer filter, if the product is only monitored at one retailer */
+  retailer: string | null
+  barcode: string | null
+  asin: string | null
+}
+
+/** Monitoring frequency */
+export type ScheduleFrequency = "hourly" | "daily" | "weekly"
+
+/** What `schedule_sync` does to bring one product in line with the desired schedule */
+export type ScheduleSyncAction = "add" | "change" | "remove"
+
+/**
+ * - `planned`: dry run, nothing was changed
+ * - `applied`: the change was made
+ * - `not_found`: the API doesn't know the product, so it can't be scheduled
+ * - `error`: the request for this product failed; see `error`
+ */
+export type ScheduleSyncStatus = "planned" | "applied" | "not_found" | "error"
+
+export interface ScheduleSyncItem {
+  action: ScheduleSyncAction
+  /** The identifier from the desired list, or the ShopSavvy ID of a product to remove */
+  identifier: string
+  /** `null` until the product is known, e.g. for additions in a dry run */
+  shopsavvy_id: string | null
+  title: string | null
+  /** Desired frequency, or `null` for removals */
+  schedule: ScheduleFrequency | null
+  retailer: string | null
+  /** Frequency before the sync, or `null` for additions */
+  previous_schedule: string | null
+  previous_retailer: string | null
+  status: ScheduleSyncStatus
+  error: string | null
+}
+
+/** File format for bulk imports and exports */
+export type FileFormat = "csv" | "json"
+
+/**
+ * What a bulk import runs for each row:
+ * - `lookup`: product details
+ * - `offers`: the best offer at each retailer
+ * - `price_history`: price statistics per retailer
+ * - `schedule`: add the product to the monitoring schedule
+ */
+export type BulkAction = "lookup" | "offers" | "price_history" | "schedule"
+
+/** Where a bulk import or export wrote its results */
+export interface BulkOutputFile {
+  /** Absolute path of the written file */
+  path: string
+  format: FileFormat
+  /** Data rows written, not counting the CSV header */
+  rows: number
+}
+
+/** Query parameters of an API request; `undefined` and `null` ones aren't sent */
+export type QueryParams = Record<string, string | number | boolean | null | undefined>
+
+/** Credit accounting attached to every billable API response */
+export interface UsageMeta {
+  credits_used: number
+  credits_remaining: number
+  /** `true` when the response was served from the local cache (0 credits) */
+  cached: boolean
+}
+
+/** Credits spent through this server, as counted locally */
+export interface CreditSpend {
+  credits_used: number
+  /** Requests sent to the API */
+  requests: number
+  /** Responses served from the local cache (0 credits) */
+  cached_responses: number
+}
+
+/** Configured credit limits; `null` when a limit isn't set */
+export interface CreditLimits {
+  per_call: number | null
+  per_session: number | null
+  per_day: number | null
+  /** Credits kept in reserve: requests that would go below this are refused */
+  min_remaining: number | null
+  /** Most credits a schedule change may add to the refresh cost every 30 days without confirmation */
+  recurring: number | null
+}
+
+/** Local credit accounting for the calling session and API key */
+export interface LocalUsage {
+  session: CreditSpend
+  /** The session's spend per tool, or "resources" for resource reads */
+  by_tool: Record<string, CreditSpend>
+  /** Spend for the API key today (UTC) across every session on this server */
+  today: CreditSpend
+  limits: CreditLimits
+}
+
+/** Billing period usage statistics from `/usage` */
+export interface UsageStats {
+  period_start: string
+  period_end: string
+  credits_used: number
+  credits_limit: number
+  credits_remaining: number
+  requests_made: number
+  usage_percentage: number
+}
+
+/**
+ * Envelope for every structured tool result.
+ *
+ * `data` holds the tool-specific payload, or `null` when nothing was found,
+ * in which case `not_found` says what, or the call failed, in which case
+ * `error` explains why.
+ */
+export interface ToolPayload<T = unknown> {
+  /** Name of the tool that produced the payload */
+  tool: string
+  data: T | null
+  /** Credits spent by this call, when reported by the API */
+  usage: UsageMeta | null
+  not_found?: string
+  error?: string
+}
+
+/** Token that confirms a previewed change, returned when the server requires confirmation */
+export interface ChangeConfirmation {
+  /** Pass as `confirmation_token`, with the same arguments, to make the change */
+  token: string
+  /** ISO 8601 timestamp after which the token no longer works */
+  expires_at: string
+}
+
+/** Summary statistics for a series of prices */
+export interface PriceStats {
+  /** Number of observations with a price */
+  points: number
+  min: number | null
+  max: number | null
+  mean: number | null
+  median: number | null
+  /** Most recent observed price */
+  current: number | null
+  /** When the lowest price was observed (ISO 8601) */
+  min_at: string | null
+  /** How far the current price is above the period low, in percent */
+  current_vs_low_percent: number | null
+  /** Change from the first to the most recent price, in percent */
+  change_percent: number | null
+  /** Number of times the price went down between consecutive observations */
+  price_drops: number
+}
+
+/** Price statistics for one retailer */
+export interface RetailerPriceStats extends PriceStats {
+  retailer: string | null
+}
+
+/** "Good time to buy" assessment */
+export interface BuyVerdict {
+  rating: "great" | "good" | "fair" | "wait" | "unknown"
+  summary: string
+  reasons: string[]
+}
+
+/** One bucket of a downsampled price series (lowest price across retailers) */
+export interface SeriesBucket {
+  /** First day of the bucket (YYYY-MM-DD) */
+  start: string
+  low: number
+  high: number
+  average: number
+}
+
+/**
+ * Kind of price alert rule:
+ * - `below_price`: the best matching offer is at or below a target price
+ * - `below_average`: the best matching offer is some percent under the
+ *   average daily low over the last N days
+ */
+export type AlertType = "below_price" | "below_average"
+
+/** Which offers an alert rule looks at */
+export interface AlertOfferFilters {
+  /** Offer conditions to consider; empty means any condition */
+  conditions: OfferCondition[]
+  in_stock_only: boolean
+  seller_type: SellerType | null
+  /** Retailers to consider; empty means every retailer */
+  retailers: string[]
+}
+
+/** A locally stored price alert rule */
+export interface AlertRule {
+  /** Short ID used by the alert tools */
+  id: string
+  /** Optional label chosen by the user */
+  name: string | null
+  /** Normalized product identifier */
+  identifier: string
+  identifier_type: IdentifierType
+  /** Product title, learned on the first check */
+  title: string | null
+  type: AlertType
+  /** Target price for `below_price` rules, otherwise `null` */
+  target_price: number | null
+  /**
+   * ISO 4217 currency of `target_price`, otherwise `null`. Rules saved before
+   * it was recorded have none and are read as USD.
+   */
+  currency: string | null
+  /** Required drop under the average, in percent, for `below_average` rules */
+  percent_below: number | null
+  /** Days of history averaged by `below_average` rules */
+  average_days: number | null
+  filters: AlertOfferFilters
+  /** Disabled rules are skipped by `alert_check` unless requested by ID */
+  enabled: boolean
+  created_at: string
+  updated_at: string
+  /** When the rule was last evaluated (ISO 8601) */
+  last_checked_at: string | null
+  /** Best matching price seen on the last check */
+  last_price: number | null
+  /** Currency of `last_price` */
+  last_currency: string | null
+  /** Whether the rule fired on its last check */
+  firing: boolean
+  last_fired_at: string | null
+}
+
+/**
+ * Outcome of checking one alert rule:
+ * - `fired`: the rule's condition is met
+ * - `not_fired`: the product has matching offers but the condition isn't met
+ * - `no_offers`: no current offer matches the rule's filters
+ * - `not_found`: the API returned no product for the identifier
+ * - `error`: the API request failed
+ */
+export type AlertCheckStatus = "fired" | "not_fired" | "no_offers" | "not_found" | "error"
+
+/** Result of checking one alert rule */
+export interface AlertCheckResult {
+  rule_id: string
+  name: string | null
+  identifier: string
+  status: AlertCheckStatus
+  /** `true` when the rule fired now but hadn't on the previous check */
+  newly_fired: boolean
+  product: Product | null
+  /** Cheapest offer matching the rule's filters */
+  best_offer: Offer | null
+  /** Average daily low for `below_average` rules */
+  average_price: number | null
+  /** Human-readable explanation of the status */
+  reason: string
+}
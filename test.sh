@@ -13,15 +13,14 @@ if [ "$1" = "--integration" ]; then
   echo "Running integration tests (live API)..."
   echo ""
 
-  echo "Testing API connectivity..."
-  RESPONSE=$(curl -s -o /dev/null -w "%{http_code}" \
-    -H "Authorization: Bearer $SHOPSAVVY_API_KEY" \
-    -H "User-Agent: ShopSavvy-MCP-Test/1.0" \
-    "https://api.shopsavvy.com/v1/usage")
-  if [ "$RESPONSE" = "200" ]; then
+  # Same default as the server, so both test the API the server will use
+  BASE_URL="${SHOPSAVVY_API_BASE_URL:-https://shopsavvy.com/api/v1}"
+
+  echo "Checking configuration and API key..."
+  if bun src/index.ts --check --api-base-url "$BASE_URL"; then
     echo "  API key valid"
   else
-    echo "  API returned HTTP $RESPONSE"
+    echo "  Configuration check failed"
     exit 1
   fi
 
@@ -29,7 +28,7 @@ if [ "$1" = "--integration" ]; then
   SEARCH=$(curl -s \
     -H "Authorization: Bearer $SHOPSAVVY_API_KEY" \
     -H "User-Agent: ShopSavvy-MCP-Test/1.0" \
-    "https://api.shopsavvy.com/v1/products/search?q=airpods+pro&limit=1")
+    "$BASE_URL/products/search?q=airpods+pro&limit=1")
   if echo "$SEARCH" | grep -q '"success":true'; then
     echo "  Product search works"
   else
@@ -72,6 +71,20 @@ else
     echo "  bun not installed -- skipping"
   fi
 
+  echo "Running test suite..."
+  if command -v bun &> /dev/null; then
+    if bun test > /tmp/mcp-ss-test.log 2>&1; then
+      echo "  All tests passed ($(grep -oE '[0-9]+ pass' /tmp/mcp-ss-test.log | grep -oE '[0-9]+') tests)"
+    else
+      grep -E "\(fail\)|error:" /tmp/mcp-ss-test.log | head -20
+      echo "  Test suite failed"
+      exit 1
+    fi
+    rm -f /tmp/mcp-ss-test.log
+  else
+    echo "  bun not installed -- skipping"
+  fi
+
   echo "Checking package.json..."
   if command -v node &> /dev/null; then
     node -e "
@@ -0,0 +1,234 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { accountId, evaluateAlert, JsonFileAlertStore, MemoryAlertStore } from "../src/alerts.js"
+import { parseRateTable } from "../src/currency.js"
+import type { AlertRule, Offer } from "../src/types.js"
+import { startHarness, TEST_API_KEY, type Harness } from "./harness.js"
+
+let harness: Harness
+const alerts = new MemoryAlertStore()
+const account = accountId(TEST_API_KEY)
+
+beforeAll(async () => {
+  harness = await startHarness({ alerts })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+  alerts.list(account).forEach((rule) => alerts.delete(account, rule.id))
+})
+
+async function createAlert(args: Record<string, unknown>) {
+  const result = await harness.call("alert_create", { identifier: "194253397168", ...args })
+  expect(result.isError).toBe(false)
+  return result.json.data.rule
+}
+
+describe("alert_create", () => {
+  test("stores a rule with new, in-stock defaults", async () => {
+    const result = await harness.call("alert_create", { identifier: "0194253397168", type: "below_price", target_price: 199, name: "AirPods" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("At or below $199.00 (new, in stock)")
+    expect(result.json.data.rule).toMatchObject({
+      name: "AirPods",
+      identifier: "194253397168",
+      identifier_type: "upc_a",
+      type: "below_price",
+      target_price: 199,
+      currency: "USD",
+      percent_below: null,
+      filters: { conditions: ["new"], in_stock_only: true, seller_type: null, retailers: [] },
+      enabled: true
+    })
+    expect(alerts.list(account)).toHaveLength(1)
+    expect(harness.api.requests).toHaveLength(0)
+  })
+
+  test("records the currency of the target price", async () => {
+    const result = await harness.call("alert_create", { identifier: "194253397168", type: "below_price", target_price: 150, currency: "gbp" })
+
+    expect(result.json.data.rule).toMatchObject({ target_price: 150, currency: "GBP" })
+    expect(result.text).toContain("At or below £150.00 (new, in stock)")
+    expect((await harness.call("alert_create", { identifier: "194253397168", type: "below_price", target_price: 150, currency: "pounds" })).text).toContain("Invalid currency 'pounds'")
+  })
+
+  test("rejects rules without a threshold for their type", async () => {
+    const result = await harness.call("alert_create", { identifier: "194253397168", type: "below_average" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("below_average alerts need a percent_below")
+    expect(alerts.list(account)).toHaveLength(0)
+  })
+
+  test("rejects invalid identifiers", async () => {
+    const result = await harness.call("alert_create", { identifier: "194253397169", type: "below_price", target_price: 199 })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Invalid identifier")
+  })
+})
+
+describe("alert_list, alert_update and alert_delete", () => {
+  test("manage stored rules", async () => {
+    const rule = await createAlert({ type: "below_price", target_price: 199 })
+
+    const listed = await harness.call("alert_list")
+    expect(listed.text).toContain("Price Alerts (1 total)")
+    expect(listed.text).toContain("Last checked: never")
+    expect(listed.json.data.rules.map((item: any) => item.id)).toEqual([rule.id])
+
+    const updated = await harness.call("alert_update", { rule_id: rule.id, type: "below_average", percent_below: 15, retailers: "amazon.com", enabled: false })
+    expect(updated.isError).toBe(false)
+    expect(updated.json.data.rule).toMatchObject({ type: "below_average", target_price: null, currency: null, percent_below: 15, average_days: 30, enabled: false })
+    expect(updated.json.data.rule.filters.retailers).toEqual(["amazon.com"])
+    expect(updated.text).toContain("15% under the 30-day average (new, in stock, at amazon.com)")
+
+    const deleted = await harness.call("alert_delete", { rule_ids: [rule.id, "missing"] })
+    expect(deleted.text).toContain("Deleted 1 of 2 alerts")
+    expect(deleted.json.data).toEqual({ deleted: [rule.id], not_found: ["missing"] })
+    expect((await harness.call("alert_list")).text).toContain("You have no price alerts")
+  })
+
+  test("report unknown rule IDs", async () => {
+    expect((await harness.call("alert_update", { rule_id: "missing", enabled: false })).text).toContain("No alert found with ID: missing")
+    expect((await harness.call("alert_delete", { rule_ids: ["missing"] })).isError).toBe(true)
+  })
+})
+
+describe("alert_check", () => {
+  test("fires rules whose target is met and explains why", async () => {
+    const fires = await createAlert({ type: "below_price", target_price: 199 })
+    const quiet = await createAlert({ type: "below_price", target_price: 180 })
+    const result = await harness.call("alert_check")
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Alert Check: 1 of 2 alerts fired")
+    expect(result.text).toContain("Best price $189.99 at amazon.com is at or below the $199.00 target")
+    expect(result.text).toContain("Best price $189.99 at amazon.com is still above the $180.00 target")
+
+    const byId = Object.fromEntries(result.json.data.results.map((item: any) => [item.rule_id, item]))
+    expect(byId[fires.id]).toMatchObject({ status: "fired", newly_fired: true, best_offer: { retailer: "amazon.com", price: 189.99 } })
+    expect(byId[quiet.id]).toMatchObject({ status: "not_fired", newly_fired: false })
+    // One offers request for both rules on the same product
+    expect(harness.api.requests.map((request) => request.path)).toEqual(["/products/offers"])
+  })
+
+  test("only reports a rule as newly fired on the first check that fires it", async () => {
+    const rule = await createAlert({ type: "below_price", target_price: 199 })
+    await harness.call("alert_check")
+    const second = await harness.call("alert_check")
+
+    expect(second.json.data.results[0]).toMatchObject({ status: "fired", newly_fired: false })
+    expect(alerts.get(account, rule.id)).toMatchObject({ firing: true, last_price: 189.99, title: "Apple AirPods Pro (2nd Generation)" })
+    // Offers are fetched fresh every time
+    expect(harness.api.requests.filter((request) => request.path === "/products/offers")).toHaveLength(2)
+  })
+
+  test("applies the rule's offer filters", async () => {
+    const anyCondition = await createAlert({ type: "below_price", target_price: 150, condition: [] })
+    const walmart = await createAlert({ type: "below_price", target_price: 999, retailers: "walmart" })
+    const result = await harness.call("alert_check")
+    const byId = Object.fromEntries(result.json.data.results.map((item: any) => [item.rule_id, item]))
+
+    expect(byId[anyCondition.id]).toMatchObject({ status: "fired", best_offer: { retailer: "ebay.com", price: 149 } })
+    expect(byId[walmart.id]).toMatchObject({ status: "no_offers", reason: "None of the 5 current offers match the rule's filters" })
+    expect(result.text).toContain("Could Not Evaluate")
+  })
+
+  test("compares below_average rules with the average daily low", async () => {
+    const rule = await createAlert({ type: "below_average", percent_below: 15, average_days: 14 })
+    harness.api.respondWith("/products/offers/history", {
+      status: 200,
+      body: {
+        success: true,
+        data: [{ shopsavvy: "1000001", title: "Apple AirPods Pro (2nd Generation)", offers: [{ retailer: "amazon.com", history: [{ timestamp: new Date().toISOString(), price: 250 }] }] }],
+        meta: { credits_used: 1, credits_remaining: 998 }
+      }
+    })
+    const result = await harness.call("alert_check", { rule_ids: [rule.id] })
+
+    expect(result.json.data.results[0]).toMatchObject({ status: "fired", average_price: 250 })
+    expect(result.text).toContain("24% under the 14-day average of $250.00 (alert at 15% under, $212.50)")
+    const historyRequest = harness.api.requests.find((request) => request.path === "/products/offers/history")!
+    expect(Date.parse(historyRequest.params.end) - Date.parse(historyRequest.params.start)).toBe(14 * 86400000)
+  })
+
+  test("reports products the API doesn't know", async () => {
+    await createAlert({ identifier: "4006381333931", type: "below_price", target_price: 10 })
+    const result = await harness.call("alert_check")
+
+    expect(result.isError).toBe(false)
+    expect(result.json.data.results[0]).toMatchObject({ status: "not_found" })
+  })
+
+  test("skips disabled rules unless asked for by ID", async () => {
+    const rule = await createAlert({ type: "below_price", target_price: 199 })
+    await harness.call("alert_update", { rule_id: rule.id, enabled: false })
+
+    expect((await harness.call("alert_check")).text).toContain("No enabled price alerts to check")
+    expect((await harness.call("alert_check", { rule_ids: [rule.id, "missing"] })).json.data).toMatchObject({
+      results: [{ rule_id: rule.id, status: "fired" }],
+      not_found: ["missing"]
+    })
+  })
+})
+
+describe("evaluateAlert", () => {
+  const rates = parseRateTable({ base: "USD", rates: { GBP: 0.8, EUR: 0.9 } })
+  const offer = (retailer: string, price: number, currency: string): Offer => ({
+    retailer, price, currency, availability: "in_stock", condition: "new", seller: null, seller_type: "retailer", url: null, converted: null
+  })
+  const offers = [offer("amazon.com", 45, "USD"), offer("argos.co.uk", 38, "GBP"), offer("amazon.de", 30, "EUR")]
+  const rule = (currency: string): AlertRule => ({
+    id: "a1", name: null, identifier: "194253397168", identifier_type: "upc_a", title: null, type: "below_price",
+    target_price: 40, currency, percent_below: null, average_days: null,
+    filters: { conditions: [], in_stock_only: false, seller_type: null, retailers: [] },
+    enabled: true, created_at: "", updated_at: "", last_checked_at: null, last_price: null, last_currency: null, firing: false, last_fired_at: null
+  })
+
+  test("compares price targets with offers converted to the target's currency", () => {
+    const evaluation = evaluateAlert(rule("GBP"), offers, [], rates)
+
+    expect(evaluation).toMatchObject({ status: "fired", best_offer: { retailer: "amazon.de", converted: { price: 26.67, currency: "GBP" } } })
+    expect(evaluation.reason).toBe("Best price €30.00 (≈ £26.67) at amazon.de is at or below the £40.00 target")
+  })
+
+  test("skips offers in currencies it has no rate for", () => {
+    expect(evaluateAlert(rule("GBP"), offers)).toMatchObject({
+      status: "fired",
+      best_offer: { retailer: "argos.co.uk", price: 38 },
+      reason: "Best price £38.00 at argos.co.uk is at or below the £40.00 target"
+    })
+    expect(evaluateAlert(rule("CAD"), offers, [], rates)).toMatchObject({
+      status: "no_offers",
+      reason: "None of the 3 matching offers are in CAD or have an exchange rate to convert them"
+    })
+  })
+})
+
+describe("JsonFileAlertStore", () => {
+  test("persists rules per account", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "shopsavvy-alerts-"))
+    try {
+      const path = join(directory, "nested", "alerts.json")
+      const store = new JsonFileAlertStore(path)
+      const rule = await createAlert({ type: "below_price", target_price: 199 })
+      store.put("first", rule)
+
+      const reloaded = new JsonFileAlertStore(path)
+      expect(reloaded.list("first")).toEqual([rule])
+      expect(reloaded.list("second")).toEqual([])
+      expect(reloaded.delete("first", rule.id)).toBe(true)
+      expect(new JsonFileAlertStore(path).list("first")).toEqual([])
+    } finally {
+      rmSync(directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test"
+import { estimateCredits, type BudgetLimits } from "../src/budget.js"
+import { MemoryCacheStore } from "../src/cache.js"
+import type { ServerOptions } from "../src/server.js"
+import { startHarness, type Harness } from "./harness.js"
+
+/** Run `body` against a fresh server with these credit limits */
+async function withBudget(budget: BudgetLimits, body: (harness: Harness) => Promise<void>, options: ServerOptions = {}) {
+  const harness = await startHarness({ budget, ...options })
+  try {
+    await body(harness)
+  } finally {
+    await harness.close()
+  }
+}
+
+describe("estimateCredits", () => {
+  test("charges one credit per product and per search", () => {
+    expect(estimateCredits("GET", "/products", { ids: "1,2,3" })).toBe(3)
+    expect(estimateCredits("GET", "/products/offers/history", { ids: "1" })).toBe(1)
+    expect(estimateCredits("GET", "/products/search", { q: "airpods" })).toBe(1)
+    expect(estimateCredits("GET", "/usage", {})).toBe(0)
+    expect(estimateCredits("PUT", "/products/scheduled", { ids: "1,2" })).toBe(0)
+  })
+})
+
+describe("hard limits", () => {
+  test("refuse requests once the session limit is reached", () =>
+    withBudget({ perSession: 2 }, async (harness) => {
+      expect((await harness.call("product_lookup", { identifier: "194253397168" })).isError).toBe(false)
+      expect((await harness.call("product_offers", { identifier: "194253397168" })).isError).toBe(false)
+      const refused = await harness.call("product_lookup", { identifier: "B09XS7JWHH" })
+
+      expect(refused.isError).toBe(true)
+      expect(refused.text).toContain("Credit limit reached: this session has used 2 of its 2 credits and this needs up to 1 more")
+      expect(harness.api.requests).toHaveLength(2)
+      // Free requests still go through
+      expect((await harness.call("scheduled_products_list")).isError).toBe(false)
+    }))
+
+  test("don't count cached responses", () =>
+    withBudget({ perSession: 1 }, async (harness) => {
+      await harness.call("product_lookup", { identifier: "194253397168" })
+      const cached = await harness.call("product_lookup", { identifier: "194253397168" })
+
+      expect(cached.isError).toBe(false)
+      expect(cached.text).toContain("served from cache")
+    }, { cache: new MemoryCacheStore() }))
+
+  test("refuse requests that would go below the credit reserve", () =>
+    withBudget({ minRemaining: 998 }, async (harness) => {
+      await harness.call("product_lookup", { identifier: "194253397168" })
+      await harness.call("product_lookup", { identifier: "B09XS7JWHH" })
+      const refused = await harness.call("product_lookup", { identifier: "9781593279509" })
+
+      expect(refused.text).toContain("998 credits are left this billing period and spending up to 1 more would go below the 998-credit reserve")
+    }))
+
+  test("stop a batch part way when the daily limit is reached", () =>
+    withBudget({ perDay: 1 }, async (harness) => {
+      const result = await harness.call("product_lookup_batch", { identifiers: ["194253397168"] })
+      expect(result.isError).toBe(false)
+
+      const refused = await harness.call("product_lookup_batch", { identifiers: ["B09XS7JWHH", "9781593279509"] })
+      expect(refused.isError).toBe(true)
+      expect(refused.text).toContain("1 of the 1 credits allowed per day have been used today and this needs up to 2 more")
+      expect(harness.api.requests).toHaveLength(1)
+    }))
+})
+
+describe("per-call limit", () => {
+  test("asks for confirmation before expensive batch calls", () =>
+    withBudget({ perCall: 2 }, async (harness) => {
+      const identifiers = ["194253397168", "B09XS7JWHH", "9781593279509", "0194253397168"]
+      const refused = await harness.call("product_lookup_batch", { identifiers })
+
+      expect(refused.isError).toBe(true)
+      expect(refused.text).toContain("This call can use up to 3 credits, more than the per-call limit of 2")
+      expect(refused.text).toContain("confirm_cost: true")
+      expect(harness.api.requests).toHaveLength(0)
+
+      const confirmed = await harness.call("product_lookup_batch", { identifiers, confirm_cost: true })
+      expect(confirmed.isError).toBe(false)
+      expect(confirmed.json.usage.credits_used).toBe(3)
+
+      expect((await harness.call("compare_offers", { identifiers })).text).toContain("per-call limit of 2")
+    }))
+
+  test("covers the lookups product_unschedule makes to tell removals apart", () =>
+    withBudget({ perCall: 1 }, async (harness) => {
+      const identifiers = ["https://www.amazon.com/dp/B0BDHWDR12", "https://www.amazon.com/dp/B09XS7JWHH"]
+      const refused = await harness.call("product_unschedule", { identifiers })
+
+      expect(refused.json.data.results.map((item: any) => item.status)).toEqual(["error", "error"])
+      expect(refused.json.data.results[0].error).toContain("This call can use up to 2 credits, more than the per-call limit of 1")
+      expect(harness.api.requests.some((request) => request.path === "/products")).toBe(false)
+
+      await harness.call("product_schedule", { identifiers: ["B09XS7JWHH"], schedule: "daily" })
+      const confirmed = await harness.call("product_unschedule", { identifiers, confirm_cost: true })
+      expect(confirmed.json.data.results.map((item: any) => item.status)).toEqual(["not_found", "found"])
+    }))
+})
+
+describe("recurring limit", () => {
+  test("asks for confirmation before schedules with a high refresh cost", () =>
+    withBudget({ recurring: 100 }, async (harness) => {
+      const hourly = await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "hourly" })
+      expect(hourly.isError).toBe(true)
+      expect(hourly.text).toContain("Monitoring 1 product hourly can use up to 720 credits every 30 days (one credit per product refresh), more than the recurring limit of 100 credits every 30 days")
+
+      const daily = await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "daily" })
+      expect(daily.isError).toBe(false)
+      expect(daily.text).toContain("**Refresh Cost:** up to 30 credits every 30 days")
+    }))
+
+  test("checks what a schedule sync adds to the refresh cost", () =>
+    withBudget({ recurring: 100 }, async (harness) => {
+      const result = await harness.call("schedule_sync", { products: [{ identifier: "B09XS7JWHH", schedule: "hourly" }], apply: true })
+
+      expect(result.isError).toBe(true)
+      expect(result.text).toContain("This sync adds up to 690 credits to the refresh cost every 30 days (from 30 to 720")
+      expect(harness.api.requests.every((request) => request.method === "GET")).toBe(true)
+    }))
+
+  test("is separate from the per-call limit", () =>
+    withBudget({ perCall: 1 }, async (harness) => {
+      const result = await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "hourly" })
+
+      expect(result.isError).toBe(false)
+      expect(result.text).not.toContain("undefined")
+    }))
+})
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { parseCsv, readIdentifierList, toCsv } from "../src/bulk.js"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness()
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("CSV", () => {
+  test("parses quoted fields, doubled quotes and CRLF line ends", () => {
+    expect(parseCsv('\uFEFFsku,title\r\n"A-1","Buds, ""Pro"""\r\n\r\nB-2,Plain\n')).toEqual([
+      ["sku", "title"],
+      ["A-1", 'Buds, "Pro"'],
+      ["B-2", "Plain"]
+    ])
+  })
+
+  test("quotes fields that need it and defuses spreadsheet formulas", () => {
+    expect(toCsv([{ title: 'Buds, "Pro"', price: 9.5, note: "=HYPERLINK()" }, { title: "Plain", price: null }])).toBe(
+      'title,price,note\r\n"Buds, ""Pro""",9.5,\'=HYPERLINK()\r\nPlain,,\r\n'
+    )
+  })
+})
+
+describe("readIdentifierList", () => {
+  test("uses the first non-empty identifier column of each row", () => {
+    const list = readIdentifierList("SKU,UPC,ASIN\nA-1,194253397168,\nA-2,,B09XS7JWHH\nA-3,,\n", "csv")
+
+    expect(list.columns).toEqual(["UPC", "ASIN"])
+    expect(list.rows).toEqual([{ row: 1, identifier: "194253397168" }, { row: 2, identifier: "B09XS7JWHH" }])
+    expect(list.skipped).toEqual([3])
+  })
+
+  test("reads the first column of a CSV without a header", () => {
+    expect(readIdentifierList("194253397168,AirPods\nB09XS7JWHH,Sony\n", "csv").rows.map((row) => row.identifier)).toEqual(["194253397168", "B09XS7JWHH"])
+  })
+
+  test("reads JSON lists of strings or of objects", () => {
+    expect(readIdentifierList('["194253397168", "B09XS7JWHH"]', "json").rows).toHaveLength(2)
+    expect(readIdentifierList('[{"sku": "A-1", "mpn": "MQD83AM/A"}]', "json", "mpn").rows).toEqual([{ row: 1, identifier: "MQD83AM/A" }])
+  })
+
+  test("explains lists it can't read", () => {
+    expect(() => readIdentifierList("sku,title\nA-1,Buds\n", "csv", "upc")).toThrow('Column "upc" not found. Available columns: sku, title')
+    expect(() => readIdentifierList('[{"sku": "A-1"}]', "json")).toThrow("No identifier column found")
+    expect(() => readIdentifierList('{"upc": "1"}', "json")).toThrow("Expected a JSON array")
+  })
+})
+
+describe("bulk_import", () => {
+  test("looks up every row of an inline CSV and saves the results", async () => {
+    const content = "sku,upc\nA-1,194253397168\nA-2,4006381333931\nA-3,B0SHORT\nA-4,0194253397168\n"
+    const result = await harness.call("bulk_import", { content, action: "lookup" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Bulk Lookup: 2 of 4 Rows Found")
+    expect(result.text).toContain("**Rows:** 2 found, 1 not found, 1 invalid")
+    expect(result.text).toContain("- Row 2 (4006381333931): not found")
+    // Rows naming the same product share one request
+    expect(harness.api.requests).toHaveLength(1)
+    expect(result.json.data.output).toMatchObject({ format: "csv", rows: 4 })
+
+    const saved = parseCsv(readFileSync(result.json.data.output.path, "utf8"))
+    expect(saved[0].slice(0, 6)).toEqual(["row", "input", "status", "error", "shopsavvy_id", "title"])
+    expect(saved[1].slice(0, 5)).toEqual(["1", "194253397168", "found", "", "1000001"])
+    expect(saved[4].slice(0, 5)).toEqual(["4", "0194253397168", "found", "", "1000001"])
+  })
+
+  test("doesn't send a retailer with lookups", async () => {
+    const result = await harness.call("bulk_import", { content: "194253397168", action: "lookup", retailer: "amazon.com" })
+
+    expect(result.text).toContain("Bulk Lookup: 1 of 1 Rows Found")
+    expect(harness.api.requests[0].params).toEqual({ ids: "194253397168" })
+  })
+
+  test("saves the best offer at each retailer from a file", async () => {
+    writeFileSync(join(harness.filesDir, "wishlist.json"), JSON.stringify([{ asin: "B09XS7JWHH" }]))
+    const result = await harness.call("bulk_import", { path: "wishlist.json", action: "offers", output_path: "out/offers.json" })
+
+    expect(result.json.data.output).toMatchObject({ path: join(harness.filesDir, "out/offers.json"), format: "json", rows: 3 })
+    const saved = JSON.parse(readFileSync(join(harness.filesDir, "out/offers.json"), "utf8"))
+    expect(saved.map((row: any) => [row.retailer, row.price])).toEqual([["bestbuy.com", 279.99], ["amazon.com", 328], ["target.com", 349.99]])
+  })
+
+  test("summarizes price history per retailer", async () => {
+    const result = await harness.call("bulk_import", { content: "9781593279509", action: "price_history", days: 30, file_format: "json" })
+
+    const saved = JSON.parse(readFileSync(result.json.data.output.path, "utf8"))
+    expect(saved[0]).toMatchObject({ row: 1, shopsavvy_id: "1000003", retailer: "all retailers" })
+    expect(saved[1].retailer).toBe("amazon.com")
+    expect(harness.api.requests[0].params).toHaveProperty("start")
+  })
+
+  test("schedules every row", async () => {
+    const result = await harness.call("bulk_import", { content: "upc\n194253397168\n", action: "schedule", schedule: "weekly" })
+
+    expect(result.text).toContain("1 of 1 Rows Scheduled")
+    expect(harness.api.requests[0]).toMatchObject({ method: "PUT", params: { schedule: "weekly" } })
+  })
+
+  test("keeps HTTP sessions inside the files directory", async () => {
+    const result = await harness.call("bulk_import", { path: "../../etc/passwd", action: "lookup" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("is outside the files directory")
+    expect((await harness.call("bulk_export", { dataset: "scheduled", output_path: "/tmp/scheduled.csv" })).text).toContain("is outside the files directory")
+  })
+
+  test("asks for confirmation before expensive imports", async () => {
+    const limited = await startHarness({ budget: { perCall: 1 } })
+    try {
+      const result = await limited.call("bulk_import", { content: "194253397168\nB09XS7JWHH\n", action: "offers" })
+
+      expect(result.text).toContain("This call can use up to 2 credits, more than the per-call limit of 1")
+      expect(limited.api.requests).toHaveLength(0)
+    } finally {
+      await limited.close()
+    }
+  })
+})
+
+describe("bulk_export", () => {
+  test("exports the monitoring schedule", async () => {
+    const result = await harness.call("bulk_export", { dataset: "scheduled" })
+
+    expect(result.text).toContain("Exported Scheduled Products")
+    expect(result.text).toContain("No credits used")
+    expect(result.json.data.output.path).toMatch(/scheduled-[\d-]+T[\d-]+\.csv$/)
+    expect(parseCsv(readFileSync(result.json.data.output.path, "utf8"))[1]).toEqual(["1000002", "Sony WH-1000XM5 Wireless Noise Canceling Headphones", "daily", "", "027242812352", "B09XS7JWHH"])
+  })
+
+  test("exports product details for the given identifiers", async () => {
+    const result = await harness.call("bulk_export", { dataset: "products", identifiers: ["194253397168", "9781593279509"] })
+
+    expect(result.text).toContain("Exported Product Details")
+    expect(result.text).toContain("**Rows:** 2 found")
+    expect(result.text).toContain("2 credits used")
+  })
+
+  test("needs identifiers for product data", async () => {
+    const result = await harness.call("bulk_export", { dataset: "offers" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Exporting offers needs identifiers")
+  })
+})
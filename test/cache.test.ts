@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { JsonFileCacheStore } from "../src/cache.js"
+import { Logger } from "../src/logger.js"
+
+let dir: string
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "shopsavvy-cache-"))
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+const entry = (value: unknown) => ({ value, storedAt: Date.now(), expiresAt: null })
+
+describe("JsonFileCacheStore", () => {
+  test("writes a burst of changes once, after a delay", async () => {
+    const path = join(dir, "nested", "cache.json")
+    const store = new JsonFileCacheStore(path, new Logger("off"), 10, 20)
+    store.set("a", entry(1))
+    store.set("b", entry(2))
+    store.delete("a")
+    expect(existsSync(path)).toBe(false)
+
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(Object.keys(JSON.parse(readFileSync(path, "utf8")))).toEqual(["b"])
+    expect(new JsonFileCacheStore(path).get("b")?.value).toBe(2)
+  })
+
+  test("writes pending changes when flushed", () => {
+    const path = join(dir, "flushed.json")
+    const store = new JsonFileCacheStore(path, new Logger("off"), 10, 60_000)
+    store.set("a", entry(1))
+    store.flush()
+
+    expect(new JsonFileCacheStore(path).get("a")?.value).toBe(1)
+  })
+
+  test("logs an unreadable file and starts empty", () => {
+    const path = join(dir, "broken.json")
+    writeFileSync(path, "{")
+    const lines: string[] = []
+    const store = new JsonFileCacheStore(path, new Logger("warn", (line) => lines.push(line)))
+
+    expect(store.get("a")).toBeUndefined()
+    expect(JSON.parse(lines[0])).toMatchObject({ level: "warn", msg: "Ignoring unreadable cache file", path, error: { name: "SyntaxError" } })
+  })
+})
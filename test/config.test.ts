@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { checkConfig, loadConfig } from "../src/config.js"
+import { ConfigError } from "../src/errors.js"
+import { startMockApi, type MockApi } from "../src/mock/api.js"
+import { createServer } from "../src/server.js"
+import { startHarness, TEST_API_KEY } from "./harness.js"
+
+let dir: string
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "shopsavvy-config-"))
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+function writeConfig(name: string, content: string) {
+  const path = join(dir, name)
+  writeFileSync(path, content)
+  return path
+}
+
+function problemsOf(load: () => unknown): string[] {
+  try {
+    load()
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems
+    throw error
+  }
+  throw new Error("Expected a ConfigError")
+}
+
+describe("YAML configuration files", () => {
+  test("reads nested mappings, lists, scalars and comments", () => {
+    const file = writeConfig("settings.yaml", [
+      "# ShopSavvy",
+      "api:",
+      `  key: '${TEST_API_KEY}'`,
+      "  base_url: https://example.com/api/v1  # trailing comment",
+      "  max_retries: 2",
+      "tools:",
+      "  disabled:",
+      "    - bulk_import",
+      "    - bulk_export",
+      "  enabled: [product_lookup, \"api_usage\"]",
+      "cache:",
+      "  path: ~"
+    ].join("\n"))
+
+    expect(loadConfig({ args: ["--config", file], env: {}, homeDir: dir })).toMatchObject({
+      apiBaseUrl: "https://example.com/api/v1",
+      maxRetries: 2,
+      disabledTools: ["bulk_import", "bulk_export"],
+      enabledTools: ["product_lookup", "api_usage"],
+      cachePath: join(dir, ".shopsavvy", "cache.json")
+    })
+  })
+
+  test.each([
+    ["api:\n  max_retries: 2\napi:\n  max_retries: 3\n", "Map keys must be unique at line 3, column 1"],
+    ["api:\n\tmax_retries: 2\n", "Tabs are not allowed as indentation at line 2, column 1"],
+    ["---\napi:\n  max_retries: 2\n---\napi:\n  max_retries: 3\n", "Source contains multiple documents"],
+    ["api:\n  key: !secret key\n", "Unresolved tag: !secret at line 2, column 8"]
+  ])("reports YAML it can't read as a configuration error: %j", (yaml, message) => {
+    const file = writeConfig("broken.yml", yaml)
+    const problems = problemsOf(() => loadConfig({ args: ["--config", file], env: {}, homeDir: dir }))
+
+    expect(problems).toHaveLength(1)
+    expect(problems[0]).toStartWith(`Configuration file ${file} is not valid YAML: ${message}`)
+  })
+})
+
+describe("loadConfig", () => {
+  test("lets env vars override the file and flags override both", () => {
+    const file = writeConfig("precedence.yaml", `api:\n  key: ${TEST_API_KEY}\ntransport:\n  type: http\n  port: 9000\n  endpoint: /file\ndefaults:\n  region: uk\n`)
+    const config = loadConfig({
+      args: ["--config", file, "--port", "9002"],
+      env: { SHOPSAVVY_PORT: "9001", SHOPSAVVY_ENDPOINT: "/env" },
+      homeDir: dir
+    })
+
+    expect(config).toMatchObject({ file, transport: "http", port: 9002, endpoint: "/env", region: "GB", apiKey: TEST_API_KEY })
+    expect(config.cachePath).toBe(join(dir, ".shopsavvy", "cache.json"))
+    expect(config.snapshotsPath).toBeUndefined()
+    expect(config.resourcePollMs).toBe(0)
+  })
+
+  test("reads JSON files and resolves their paths next to the file", () => {
+    writeFileSync(join(dir, "key.txt"), `${TEST_API_KEY}\n`)
+    const file = writeConfig("settings.json", JSON.stringify({ api: { key_file: "key.txt" }, files_dir: "exports", snapshots: { path: "prices.db" }, tools: { enabled: ["product_lookup"], profile: "read-only" } }))
+    const config = loadConfig({ args: [], env: { SHOPSAVVY_CONFIG: file }, homeDir: dir })
+
+    expect(config.apiKey).toBe(TEST_API_KEY)
+    expect(config.filesDir).toBe(join(dir, "exports"))
+    expect(config.snapshotsPath).toBe(join(dir, "prices.db"))
+    expect(config.enabledTools).toEqual(["product_lookup"])
+    expect(config.profile).toBe("read-only")
+  })
+
+  test("uses the key from the source with the highest precedence", () => {
+    const file = writeConfig("key-file.yaml", `api:\n  key_file: ${join(dir, "missing.txt")}\n`)
+
+    expect(loadConfig({ args: ["--config", file], env: { SHOPSAVVY_API_KEY: TEST_API_KEY }, homeDir: dir }).apiKey).toBe(TEST_API_KEY)
+    expect(problemsOf(() => loadConfig({ args: ["--config", file, "--api-key-file", join(dir, "missing.txt")], env: { SHOPSAVVY_API_KEY: TEST_API_KEY }, homeDir: dir }))[0])
+      .toStartWith(`Can't read the API key file ${join(dir, "missing.txt")}`)
+  })
+
+  test("reports every problem at once", () => {
+    const file = writeConfig("broken.yaml", "api:\n  base_url: shopsavvy.com\n  retries: 3\n")
+    const problems = problemsOf(() => loadConfig({ args: ["--config", file, "--cache", "disk"], env: { SHOPSAVVY_API_KEY: "ss_live_short", SHOPSAVVY_BATCH_SIZE: "-1" }, homeDir: dir }))
+
+    expect(problems).toEqual([
+      `${file}: unknown setting 'api.retries'`,
+      `${file}: api.base_url: expected an http(s) URL, got 'shopsavvy.com'`,
+      "--cache: expected one of 'memory', 'file', 'off', got 'disk'",
+      "SHOPSAVVY_BATCH_SIZE: expected a non-negative integer, got '-1'",
+      "The API key has an invalid format: it should start with 'ss_live_' or 'ss_test_' followed by 32 characters"
+    ])
+  })
+
+  test("needs a key over stdio but not over HTTP", () => {
+    expect(problemsOf(() => loadConfig({ args: [], env: {}, homeDir: dir }))[0]).toStartWith("An API key is required")
+    expect(loadConfig({ args: ["--transport", "http"], env: {}, homeDir: dir }).apiKey).toBeUndefined()
+  })
+
+  test("only accepts ports from 1 to 65535", () => {
+    const file = writeConfig("port.yaml", "transport:\n  port: 70000\n")
+    const problems = problemsOf(() => loadConfig({ args: ["--config", file, "--transport", "http", "--port", "0", "--metrics-port", "70000"], env: { SHOPSAVVY_PORT: "65536" }, homeDir: dir }))
+
+    expect(problems).toEqual([
+      `${file}: transport.port: expected a port from 1 to 65535, got '70000'`,
+      "SHOPSAVVY_PORT: expected a port from 1 to 65535, got '65536'",
+      "--port: expected a port from 1 to 65535, got '0'",
+      "--metrics-port: expected a port from 0 to 65535, got '70000'"
+    ])
+    expect(loadConfig({ args: ["--transport", "http", "--port", "65535"], env: {}, homeDir: dir }).port).toBe(65535)
+  })
+
+  test("keeps the metrics endpoint off the MCP port", () => {
+    expect(problemsOf(() => loadConfig({ args: ["--transport", "http", "--port", "9464"], env: {}, homeDir: dir }))[0]).toContain("The metrics endpoint needs its own port")
+    expect(loadConfig({ args: ["--transport", "http", "--port", "9464", "--metrics-port", "0"], env: {}, homeDir: dir }).metricsPort).toBe(0)
+  })
+
+  test("rejects unknown flags and unreadable files", () => {
+    expect(problemsOf(() => loadConfig({ args: ["--api-key", "x"], env: {}, homeDir: dir }))[0]).toContain("Unknown option '--api-key'")
+    expect(problemsOf(() => loadConfig({ args: ["--config", join(dir, "nope.yaml")], env: {}, homeDir: dir }))[0]).toStartWith("Can't read configuration file")
+  })
+})
+
+describe("checkConfig", () => {
+  let api: MockApi
+
+  beforeAll(async () => {
+    api = await startMockApi({ apiKeys: [TEST_API_KEY] })
+  })
+
+  afterAll(async () => {
+    await api.close()
+  })
+
+  test("reports the credits left for a working key", async () => {
+    const config = loadConfig({ args: ["--api-base-url", api.url], env: { SHOPSAVVY_API_KEY: TEST_API_KEY }, homeDir: dir })
+    const { ok, report } = await checkConfig(config)
+
+    expect(ok).toBe(true)
+    expect(report.at(-1)).toMatch(/^✅ API key accepted: [\d,]+ of [\d,]+ credits remaining this period$/)
+    expect(api.requests.at(-1)?.path).toBe("/usage")
+  })
+
+  test("fails for a key the API rejects", async () => {
+    const config = loadConfig({ args: ["--api-base-url", api.url, "--max-retries", "0"], env: { SHOPSAVVY_API_KEY: "ss_live_" + "b".repeat(32) }, homeDir: dir })
+    const { ok, report } = await checkConfig(config)
+
+    expect(ok).toBe(false)
+    expect(report.at(-1)).toStartWith("❌ Authentication failed (401)")
+  })
+})
+
+describe("tool selection", () => {
+  test("only offers the enabled tools", async () => {
+    const harness = await startHarness({ tools: { enabled: ["product_lookup", "api_usage"], disabled: ["api_usage"] } })
+    try {
+      const { tools } = await harness.client.listTools()
+      expect(tools.map((tool) => tool.name)).toEqual(["product_lookup"])
+    } finally {
+      await harness.close()
+    }
+  })
+
+  test("rejects tool names that don't exist", () => {
+    expect(() => createServer({ tools: { disabled: ["product_lookups"] } })).toThrow("Unknown tool: product_lookups")
+  })
+})
@@ -0,0 +1,166 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { conversionRate, parseRateTable, parseRegion, resolveMarket } from "../src/currency.js"
+import { startHarness, type Harness } from "./harness.js"
+
+const RATES = parseRateTable({ base: "USD", as_of: "2024-06-01", rates: { GBP: 0.8, EUR: 0.9, CAD: 1.35 } })
+const META = { credits_used: 1, credits_remaining: 99 }
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness({ currencyRates: RATES })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+function kettleOffers() {
+  return {
+    status: 200,
+    body: {
+      success: true,
+      data: [{
+        shopsavvy: "2000001",
+        title: "Electric Kettle",
+        offers: [
+          { retailer: "argos.co.uk", price: 40, currency: "GBP", availability: "in_stock", condition: "new" },
+          { retailer: "amazon.com", price: 45, currency: "USD", availability: "in_stock", condition: "new" }
+        ]
+      }],
+      meta: META
+    }
+  }
+}
+
+function kettleHistory() {
+  return {
+    status: 200,
+    body: {
+      success: true,
+      data: [{
+        shopsavvy: "2000001",
+        title: "Electric Kettle",
+        offers: [
+          { retailer: "argos.co.uk", currency: "GBP", history: [{ timestamp: "2024-06-01T23:30:00Z", price: 40, availability: "in_stock" }] },
+          { retailer: "amazon.com", history: [{ timestamp: "2024-06-01T12:00:00Z", price: 45, availability: "in_stock" }] }
+        ]
+      }],
+      meta: META
+    }
+  }
+}
+
+describe("regions and rates", () => {
+  test("finds regions by code or common name", () => {
+    expect(parseRegion("uk")).toMatchObject({ code: "GB", currency: "GBP", locale: "en-GB" })
+    expect(parseRegion("CA").currency).toBe("CAD")
+    expect(() => parseRegion("XX")).toThrow("Unknown region 'XX'")
+  })
+
+  test("converts through the base currency", () => {
+    expect(conversionRate("GBP", "EUR", RATES)).toBeCloseTo(1.125)
+    expect(conversionRate("USD", "USD", null)).toBe(1)
+    expect(() => conversionRate("JPY", "USD", RATES)).toThrow("no rate for JPY")
+    expect(() => conversionRate("GBP", "USD", null)).toThrow("no currency rate table is configured")
+  })
+
+  test("rejects malformed rate tables", () => {
+    expect(() => parseRateTable({ base: "USD", rates: { GBP: -1 } })).toThrow("Rate for 'GBP' should be a positive number")
+    expect(() => parseRateTable({ base: "dollars", rates: {} })).toThrow("Invalid currency 'dollars'")
+  })
+
+  test("takes the locale from the chosen region", () => {
+    const defaults = { region: parseRegion("US"), currency: null, locale: "en-US" }
+    expect(resolveMarket(defaults, "de", "eur")).toMatchObject({ region: { code: "DE" }, currency: "EUR", locale: "de-DE" })
+    expect(resolveMarket(defaults)).toEqual(defaults)
+  })
+})
+
+describe("pricing tools", () => {
+  test("send the region to the API and format prices for it", async () => {
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12", region: "UK" })
+
+    expect(harness.api.requests[0].params).toMatchObject({ country: "GB" })
+    expect(result.text).toContain("**Filters:** Region: United Kingdom")
+    expect(result.text).toContain("**ebay.com** - US$149.00")
+    expect(result.json.data).toMatchObject({ region: "GB", currency: null })
+  })
+
+  test("convert offers to one currency and rank them by the converted price", async () => {
+    harness.api.respondWith("/products/offers", kettleOffers())
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12", currency: "USD" })
+
+    expect(result.text).toContain("1. **amazon.com** - $45.00")
+    expect(result.text).toContain("2. **argos.co.uk** - £40.00 (≈ $50.00)")
+    expect(result.json.data.offers[1].converted).toEqual({ price: 50, currency: "USD", rate: 1.25 })
+  })
+
+  test("point out mixed currencies instead of ranking them", async () => {
+    harness.api.respondWith("/products/offers", kettleOffers())
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12" })
+
+    expect(result.text).toContain("Prices are in GBP, USD; pass currency to convert them")
+    expect(result.json.data.offers.every((offer: any) => offer.converted === null)).toBe(true)
+  })
+
+  test("compare products priced in different currencies", async () => {
+    const mixed = await harness.call("compare_offers", { identifiers: ["B0BDHWDR12", "B09XS7JWHH"], currency: "GBP" })
+
+    expect(mixed.text).toContain("$149.00 (≈ £119.20) (ebay.com)")
+    expect(mixed.text).toContain("**Lowest new price:** Apple AirPods Pro (2nd Generation) at $179.00 (≈ £143.20) (walmart.com)")
+  })
+
+  test("explain when a currency has no rate", async () => {
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12", currency: "JPY" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Currency conversion failed: The currency rate table has no rate for JPY")
+  })
+
+  test("reject unknown regions", async () => {
+    const result = await harness.call("product_search", { query: "airpods", region: "Narnia" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Unknown region 'Narnia'")
+    expect(harness.api.requests).toHaveLength(0)
+  })
+})
+
+describe("price history", () => {
+  test("formats dates in UTC and prices in each retailer's currency", async () => {
+    harness.api.respondWith("/products/offers/history", kettleHistory())
+    const result = await harness.call("product_price_history", { identifier: "B0BDHWDR12", start_date: "2024-06-01", end_date: "2024-06-02", region: "GB" })
+
+    expect(result.text).toContain("- 1 Jun 2024: £40.00 (in_stock)")
+    expect(result.text).toContain("- 1 Jun 2024: US$45.00 (in_stock)")
+    expect(result.text).toContain("Prices are in GBP, USD")
+    expect(harness.api.requests[0].params).toMatchObject({ country: "GB" })
+  })
+
+  test("converts every retailer's history to one currency", async () => {
+    harness.api.respondWith("/products/offers/history", kettleHistory())
+    const result = await harness.call("product_price_history", { identifier: "B0BDHWDR12", start_date: "2024-06-01", end_date: "2024-06-02", currency: "EUR" })
+
+    expect(result.text).toContain("_Converted from GBP at 1.1250 EUR per GBP_")
+    expect(result.text).toContain("- Jun 1, 2024: €45.00 (in_stock)")
+    expect(result.text).toContain("- Jun 1, 2024: €40.50 (in_stock)")
+    expect(result.json.data.retailers[0]).toMatchObject({ currency: "EUR", converted_from: { currency: "GBP" } })
+  })
+
+  test("analysis needs one currency", async () => {
+    harness.api.respondWith("/products/offers/history", kettleHistory(), kettleHistory())
+    const mixed = await harness.call("product_price_analysis", { identifier: "B0BDHWDR12", start_date: "2024-06-01", end_date: "2024-06-02" })
+
+    expect(mixed.isError).toBe(true)
+    expect(mixed.text).toContain("Price history for Electric Kettle is in GBP, USD. Pass currency")
+
+    const converted = await harness.call("product_price_analysis", { identifier: "B0BDHWDR12", start_date: "2024-06-01", end_date: "2024-06-02", currency: "GBP", region: "GB" })
+    expect(converted.text).toContain("Current best price £36.00")
+    expect(converted.json.data.price_currency).toBe("GBP")
+  })
+})
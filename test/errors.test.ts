@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+const today = new Date().toISOString().slice(0, 10)
+
+/** Every tool, with arguments for a successful call and the endpoint it calls */
+const TOOLS: [string, Record<string, unknown>, string][] = [
+  ["product_lookup", { identifier: "194253397168" }, "/products"],
+  ["product_lookup_batch", { identifiers: ["194253397168"] }, "/products"],
+  ["product_search", { query: "headphones" }, "/products/search"],
+  ["product_offers", { identifier: "194253397168" }, "/products/offers"],
+  ["product_offers_retailer", { identifier: "194253397168", retailer: "amazon.com" }, "/products/offers"],
+  ["compare_offers", { identifiers: ["194253397168", "027242812352"] }, "/products/offers"],
+  ["product_price_history", { identifier: "194253397168", start_date: "2024-01-01", end_date: today }, "/products/offers/history"],
+  ["product_price_analysis", { identifier: "194253397168" }, "/products/offers/history"],
+  ["product_schedule", { identifiers: ["194253397168"], schedule: "daily" }, "/products/scheduled"],
+  ["product_unschedule", { identifiers: ["194253397168"] }, "/products/scheduled"],
+  ["schedule_sync", { products: [{ identifier: "194253397168", schedule: "daily" }] }, "/products/scheduled"],
+  ["scheduled_products_list", {}, "/products/scheduled"],
+  ["bulk_import", { content: "upc\n194253397168\n", action: "lookup" }, "/products"],
+  ["bulk_export", { dataset: "scheduled" }, "/products/scheduled"],
+  ["api_usage", {}, "/usage"],
+  ["alert_check", {}, "/products/offers"]
+]
+
+const ERROR_STATUSES: [number, string][] = [
+  [400, "ShopSavvy API Error (400): Request failed"],
+  [401, "Authentication failed (401)"],
+  [402, "API credits exhausted"],
+  [403, "Authentication failed (403)"],
+  [404, "Not found: Request failed"],
+  [429, "Rate limited by the ShopSavvy API"],
+  [500, "ShopSavvy API server error (500)"],
+  [503, "ShopSavvy API server error (503)"]
+]
+
+const MALFORMED_BODIES: unknown[] = [
+  { success: true },
+  { success: true, data: {} },
+  { success: true, data: [{}] },
+  { success: true, data: [{ title: 5, offers: "none" }] },
+  { success: true, data: [{ offers: [null, { history: "none", price: "cheap" }] }] },
+  { success: true, data: { current_period: null } }
+]
+
+beforeAll(async () => {
+  harness = await startHarness()
+  // Give alert_check a rule to evaluate
+  await harness.call("alert_create", { identifier: "194253397168", type: "below_price", target_price: 199 })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe.each(TOOLS)("%s", (tool, args, endpoint) => {
+  test("succeeds against the fixtures", async () => {
+    const result = await harness.call(tool, args)
+
+    expect(result.isError).toBe(false)
+    expect(result.json.tool).toBe(tool)
+    expect(result.json.error).toBeUndefined()
+  })
+
+  test.each(ERROR_STATUSES)("reports HTTP %d", async (status, message) => {
+    harness.api.respondWith(endpoint, { status, body: { success: false, error: "Request failed" }, headers: { "Retry-After": "120" } })
+    const result = await harness.call(tool, args)
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain(message)
+    expect(result.json).toMatchObject({ tool, data: null })
+  })
+
+  test("reports a non-JSON response", async () => {
+    harness.api.respondWith(endpoint, { status: 200, body: "<html>Maintenance</html>" })
+    const result = await harness.call(tool, args)
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Expected a JSON response but received: <html>Maintenance</html>")
+  })
+
+  test.each(MALFORMED_BODIES)("survives malformed data %j", async (body) => {
+    harness.api.respondWith(endpoint, { status: 200, body })
+    const result = await harness.call(tool, args)
+
+    expect(result.text).not.toMatch(/is not a function|is not an object|Cannot read properties|execution failed/)
+    expect(result.json.tool).toBe(tool)
+  })
+})
+
+describe("isError", () => {
+  test.each(["markdown", "json"])("marks errors in %s output", async (format) => {
+    harness.api.respondWith("/products", { status: 500, body: { success: false, error: "Request failed" } })
+    const result = await harness.client.callTool({ name: "product_lookup", arguments: { identifier: "194253397168", format } })
+
+    expect(result.isError).toBe(true)
+  })
+
+  test("leaves results that mention a problem unmarked", async () => {
+    harness.api.respondWith("/products/offers", { status: 200, body: { success: true, data: [{ shopsavvy: "1", title: "Kettle", offers: [] }] } })
+    const result = await harness.call("product_offers", { identifier: "194253397168" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("❌ No current offers available for this product.")
+  })
+})
+
+describe("authentication", () => {
+  test("rejects HTTP sessions without an API key", async () => {
+    const keyless = await startHarness({ apiKey: undefined }).catch((error) => error)
+
+    expect(keyless).toBeInstanceOf(Error)
+    expect(keyless.code).toBe(401)
+    expect(String(keyless.message)).toContain("Missing ShopSavvy API key")
+  })
+
+  test("uses the injected key check", async () => {
+    const custom = await startHarness({ apiKey: "mock-key", validateApiKey: (key) => key === "mock-key" })
+    try {
+      await custom.call("api_usage")
+      expect(custom.api.requests.at(-1)?.apiKey).toBe("mock-key")
+    } finally {
+      await custom.close()
+    }
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Test harness: a ShopSavvy MCP server backed by the mock API, with an MCP
+ * client connected to it over the HTTP transport on localhost.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { mkdtempSync, rmSync } from "node:fs"
+import { createServer as createNetServer } from "node:net"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { startMockApi, type MockApi, type MockApiOptions } from "../src/mock/api.js"
+import { createServer, type ServerOptions } from "../src/server.js"
+
+export const TEST_API_KEY = "ss_test_" + "a".repeat(32)
+
+export interface ToolResult {
+  isError: boolean
+  /** Markdown text, when the result has a text block */
+  text: string
+  /** Parsed JSON payload, when the result has a JSON resource block */
+  json: any
+}
+
+export interface Harness {
+  api: MockApi
+  client: Client
+  /** The server's MCP endpoint, for tests that connect their own client */
+  url: URL
+  /** Temporary files directory for bulk imports and exports, removed on close */
+  filesDir: string
+  call(tool: string, args?: Record<string, unknown>): Promise<ToolResult>
+  close(): Promise<void>
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createNetServer()
+    probe.once("error", reject)
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as { port: number }
+      probe.close(() => resolve(port))
+    })
+  })
+}
+
+export async function startHarness(serverOptions: ServerOptions = {}, mockOptions: MockApiOptions = {}): Promise<Harness> {
+  const api = await startMockApi(mockOptions)
+  const filesDir = mkdtempSync(join(tmpdir(), "shopsavvy-files-"))
+  const server = createServer({ apiBaseUrl: api.url, apiKey: TEST_API_KEY, maxRetries: 0, filesDir, ...serverOptions })
+  const port = await freePort()
+  await server.start({ transportType: "httpStream", httpStream: { port, endpoint: "/mcp" } })
+
+  const url = new URL(`http://127.0.0.1:${port}/mcp`)
+  const client = new Client({ name: "shopsavvy-tests", version: "1.0.0" })
+  try {
+    await client.connect(new StreamableHTTPClientTransport(url))
+  } catch (error) {
+    await server.stop()
+    await api.close()
+    rmSync(filesDir, { recursive: true, force: true })
+    throw error
+  }
+
+  return {
+    api,
+    client,
+    url,
+    filesDir,
+    async call(tool, args = {}) {
+      const result: any = await client.callTool({ name: tool, arguments: { format: "both", ...args } })
+      const content: any[] = result.content ?? []
+      const text = content.find((block) => block.type === "text")?.text ?? ""
+      return {
+        isError: Boolean(result.isError),
+        text,
+        json: result.structuredContent
+      }
+    },
+    async close() {
+      await client.close()
+      await server.stop()
+      await api.close()
+      rmSync(filesDir, { recursive: true, force: true })
+    }
+  }
+}
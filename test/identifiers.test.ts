@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test"
+import { InvalidIdentifierError } from "../src/errors.js"
+import { cleanProductUrl, parseIdentifier, parseIdentifiers } from "../src/identifiers.js"
+
+describe("parseIdentifier", () => {
+  test.each([
+    ["012345678905", "upc_a", "012345678905"],
+    ["12345678905", "upc_a", "012345678905"],
+    ["0 12345 67890 5", "upc_a", "012345678905"],
+    ["0012345678905", "upc_a", "012345678905"],
+    ["00012345678905", "upc_a", "012345678905"],
+    ["4006381333931", "ean_13", "4006381333931"],
+    ["04006381333931", "ean_13", "4006381333931"],
+    ["10012345678902", "gtin_14", "10012345678902"],
+    ["96385074", "ean_8", "96385074"],
+    ["978-1-59327-950-9", "isbn", "9781593279509"],
+    ["0-306-40615-2", "isbn", "0306406152"],
+    ["b08n5wrwnw", "asin", "B08N5WRWNW"],
+    ["1000001", "shopsavvy_id", "1000001"],
+    ["WH1000XM5/B", "model_number", "WH1000XM5/B"],
+    ["amazon.com/dp/B08N5WRWNW?tag=x", "url", "https://amazon.com/dp/B08N5WRWNW"]
+  ])("%s is %s", (input, type, normalized) => {
+    expect(parseIdentifier(input)).toMatchObject({ type, normalized })
+  })
+
+  test.each([
+    ["012345678900", "expected 5 as the last digit"],
+    ["4006381333932", "EAN-13"],
+    ["9781593279508", "ISBN-13"],
+    ["B08N5WRW", "8 characters instead of 10"],
+    ["   ", "empty"]
+  ])("rejects %j", (input, message) => {
+    expect(() => parseIdentifier(input)).toThrow(InvalidIdentifierError)
+    expect(() => parseIdentifier(input)).toThrow(message)
+  })
+
+  test("separates valid and invalid identifiers", () => {
+    const { valid, invalid } = parseIdentifiers(["012345678905", "012345678900"])
+
+    expect(valid.map((identifier) => identifier.normalized)).toEqual(["012345678905"])
+    expect(invalid.map((error) => error.input)).toEqual(["012345678900"])
+  })
+})
+
+describe("cleanProductUrl", () => {
+  test("removes tracking parameters, fragments and ref paths", () => {
+    expect(cleanProductUrl("https://www.amazon.com/dp/B08N5WRWNW/ref=sr_1_1?th=1&psc=1&utm_source=x&gclid=y#reviews"))
+      .toBe("https://www.amazon.com/dp/B08N5WRWNW")
+  })
+
+  test("keeps parameters that identify the product", () => {
+    expect(cleanProductUrl("https://www.walmart.com/ip/123?selected=true&utm_medium=email"))
+      .toBe("https://www.walmart.com/ip/123?selected=true")
+  })
+})
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { MemoryCacheStore } from "../src/cache.js"
+import { Logger } from "../src/logger.js"
+import { Metrics, startMetricsServer, type MetricsServer } from "../src/metrics.js"
+import { startHarness, type Harness } from "./harness.js"
+
+const lines: string[] = []
+const metrics = new Metrics()
+let harness: Harness
+
+function entries() {
+  return lines.map((line) => JSON.parse(line))
+}
+
+beforeAll(async () => {
+  harness = await startHarness({ logger: new Logger("debug", (line) => lines.push(line)), metrics, cache: new MemoryCacheStore(), maxRetries: 1 })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+  lines.length = 0
+})
+
+describe("Logger", () => {
+  test("writes JSON lines at or above its level", () => {
+    const written: string[] = []
+    const logger = new Logger("warn", (line) => written.push(line)).child({ request_id: "abc" })
+    logger.info("skipped")
+    logger.error("Lookup failed", { error: new TypeError("boom") })
+
+    expect(written).toHaveLength(1)
+    expect(JSON.parse(written[0])).toMatchObject({ level: "error", msg: "Lookup failed", request_id: "abc", error: { name: "TypeError", message: "boom" } })
+  })
+
+  test("logs nothing when off", () => {
+    const written: string[] = []
+    new Logger("off", (line) => written.push(line)).error("quiet")
+    expect(written).toEqual([])
+  })
+})
+
+describe("request logging", () => {
+  test("ties a tool call's messages and API requests together with one request ID", async () => {
+    await harness.call("product_lookup", { identifier: "194253397168" })
+
+    const logged = entries()
+    const request = logged.find((entry) => entry.msg === "API request")
+    expect(request).toMatchObject({ tool: "product_lookup", method: "GET", endpoint: "/products", status: 200, attempts: 1, cached: false, credits_used: 1 })
+    expect(request.duration_ms).toBeGreaterThanOrEqual(0)
+    expect(logged.at(-1)).toMatchObject({ msg: "Tool call finished", outcome: "ok" })
+    expect(new Set(logged.map((entry) => entry.request_id)).size).toBe(1)
+    expect(logged.some((entry) => entry.msg === "Looking up product: 194253397168")).toBe(true)
+  })
+
+  test("records retries and failures", async () => {
+    harness.api.respondWith("/products", { status: 503, body: { success: false, error: "Down" } }, { status: 503, body: { success: false, error: "Down" } })
+    const result = await harness.call("product_lookup", { identifier: "B0BDHWDR12" })
+
+    expect(result.isError).toBe(true)
+    expect(entries().find((entry) => entry.msg === "API request")).toMatchObject({ level: "warn", status: 503, attempts: 2, error: "Down" })
+    expect(entries().at(-1)).toMatchObject({ level: "warn", outcome: "error" })
+  })
+
+  test("doesn't count a product that doesn't exist as a failure", async () => {
+    const result = await harness.call("product_lookup", { identifier: "4006381333931" })
+
+    expect(result.isError).toBe(false)
+    expect(entries().at(-1)).toMatchObject({ msg: "Tool call finished", outcome: "ok" })
+  })
+})
+
+describe("metrics endpoint", () => {
+  let endpoint: MetricsServer
+
+  beforeAll(async () => {
+    endpoint = await startMetricsServer(metrics, { port: 0 })
+  })
+
+  afterAll(async () => {
+    await endpoint.close()
+  })
+
+  test("serves call counts, errors, cache hits and credits per tool", async () => {
+    await harness.call("product_offers", { identifier: "027242812352" })
+    await harness.call("product_offers", { identifier: "027242812352" })
+    await harness.call("product_search", { query: "airpods" })
+
+    const response = await fetch(`http://127.0.0.1:${endpoint.port}/metrics`)
+    const text = await response.text()
+
+    expect(response.headers.get("content-type")).toStartWith("text/plain; version=0.0.4")
+    expect(text).toContain("# TYPE shopsavvy_tool_calls_total counter")
+    expect(text).toContain('shopsavvy_tool_calls_total{tool="product_offers"} 2')
+    expect(text).toContain('shopsavvy_api_requests_total{tool="product_offers",endpoint="/products/offers",status="200"} 1')
+    expect(text).toContain('shopsavvy_cache_hits_total{tool="product_offers",endpoint="/products/offers"} 1')
+    expect(text).toContain('shopsavvy_credits_used_total{tool="product_offers"} 1')
+    expect(text).toContain('shopsavvy_tool_errors_total{tool="product_lookup"} 1')
+    expect(text).toMatch(/shopsavvy_api_retries_total\{tool="product_lookup",endpoint="\/products"\} 1/)
+    expect(text).toMatch(/shopsavvy_tool_duration_seconds_count\{tool="product_search"\} 1/)
+    expect((await fetch(`http://127.0.0.1:${endpoint.port}/other`)).status).toBe(404)
+  })
+})
@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { ConfirmationStore } from "../src/permissions.js"
+import { startHarness, type Harness } from "./harness.js"
+
+const MUTATING_TOOLS = ["product_schedule", "product_unschedule", "schedule_sync", "alert_create", "alert_update", "alert_delete", "bulk_import"]
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness({ profile: "confirm" })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("ConfirmationStore", () => {
+  test("accepts a token once, for the session, tool and arguments it was issued for", () => {
+    const store = new ConfirmationStore()
+    const session = {}
+    const { token } = store.issue(session, "product_schedule", { identifiers: ["1000001"], schedule: "daily" })
+
+    expect(store.redeem(token, {}, "product_schedule", { identifiers: ["1000001"], schedule: "daily" })).toContain("unknown or has expired")
+    expect(store.redeem(token, session, "product_unschedule", { identifiers: ["1000001"], schedule: "daily" })).toContain("issued for product_schedule")
+    expect(store.redeem(token, session, "product_schedule", { identifiers: ["1000001"], schedule: "hourly" })).toContain("arguments differ")
+    expect(store.redeem(token, session, "product_schedule", { schedule: "daily", identifiers: ["1000001"], retailer: undefined })).toBeNull()
+    expect(store.redeem(token, session, "product_schedule", { identifiers: ["1000001"], schedule: "daily" })).toContain("unknown or has expired")
+  })
+
+  test("forgets tokens once they expire", () => {
+    let now = 0
+    const store = new ConfirmationStore(1000, () => now)
+    const session = {}
+    const { token, expires_at } = store.issue(session, "product_unschedule", { identifiers: ["1000002"] })
+
+    expect(expires_at).toBe("1970-01-01T00:00:01.000Z")
+    now = 1000
+    expect(store.redeem(token, session, "product_unschedule", { identifiers: ["1000002"] })).toContain("unknown or has expired")
+  })
+})
+
+describe("annotations", () => {
+  test("mark which tools change something", async () => {
+    const { tools } = await harness.client.listTools()
+
+    expect(tools).toHaveLength(21)
+    tools.forEach((tool) => {
+      expect(tool.annotations).toMatchObject({ readOnlyHint: !MUTATING_TOOLS.includes(tool.name) })
+      expect(typeof tool.annotations?.destructiveHint).toBe("boolean")
+      expect(typeof tool.annotations?.idempotentHint).toBe("boolean")
+    })
+    expect(tools.find((tool) => tool.name === "product_unschedule")?.annotations).toMatchObject({ destructiveHint: true, idempotentHint: true })
+  })
+
+  test("the read-only profile only offers tools that change nothing", async () => {
+    const readOnly = await startHarness({ profile: "read-only" })
+    try {
+      const { tools } = await readOnly.client.listTools()
+      // bulk_import stays, without its schedule action
+      expect(tools.map((tool) => tool.name).sort()).toEqual([
+        "alert_check",
+        "alert_list",
+        "api_usage",
+        "bulk_export",
+        "bulk_import",
+        "compare_offers",
+        "local_price_history",
+        "product_lookup",
+        "product_lookup_batch",
+        "product_offers",
+        "product_offers_retailer",
+        "product_price_analysis",
+        "product_price_history",
+        "product_search",
+        "scheduled_products_list"
+      ])
+      expect(tools.every((tool) => tool.annotations?.readOnlyHint)).toBe(true)
+      const bulkImport = tools.find((tool) => tool.name === "bulk_import") as any
+      expect(bulkImport.inputSchema.properties.action.enum).toEqual(["lookup", "offers", "price_history"])
+      expect(tools.map((tool) => tool.name)).toContain("bulk_export")
+
+      const lookup = await readOnly.call("bulk_import", { content: "194253397168", action: "lookup" })
+      expect(lookup.text).toContain("Bulk Lookup: 1 of 1 Rows Found")
+      await expect(readOnly.call("bulk_import", { content: "194253397168", action: "schedule", schedule: "daily" })).rejects.toThrow("Invalid option")
+      expect(readOnly.api.requests.every((request) => request.method === "GET")).toBe(true)
+    } finally {
+      await readOnly.close()
+    }
+  })
+})
+
+describe("confirm profile", () => {
+  test("previews scheduling and schedules with the token", async () => {
+    const args = { identifiers: ["194253397168", "B0SHORT"], schedule: "daily" }
+    const preview = await harness.call("product_schedule", args)
+
+    expect(preview.isError).toBe(false)
+    expect(preview.text).toContain("## ⏰ Schedule 1 Products? (preview)")
+    expect(preview.text).toContain("**Refresh Cost:** up to 30 credits every 30 days")
+    expect(preview.text).toContain("**Nothing was changed yet.**")
+    expect(preview.json.data.invalid_identifiers[0].input).toBe("B0SHORT")
+    expect(harness.api.requests).toHaveLength(0)
+
+    const token = preview.json.data.confirmation.token
+    const scheduled = await harness.call("product_schedule", { ...args, confirmation_token: token })
+    expect(scheduled.text).toContain("Scheduled 1 of 2 Products")
+    expect(harness.api.requests.at(-1)).toMatchObject({ method: "PUT", params: { schedule: "daily" } })
+
+    const reused = await harness.call("product_schedule", { ...args, confirmation_token: token })
+    expect(reused.isError).toBe(true)
+    expect(reused.text).toContain("unknown or has expired")
+  })
+
+  test("refuses a token for other arguments", async () => {
+    const preview = await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "weekly" })
+    const result = await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "hourly", confirmation_token: preview.json.data.confirmation.token })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("The arguments differ from the previewed ones")
+    expect(harness.api.requests).toHaveLength(0)
+  })
+
+  test("previews which scheduled products an unschedule removes", async () => {
+    const preview = await harness.call("product_unschedule", { identifiers: ["027242812352", "194253397168"] })
+
+    expect(preview.text).toContain("1. 027242812352 (UPC-A): Sony WH-1000XM5 Wireless Noise Canceling Headphones, daily")
+    expect(preview.text).toContain("2. 194253397168 (UPC-A): not found in the schedule by this identifier")
+    expect(preview.json.data.identifiers[0].scheduled).toMatchObject({ shopsavvy_id: "1000002", schedule: "daily" })
+    expect(harness.api.requests.map((request) => request.method)).toEqual(["GET"])
+
+    const removed = await harness.call("product_unschedule", { identifiers: ["027242812352", "194253397168"], confirmation_token: preview.json.data.confirmation.token })
+    expect(removed.text).toContain("Removed 1 of 2 products")
+  })
+
+  test("shows the sync plan before applying it", async () => {
+    const args = { products: [{ identifier: "194253397168", schedule: "weekly" }], apply: true }
+    const preview = await harness.call("schedule_sync", args)
+
+    expect(preview.text).toContain("## 🔄 Schedule Sync Plan (preview)")
+    expect(preview.json.data.applied).toBe(false)
+    expect(harness.api.requests.every((request) => request.method === "GET")).toBe(true)
+
+    const applied = await harness.call("schedule_sync", { ...args, confirmation_token: preview.json.data.confirmation.token })
+    expect(applied.text).toContain("Schedule Synced: 2 of 2 Changes Applied")
+    expect(applied.json.data.confirmation).toBeNull()
+  })
+
+  test("previews bulk scheduling without writing a file", async () => {
+    const args = { content: "upc\n194253397168\n027242812352\n", action: "schedule", schedule: "weekly" }
+    const preview = await harness.call("bulk_import", args)
+
+    expect(preview.text).toContain("## 📦 Bulk Scheduling: 2 Rows? (preview)")
+    expect(preview.text).toContain("**Refresh Cost:** up to 10 credits every 30 days")
+    expect(preview.json.data.output).toBeUndefined()
+    expect(harness.api.requests).toHaveLength(0)
+
+    const imported = await harness.call("bulk_import", { ...args, confirmation_token: preview.json.data.confirmation.token })
+    expect(imported.text).toContain("2 of 2 Rows Scheduled")
+  })
+
+  test("doesn't ask before read-only actions", async () => {
+    const result = await harness.call("bulk_import", { content: "upc\n194253397168\n", action: "lookup" })
+
+    expect(result.text).toContain("1 of 1 Rows Found")
+  })
+})
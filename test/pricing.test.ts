@@ -0,0 +1,221 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+const today = new Date().toISOString().slice(0, 10)
+const daysAgo = (days: number) => new Date(Date.now() - days * 86400000).toISOString().slice(0, 10)
+
+beforeAll(async () => {
+  harness = await startHarness()
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("product_offers", () => {
+  test("lists every offer, cheapest first", async () => {
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("**5 offers found:**")
+    expect(result.json.data.offers.map((offer: any) => offer.price)).toEqual([149, 159.5, 179, 189.99, 199.99])
+    expect(result.json.data.offers[0]).toMatchObject({ retailer: "ebay.com", condition: "refurbished", currency: "USD" })
+  })
+
+  test("filters by condition, stock, retailer and price", async () => {
+    const result = await harness.call("product_offers", {
+      identifier: "B0BDHWDR12",
+      condition: ["new"],
+      in_stock_only: true,
+      exclude_retailers: "bestbuy",
+      max_price: 195
+    })
+
+    expect(result.text).toContain("Showing 1 of 5 offers")
+    expect(result.json.data.offers).toHaveLength(1)
+    expect(result.json.data.offers[0]).toMatchObject({ retailer: "amazon.com", price: 189.99, seller_type: "retailer" })
+  })
+
+  test("explains when no offer matches the filters", async () => {
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12", max_price: 10 })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("None of the 5 current offers match these filters")
+    expect(result.json.data.offers).toEqual([])
+  })
+
+  test("handles a product without offers", async () => {
+    harness.api.respondWith("/products/offers", { status: 200, body: { success: true, data: [{ shopsavvy: "1", title: "Bare product" }], meta: { credits_used: 1, credits_remaining: 5 } } })
+    const result = await harness.call("product_offers", { identifier: "B0BDHWDR12" })
+
+    expect(result.text).toContain("No current offers available for this product")
+    expect(result.json.data).toMatchObject({ total_offers: 0, offers: [] })
+  })
+})
+
+describe("product_offers_retailer", () => {
+  test("asks the API for one retailer's offers", async () => {
+    const result = await harness.call("product_offers_retailer", { identifier: "194253397168", retailer: "bestbuy.com" })
+
+    expect(result.isError).toBe(false)
+    expect(harness.api.requests.at(-1)?.params.retailer).toBe("bestbuy.com")
+    expect(result.json.data.offers).toHaveLength(1)
+    expect(result.text).toContain("$199.99")
+  })
+
+  test("reports a retailer without offers", async () => {
+    const result = await harness.call("product_offers_retailer", { identifier: "194253397168", retailer: "target.com" })
+
+    expect(result.text).toContain("No current offers available from target.com")
+  })
+
+  test("falls back to the server's default retailer", async () => {
+    const result = await harness.call("product_offers_retailer", { identifier: "194253397168" })
+    expect(result.text).toContain("No retailer given and the server has no default retailer")
+
+    const withDefault = await startHarness({ defaultRetailer: "walmart.com" })
+    try {
+      await withDefault.call("product_offers_retailer", { identifier: "194253397168" })
+      expect(withDefault.api.requests.at(-1)?.params.retailer).toBe("walmart.com")
+    } finally {
+      await withDefault.close()
+    }
+  })
+})
+
+describe("compare_offers", () => {
+  test("compares products side by side in one request", async () => {
+    const result = await harness.call("compare_offers", { identifiers: ["194253397168", "027242812352"] })
+
+    expect(result.isError).toBe(false)
+    expect(harness.api.requests).toHaveLength(1)
+    expect(result.text).toContain("| Product | Best New |")
+    expect(result.text).toContain("**Lowest new price:** Apple AirPods Pro (2nd Generation)")
+    const [airpods, sony] = result.json.data.products
+    expect(airpods.best_new.price).toBe(179)
+    expect(airpods.best_used.price).toBe(149)
+    expect(airpods.cheapest_in_stock.price).toBe(149)
+    expect(sony.best_used).toMatchObject({ retailer: "bestbuy.com", condition: "used" })
+  })
+
+  test("limits the comparison to trusted retailers and skips invalid identifiers", async () => {
+    const result = await harness.call("compare_offers", { identifiers: ["194253397168", "194253397160"], retailers: "amazon.com" })
+
+    expect(result.text).toContain("**Results:** 1 found, 1 invalid")
+    expect(result.json.data.invalid_identifiers[0].input).toBe("194253397160")
+    expect(result.json.data.products[0]).toMatchObject({ retailer_count: 1, offer_count: 2 })
+  })
+
+  test("reports which products weren't found", async () => {
+    const result = await harness.call("compare_offers", { identifiers: ["194253397168", "4006381333931", "0194253397168"] })
+
+    expect(result.text).toContain("**Results:** 1 found, 1 not found (1 duplicate skipped)")
+    expect(result.text).toContain("**Not found:** 4006381333931")
+    expect(result.json.data.results.map((item: any) => item.status)).toEqual(["found", "not_found"])
+    expect(harness.api.requests[0].params.ids).toBe("194253397168,4006381333931")
+  })
+
+  test("splits long lists into chunks", async () => {
+    const chunked = await startHarness({ batch: { chunkSize: 1, concurrency: 1 } })
+    try {
+      const result = await chunked.call("compare_offers", { identifiers: ["194253397168", "027242812352"] })
+
+      expect(chunked.api.requests).toHaveLength(2)
+      expect(result.json.data.products).toHaveLength(2)
+      expect(result.json.usage).toMatchObject({ credits_used: 2 })
+    } finally {
+      await chunked.close()
+    }
+  })
+
+  test("reports when none of the products exist", async () => {
+    const result = await harness.call("compare_offers", { identifiers: ["4006381333931", "B0000000X1"] })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("No products found for identifiers: 4006381333931, B0000000X1")
+  })
+})
+
+describe("product_price_history", () => {
+  test("returns price points per retailer within the range", async () => {
+    const result = await harness.call("product_price_history", { identifier: "194253397168", start_date: daysAgo(9), end_date: today })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("### amazon.com")
+    expect(result.text).toContain("**10 price points:**")
+    expect(result.json.data.retailers).toHaveLength(2)
+    expect(result.json.data.retailers[0].history).toHaveLength(10)
+  })
+
+  test("reports an empty date range", async () => {
+    const result = await harness.call("product_price_history", { identifier: "194253397168", start_date: "2001-01-01", end_date: "2001-01-31" })
+
+    expect(result.text).toContain("No historical data available")
+  })
+
+  test("skips price points without a usable timestamp", async () => {
+    harness.api.respondWith("/products/offers/history", {
+      status: 200,
+      body: {
+        success: true,
+        data: [{
+          shopsavvy: "1000001",
+          title: "Apple AirPods Pro (2nd Generation)",
+          offers: [{ retailer: "amazon.com", history: [{ timestamp: "not a date", price: 199 }, { price: 189 }, { timestamp: `${daysAgo(1)}T12:00:00Z`, price: 179 }] }]
+        }],
+        meta: { credits_used: 1, credits_remaining: 998 }
+      }
+    })
+    const result = await harness.call("product_price_history", { identifier: "194253397168", start_date: daysAgo(9), end_date: today })
+
+    expect(result.isError).toBe(false)
+    expect(result.json.data.retailers[0].history).toEqual([{ timestamp: `${daysAgo(1)}T12:00:00.000Z`, price: 179, availability: null }])
+  })
+
+  test("rejects dates that aren't YYYY-MM-DD before calling the API", async () => {
+    const result = await harness.call("product_price_history", { identifier: "194253397168", start_date: "2024-02-30", end_date: "2024-03-31" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain('start_date must be a date in YYYY-MM-DD format, got "2024-02-30"')
+    expect(harness.api.requests).toHaveLength(0)
+  })
+})
+
+describe("product_price_analysis", () => {
+  test("summarizes the last 90 days with a verdict", async () => {
+    const result = await harness.call("product_price_analysis", { identifier: "194253397168" })
+
+    expect(result.isError).toBe(false)
+    expect(harness.api.requests.at(-1)?.params).toMatchObject({ start: daysAgo(90), end: today })
+    expect(result.text).toContain("### Verdict:")
+    expect(result.text).toContain("### Weekly Lows")
+    expect(result.json.data.overall.points).toBe(91)
+    expect(result.json.data.retailers.map((stats: any) => stats.retailer)).toEqual(["amazon.com", "bestbuy.com"])
+    expect(["great", "good", "fair", "wait"]).toContain(result.json.data.verdict.rating)
+  })
+
+  test("gives an unknown verdict without history", async () => {
+    const result = await harness.call("product_price_analysis", { identifier: "194253397168", start_date: "2001-01-01", end_date: "2001-01-31" })
+
+    expect(result.json.data.verdict.rating).toBe("unknown")
+    expect(result.text).toContain("No price history available")
+  })
+
+  test("reports an invalid end date instead of throwing", async () => {
+    for (const end_date of ["2024-13-45", "yesterday"]) {
+      const result = await harness.call("product_price_analysis", { identifier: "194253397168", end_date })
+
+      expect(result.isError).toBe(true)
+      expect(result.text).toContain(`end_date must be a date in YYYY-MM-DD format, got "${end_date}"`)
+    }
+    const reversed = await harness.call("product_price_analysis", { identifier: "194253397168", start_date: "2024-03-01", end_date: "2024-02-01" })
+    expect(reversed.text).toContain("start_date 2024-03-01 is after end_date 2024-02-01")
+    expect(harness.api.requests).toHaveLength(0)
+  })
+})
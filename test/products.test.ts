@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { matchProducts } from "../src/batch.js"
+import { parseIdentifiers } from "../src/identifiers.js"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness()
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("product_lookup", () => {
+  test("returns the product with its detected identifier type", async () => {
+    const result = await harness.call("product_lookup", { identifier: "19425339716 8" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Apple AirPods Pro (2nd Generation)")
+    expect(result.text).toContain("**Identifier:** 194253397168 (UPC-A)")
+    expect(result.json.data.identifier).toEqual({ input: "19425339716 8", type: "upc_a", normalized: "194253397168" })
+    expect(result.json.data.product.asin).toBe("B0BDHWDR12")
+    expect(result.json.usage).toEqual({ credits_used: 1, credits_remaining: 999, cached: false })
+  })
+
+  test("strips tracking parameters from product URLs", async () => {
+    const result = await harness.call("product_lookup", { identifier: "https://www.amazon.com/dp/B0BDHWDR12/ref=sr_1_1?tag=deals-20&utm_source=mail" })
+
+    expect(result.isError).toBe(false)
+    expect(harness.api.requests.at(-1)?.params.ids).toBe("https://www.amazon.com/dp/B0BDHWDR12")
+  })
+
+  test("reports a product that doesn't exist", async () => {
+    const result = await harness.call("product_lookup", { identifier: "4006381333931" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toBe("❌ No product found for identifier: 4006381333931")
+    expect(result.json).toMatchObject({ data: null, not_found: "No product found for identifier: 4006381333931" })
+    expect(result.json.error).toBeUndefined()
+  })
+
+  test("rejects a bad check digit without calling the API", async () => {
+    const result = await harness.call("product_lookup", { identifier: "194253397160" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("expected 8 as the last digit")
+    expect(harness.api.requests).toHaveLength(0)
+  })
+
+  test("supports markdown-only output", async () => {
+    const result = await harness.call("product_lookup", { identifier: "B09XS7JWHH", format: "markdown" })
+
+    expect(result.text).toContain("Sony WH-1000XM5")
+    expect(result.json).toBeUndefined()
+  })
+
+  test("returns JSON as structured content, serialized in the text for other clients", async () => {
+    const result = await harness.call("product_lookup", { identifier: "B09XS7JWHH", format: "json" })
+
+    expect(result.json).toMatchObject({ tool: "product_lookup", data: { product: { shopsavvy_id: "1000002" } } })
+    expect(JSON.parse(result.text)).toEqual(result.json)
+  })
+})
+
+describe("product_lookup_batch", () => {
+  test("reports each identifier as found, not found or invalid", async () => {
+    const result = await harness.call("product_lookup_batch", {
+      identifiers: ["194253397168", "B09XS7JWHH", "4006381333931", "B0BAD", "0194253397168"]
+    })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Found 2 of 4 Products")
+    expect(result.text).toContain("2 found, 1 not found, 1 invalid (1 duplicate skipped)")
+    expect(result.json.data.results.map((item: any) => [item.input, item.status])).toEqual([
+      ["194253397168", "found"],
+      ["B09XS7JWHH", "found"],
+      ["4006381333931", "not_found"],
+      ["B0BAD", "invalid"]
+    ])
+    expect(result.json.data.results[1].result.title).toContain("Sony")
+  })
+
+  test("only gives products no identifier field matches to URLs, ISBNs and model numbers", () => {
+    const { valid } = parseIdentifiers(["012345678905", "https://www.amazon.com/dp/B08N5WRWNW", "978-1-59327-950-9", "wh 1000xm4"])
+    const echo = { shopsavvy: "2000001", title: "Echo Dot", amazon: "B08N5WRWNW" }
+    const book = { shopsavvy: "1000003", title: "Eloquent JavaScript", barcode: "9781593279509" }
+    const headphones = { shopsavvy: "1000004", title: "Sony WH-1000XM4", model: "WH-1000XM4/B" }
+
+    expect(matchProducts(valid, [echo, book, headphones])).toEqual([null, echo, book, headphones])
+    expect(matchProducts(valid.slice(0, 1), [echo])).toEqual([null])
+  })
+
+  test("still accepts a comma-separated string", async () => {
+    const result = await harness.call("product_lookup_batch", { identifiers: "194253397168, B09XS7JWHH" })
+
+    expect(result.json.data.results.every((item: any) => item.status === "found")).toBe(true)
+  })
+
+  test("splits long lists into chunks and merges usage", async () => {
+    const chunked = await startHarness({ batch: { chunkSize: 1, concurrency: 2 } })
+    try {
+      const result = await chunked.call("product_lookup_batch", { identifiers: ["194253397168", "B09XS7JWHH", "9781593279509"] })
+
+      expect(chunked.api.requests).toHaveLength(3)
+      expect(result.json.data.results.every((item: any) => item.status === "found")).toBe(true)
+      expect(result.json.usage).toEqual({ credits_used: 3, credits_remaining: 997, cached: false })
+    } finally {
+      await chunked.close()
+    }
+  })
+
+  test("marks only the failing chunk as errored", async () => {
+    const chunked = await startHarness({ batch: { chunkSize: 1, concurrency: 1 } })
+    try {
+      chunked.api.respondWith("/products", { status: 500, body: { success: false, error: "Database unavailable" } })
+      const result = await chunked.call("product_lookup_batch", { identifiers: ["194253397168", "B09XS7JWHH"] })
+
+      expect(result.isError).toBe(false)
+      expect(result.json.data.results.map((item: any) => item.status)).toEqual(["error", "found"])
+      expect(result.json.data.results[0].error).toContain("Database unavailable")
+    } finally {
+      await chunked.close()
+    }
+  })
+
+  test("fails when every identifier errors", async () => {
+    harness.api.respondWith("/products", { status: 401, body: { success: false, error: "Invalid API key" } })
+    const result = await harness.call("product_lookup_batch", { identifiers: ["194253397168"] })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Authentication failed (401)")
+  })
+})
+
+describe("product_search", () => {
+  test("returns matching products with pagination details", async () => {
+    const result = await harness.call("product_search", { query: "headphones", limit: 1 })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("results 1-1 of 2")
+    expect(result.text).toContain("call again with offset 1")
+    expect(result.json.data).toMatchObject({ query: "headphones", offset: 0, limit: 1, total: 2, has_more: true })
+    expect(harness.api.requests.at(-1)?.params).toMatchObject({ q: "headphones", limit: "1", offset: "0" })
+  })
+
+  test("passes filters through to the API", async () => {
+    const result = await harness.call("product_search", { query: "headphones", brand: "Sony", max_price: 400 })
+
+    expect(result.json.data.products.map((product: any) => product.brand)).toEqual(["Sony"])
+    expect(harness.api.requests.at(-1)?.params).toMatchObject({ brand: "Sony", max_price: "400" })
+  })
+
+  test("reports when nothing matches", async () => {
+    const result = await harness.call("product_search", { query: "toaster" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toBe("❌ No products found matching: toaster")
+  })
+})
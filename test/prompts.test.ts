@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness()
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+async function promptText(name: string, args: Record<string, string>) {
+  const result = await harness.client.getPrompt({ name, arguments: args })
+  expect(result.messages).toHaveLength(1)
+  expect(result.messages[0].role).toBe("user")
+  return String((result.messages[0].content as any).text)
+}
+
+/** Assert that `text` mentions the tools in this order */
+function expectToolOrder(text: string, tools: string[]) {
+  const positions = tools.map((tool) => text.indexOf(`\`${tool}\``))
+  expect(positions.every((position) => position >= 0)).toBe(true)
+  expect(positions).toEqual([...positions].sort((a, b) => a - b))
+}
+
+describe("prompts", () => {
+  test("are listed with their arguments", async () => {
+    const { prompts } = await harness.client.listPrompts()
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["best_deal", "good_time_to_buy", "track_wishlist", "audit_monitoring"])
+    expect(prompts[0].arguments).toContainEqual(expect.objectContaining({ name: "product", required: true }))
+    expect(prompts[3].arguments?.map((argument) => argument.name)).toEqual(["budget"])
+  })
+
+  test("require their required arguments", async () => {
+    await expect(harness.client.getPrompt({ name: "best_deal", arguments: {} })).rejects.toThrow("product")
+  })
+
+  test("best_deal searches by name before fetching offers", async () => {
+    const text = await promptText("best_deal", { product: "airpods pro", condition: "any" })
+
+    expectToolOrder(text, ["product_search", "product_offers"])
+    expect(text).toContain('query "airpods pro"')
+    expect(text).not.toContain("condition:")
+  })
+
+  test("best_deal goes straight to offers for identifiers", async () => {
+    const text = await promptText("best_deal", { product: "0194253397168", retailers: "amazon.com" })
+
+    expect(text).toContain('Call `product_offers` for 194253397168 (UPC-A) with condition: ["new"], retailers: "amazon.com"')
+    expect(text.indexOf("`product_offers`")).toBeLessThan(text.indexOf("`product_search`"))
+  })
+
+  test("good_time_to_buy analyzes history before checking offers", async () => {
+    const text = await promptText("good_time_to_buy", { identifier: "B0BDHWDR12", days: "30", target_price: "$180" })
+    const start = new Date(Date.now() - 30 * 86400000).toISOString().slice(0, 10)
+
+    expectToolOrder(text, ["product_price_analysis", "product_offers", "product_schedule", "alert_create"])
+    expect(text).toContain(`start_date: "${start}"`)
+    expect(text).toContain("The user hopes to pay $180")
+  })
+
+  test("track_wishlist looks up, schedules and confirms in batches", async () => {
+    const text = await promptText("track_wishlist", { items: "194253397168, B0BDHWDR12\nsony headphones", schedule: "weekly", target_prices: "AirPods under 180" })
+
+    expectToolOrder(text, ["product_search", "product_lookup_batch", "product_schedule", "alert_create", "scheduled_products_list"])
+    expect(text).toContain('identifiers ["194253397168","B0BDHWDR12"]')
+    expect(text).toContain('("sony headphones")')
+    expect(text).toContain('schedule: "weekly"')
+  })
+
+  test("audit_monitoring reads usage, schedule and alerts without changing them", async () => {
+    const text = await promptText("audit_monitoring", { budget: "500" })
+
+    expectToolOrder(text, ["api_usage", "scheduled_products_list", "alert_list"])
+    expect(text).toContain("budget of 500 credits")
+    expect(text).toContain("ask the user to confirm first")
+  })
+
+  test("complete identifiers from products seen in earlier calls", async () => {
+    await harness.call("product_lookup", { identifier: "194253397168" })
+    const result = await harness.client.complete({
+      ref: { type: "ref/prompt", name: "good_time_to_buy" },
+      argument: { name: "identifier", value: "100" }
+    })
+
+    expect(result.completion.values).toContain("1000001")
+  })
+})
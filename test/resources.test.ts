@@ -0,0 +1,161 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness()
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+async function readJson(uri: string) {
+  const result = await harness.client.readResource({ uri })
+  expect(result.contents[0].mimeType).toBe("application/json")
+  return JSON.parse(String(result.contents[0].text))
+}
+
+/** Wait until `condition` holds, polling every 10ms */
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition")
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+describe("resource templates", () => {
+  test("are listed", async () => {
+    const { resourceTemplates } = await harness.client.listResourceTemplates()
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      "shopsavvy://product/{identifier}/offers",
+      "shopsavvy://product/{identifier}/history{?start,end,retailer}",
+      "shopsavvy://product/{identifier}"
+    ])
+  })
+
+  test("read product details", async () => {
+    const data = await readJson("shopsavvy://product/194253397168")
+
+    expect(data.identifier).toMatchObject({ type: "upc_a", normalized: "194253397168" })
+    expect(data.product).toMatchObject({ shopsavvy_id: "1000001", asin: "B0BDHWDR12" })
+  })
+
+  test("read offers cheapest first", async () => {
+    const data = await readJson(`shopsavvy://product/${encodeURIComponent("https://www.amazon.com/dp/B0BDHWDR12?ref=x")}/offers`)
+
+    expect(data.product.shopsavvy_id).toBe("1000001")
+    expect(data.offers.map((offer: any) => offer.price)).toEqual([149, 159.5, 179, 189.99, 199.99])
+    expect(harness.api.requests.at(-1)).toMatchObject({ path: "/products/offers", params: { ids: "https://www.amazon.com/dp/B0BDHWDR12" } })
+  })
+
+  test("read price history with query parameters", async () => {
+    const data = await readJson("shopsavvy://product/1000001/history?start=2020-01-01&retailer=bestbuy.com")
+
+    expect(data).toMatchObject({ start_date: "2020-01-01", retailer: "bestbuy.com" })
+    expect(data.history.map((series: any) => series.retailer)).toEqual(["bestbuy.com"])
+    expect(harness.api.requests.at(-1)?.params).toMatchObject({ start: "2020-01-01", retailer: "bestbuy.com" })
+  })
+
+  test("report unknown products and invalid identifiers", async () => {
+    await expect(harness.client.readResource({ uri: "shopsavvy://product/4006381333931" })).rejects.toThrow("No product found for identifier: 4006381333931")
+    await expect(harness.client.readResource({ uri: "shopsavvy://product/194253397169" })).rejects.toThrow("Invalid identifier")
+  })
+})
+
+describe("resources", () => {
+  test("read the schedule", async () => {
+    const data = await readJson("shopsavvy://scheduled")
+
+    expect(data.products).toEqual([expect.objectContaining({ shopsavvy_id: "1000002", schedule: "daily" })])
+  })
+
+  test("list products seen in earlier calls and announce new ones", async () => {
+    let listChanged = 0
+    harness.client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      listChanged++
+    })
+
+    await harness.call("product_search", { query: "Eloquent JavaScript" })
+    const { resources } = await harness.client.listResources()
+
+    expect(resources[0].uri).toBe("shopsavvy://scheduled")
+    expect(resources).toContainEqual(expect.objectContaining({ uri: "shopsavvy://product/1000003", name: "Eloquent JavaScript, 3rd Edition" }))
+    await waitFor(() => listChanged > 0)
+  })
+})
+
+describe("subscriptions", () => {
+  let watching: Harness
+
+  beforeAll(async () => {
+    watching = await startHarness({ resourcePollMs: 25 })
+  })
+
+  afterAll(async () => {
+    await watching.close()
+  })
+
+  test("are advertised", () => {
+    expect(watching.client.getServerCapabilities()?.resources).toMatchObject({ subscribe: true, listChanged: true })
+  })
+
+  test("notify when a scheduled product's offers change", async () => {
+    const updated: string[] = []
+    watching.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri)
+    })
+    const offersRequests = () => watching.api.requests.filter((request) => request.path === "/products/offers")
+
+    // 1000001 isn't scheduled, so only 1000002's offers are polled
+    await watching.client.subscribeResource({ uri: "shopsavvy://product/1000001/offers" })
+    await watching.client.subscribeResource({ uri: "shopsavvy://product/027242812352/offers" })
+    await waitFor(() => offersRequests().length >= 2)
+    expect(updated).toEqual([])
+    expect(offersRequests().every((request) => request.params.ids === "027242812352")).toBe(true)
+
+    watching.api.respondWith("/products/offers", {
+      status: 200,
+      body: { success: true, data: [{ shopsavvy: "1000002", title: "Sony WH-1000XM5", barcode: "027242812352", offers: [{ retailer: "amazon.com", price: 299, availability: "in_stock" }] }] }
+    })
+    await waitFor(() => updated.length > 0)
+    expect(updated[0]).toBe("shopsavvy://product/027242812352/offers")
+
+    await watching.client.unsubscribeResource({ uri: "shopsavvy://product/1000001/offers" })
+    await watching.client.unsubscribeResource({ uri: "shopsavvy://product/027242812352/offers" })
+    // Let a poll that was already running finish
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    const count = watching.api.requests.length
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(watching.api.requests.length).toBe(count)
+  })
+
+  test("check the API key of every request, not just the first one of a session", async () => {
+    // The session starts with the server's key, then sends a malformed one
+    let apiKey: string | undefined
+    const client = new Client({ name: "shopsavvy-tests", version: "1.0.0" })
+    await client.connect(new StreamableHTTPClientTransport(watching.url, {
+      fetch: (url, init) => {
+        const headers = new Headers(init?.headers)
+        if (apiKey) headers.set("X-ShopSavvy-Api-Key", apiKey)
+        return fetch(url, { ...init, headers })
+      }
+    }))
+    apiKey = "not-a-key"
+    try {
+      await expect(client.subscribeResource({ uri: "shopsavvy://product/027242812352/offers" })).rejects.toThrow("Invalid ShopSavvy API key format")
+    } finally {
+      await client.close()
+    }
+  })
+})
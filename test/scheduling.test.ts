@@ -0,0 +1,175 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness()
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("product_schedule", () => {
+  test("schedules products and reports each identifier", async () => {
+    const result = await harness.call("product_schedule", { identifiers: ["194253397168", "4006381333931"], schedule: "hourly", retailer: "amazon.com" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Scheduled 1 of 2 Products")
+    expect(result.text).toContain("**Retailer Filter:** amazon.com")
+    expect(result.json.data.results.map((item: any) => item.status)).toEqual(["found", "not_found"])
+    expect(result.json.data.results[0].result).toMatchObject({ shopsavvy_id: "1000001", schedule: "hourly", retailer: "amazon.com" })
+    expect(harness.api.requests.at(-1)).toMatchObject({ method: "PUT", params: { schedule: "hourly", retailer: "amazon.com" } })
+  })
+
+  test("fails when the API rejects the request", async () => {
+    harness.api.respondWith("/products/scheduled", { status: 400, body: { success: false, error: "Too many scheduled products" } })
+    const result = await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "daily" })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("ShopSavvy API Error (400): Too many scheduled products")
+  })
+})
+
+describe("product_unschedule", () => {
+  test("removes products from the schedule", async () => {
+    const result = await harness.call("product_unschedule", { identifiers: "1000002" })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Removed 1 of 1 products")
+    expect(harness.api.requests.map((request) => request.method)).toEqual(["GET", "DELETE", "GET"])
+    expect(harness.api.requests[1]).toMatchObject({ method: "DELETE", params: { ids: "1000002" } })
+
+    const list = await harness.call("scheduled_products_list")
+    expect(list.json.data.products).toEqual([])
+  })
+
+  test("reports which products were removed and which were never scheduled", async () => {
+    const result = await harness.call("product_unschedule", { identifiers: ["027242812352", "194253397168", "B0SHORT"] })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Removed 1 of 3 products")
+    expect(result.text).toContain("**Results:** 1 removed, 1 not scheduled, 1 invalid")
+    expect(result.text).toContain("**Not scheduled:** 194253397168")
+    expect(result.json.data.results.map((item: any) => item.status)).toEqual(["found", "not_found", "invalid"])
+    expect(result.json.data.results[0].result).toMatchObject({ shopsavvy_id: "1000002", schedule: "daily" })
+  })
+
+  test("matches a product removed by URL", async () => {
+    const result = await harness.call("product_unschedule", { identifiers: ["https://www.amazon.com/dp/B09XS7JWHH"] })
+
+    expect(result.json.data.results[0]).toMatchObject({ status: "found", result: { shopsavvy_id: "1000002" } })
+    expect(harness.api.requests.some((request) => request.path === "/products")).toBe(false)
+  })
+
+  test("looks up URLs when it can't otherwise tell which one removed a product", async () => {
+    const result = await harness.call("product_unschedule", { identifiers: ["https://www.amazon.com/dp/B0BDHWDR12", "https://www.amazon.com/dp/B09XS7JWHH"] })
+
+    expect(result.json.data.results.map((item: any) => item.status)).toEqual(["not_found", "found"])
+    expect(result.json.data.results[1].result.shopsavvy_id).toBe("1000002")
+    expect(result.text).toContain("2 credits used")
+  })
+
+  test("rejects a list of invalid identifiers", async () => {
+    const result = await harness.call("product_unschedule", { identifiers: ["B0SHORT"] })
+
+    expect(result.isError).toBe(true)
+    expect(harness.api.requests).toHaveLength(0)
+  })
+})
+
+describe("schedule_sync", () => {
+  const desired = [
+    { identifier: "194253397168", schedule: "daily", retailer: "amazon.com" },
+    { identifier: "B09XS7JWHH", schedule: "hourly" }
+  ]
+
+  test("shows the changes without making them by default", async () => {
+    const result = await harness.call("schedule_sync", { products: desired })
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Schedule Sync Plan (dry run)")
+    expect(result.text).toContain("**Changes:** 1 to add, 1 to change, 0 to remove, 0 unchanged")
+    expect(result.text).toContain("- 194253397168: daily at amazon.com")
+    expect(result.text).toContain("(B09XS7JWHH): daily → hourly")
+    expect(result.text).toContain("up to 30 credits every 30 days now, up to 750 after the sync")
+    expect(result.json.data).toMatchObject({ applied: false, refresh_cost: { current: 30, planned: 750 } })
+    expect(result.json.data.items.map((item: any) => [item.action, item.status])).toEqual([["add", "planned"], ["change", "planned"]])
+    expect(harness.api.requests.map((request) => request.method)).toEqual(["GET"])
+  })
+
+  test("applies removals first, then one batch per frequency", async () => {
+    const result = await harness.call("schedule_sync", {
+      products: [{ identifier: "9781593279509", schedule: "weekly" }, { identifier: "4006381333931", schedule: "weekly" }],
+      apply: true
+    })
+
+    expect(result.text).toContain("Schedule Synced: 2 of 3 Changes Applied")
+    expect(result.text).toContain("- 4006381333931: weekly - ❌ not found")
+    expect(result.json.data.items.map((item: any) => [item.action, item.status])).toEqual([
+      ["add", "applied"],
+      ["add", "not_found"],
+      ["remove", "applied"]
+    ])
+    // Neither identifier matches the scheduled product, so they are looked up first
+    expect(harness.api.requests.map((request) => `${request.method} ${request.path}`)).toEqual([
+      "GET /products/scheduled",
+      "GET /products",
+      "DELETE /products/scheduled",
+      "GET /products/scheduled",
+      "PUT /products/scheduled"
+    ])
+
+    const list = await harness.call("scheduled_products_list")
+    expect(list.json.data.products).toEqual([expect.objectContaining({ shopsavvy_id: "1000003", schedule: "weekly" })])
+  })
+
+  test("keeps unlisted products when asked", async () => {
+    const result = await harness.call("schedule_sync", { products: [desired[0]], keep_unlisted: true, apply: true })
+
+    expect(result.json.data.items.map((item: any) => item.action)).toEqual(["add"])
+    expect((await harness.call("scheduled_products_list")).json.data.products).toHaveLength(2)
+  })
+
+  test("recognizes a scheduled product named by URL", async () => {
+    const result = await harness.call("schedule_sync", { products: [{ identifier: "https://www.amazon.com/dp/B09XS7JWHH", schedule: "daily" }], apply: true })
+
+    expect(result.text).toContain("already matches the 1 listed product")
+    expect(harness.api.requests.map((request) => request.method)).toEqual(["GET", "GET"])
+  })
+
+  test("refuses invalid identifiers before reading the schedule", async () => {
+    const result = await harness.call("schedule_sync", { products: [{ identifier: "B0SHORT", schedule: "daily" }], apply: true })
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toContain("Fix these identifiers first, nothing was changed")
+    expect(harness.api.requests).toHaveLength(0)
+  })
+})
+
+describe("scheduled_products_list", () => {
+  test("groups scheduled products by frequency", async () => {
+    await harness.call("product_schedule", { identifiers: ["194253397168"], schedule: "weekly" })
+    const result = await harness.call("scheduled_products_list")
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("Scheduled Products (2 total)")
+    expect(result.text).toContain("### Daily (1)")
+    expect(result.text).toContain("### Weekly (1)")
+    expect(result.json.data.products.map((product: any) => product.shopsavvy_id)).toEqual(["1000002", "1000001"])
+  })
+
+  test("explains an empty schedule", async () => {
+    harness.api.respondWith("/products/scheduled", { status: 200, body: { success: true, data: [] } })
+    const result = await harness.call("scheduled_products_list")
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("No products are currently scheduled")
+    expect(result.json.data.products).toEqual([])
+  })
+})
@@ -0,0 +1,201 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { addDays } from "../src/analysis.js"
+import { parseIdentifier } from "../src/identifiers.js"
+import { Logger } from "../src/logger.js"
+import { archiveResponse, MemorySnapshotStore, missingRanges, SqliteSnapshotStore } from "../src/snapshots.js"
+import type { PriceSnapshot } from "../src/types.js"
+import { startHarness, type Harness } from "./harness.js"
+
+const today = new Date().toISOString().slice(0, 10)
+const daysAgo = (days: number) => addDays(today, -days)
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness({ snapshots: new MemorySnapshotStore() })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("missingRanges", () => {
+  test("finds the days no fetched range covers", () => {
+    const covered = [{ start: "2024-01-10", end: "2024-01-12" }, { start: "2024-01-13", end: "2024-01-15" }, { start: "2024-01-20", end: "2024-01-25" }]
+
+    expect(missingRanges(covered, { start: "2024-01-05", end: "2024-01-31" })).toEqual([
+      { start: "2024-01-05", end: "2024-01-09" },
+      { start: "2024-01-16", end: "2024-01-19" },
+      { start: "2024-01-26", end: "2024-01-31" }
+    ])
+    expect(missingRanges(covered, { start: "2024-01-11", end: "2024-01-14" })).toEqual([])
+  })
+})
+
+describe("SqliteSnapshotStore", () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "shopsavvy-snapshots-"))
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test("keeps one price per product, retailer, condition and timestamp across restarts", () => {
+    const path = join(dir, "archive", "snapshots.db")
+    const body = {
+      data: [{
+        shopsavvy: "42",
+        title: "Kettle",
+        barcode: "012345678905",
+        offers: [
+          null,
+          { retailer: "a.com", currency: "EUR", history: [{ timestamp: "2024-03-01T12:00:00Z", price: 20 }, { timestamp: "bogus", price: 5 }, { timestamp: "2024-03-02T12:00:00Z", price: "cheap" }] },
+          { history: [{ timestamp: "2024-03-01T12:00:00Z", price: 1 }] }
+        ]
+      }]
+    }
+    const params = { ids: "012345678905", start: "2024-03-01", end: "2024-03-05", country: "de" }
+    const store = new SqliteSnapshotStore(path)
+    archiveResponse(store, "/products/offers/history", params, body)
+    archiveResponse(store, "/products/offers/history", params, body)
+    store.close()
+
+    const reloaded = new SqliteSnapshotStore(path)
+    try {
+      expect(reloaded.query("42", "DE", { start: "2024-03-01", end: "2024-03-31" })).toEqual([
+        { product: "42", retailer: "a.com", condition: null, timestamp: "2024-03-01T12:00:00.000Z", price: 20, currency: "EUR", availability: null, region: "DE", source: "history" }
+      ])
+      expect(reloaded.query("42", null, { start: "2024-03-01", end: "2024-03-31" })).toEqual([])
+      expect(reloaded.coverage("42", "DE")).toEqual([{ start: "2024-03-01", end: "2024-03-05" }])
+      expect(reloaded.findProduct(parseIdentifier("012345678905"))?.title).toBe("Kettle")
+    } finally {
+      reloaded.close()
+    }
+  })
+
+  test("logs failed writes instead of throwing", () => {
+    const lines: string[] = []
+    const store = new SqliteSnapshotStore(join(dir, "closed.db"), new Logger("warn", (line) => lines.push(line)))
+    store.close()
+
+    expect(() => store.addCoverage("9", null, { start: "2024-06-01", end: "2024-06-02" })).not.toThrow()
+    expect(store.add([{ product: "9", retailer: "c.com", condition: null, timestamp: "2024-06-01T00:00:00.000Z", price: 30, currency: "USD", availability: null, region: null, source: "offers" }])).toEqual([])
+    expect(lines.map((line) => JSON.parse(line).msg)).toEqual(["Failed to write to the price archive", "Failed to write to the price archive"])
+  })
+
+  test("finds products and days the way the memory store does", () => {
+    const store = new SqliteSnapshotStore(join(dir, "lookups.db"))
+    try {
+      store.putProduct({ shopsavvy: "9", title: "Old title" })
+      store.putProduct({ shopsavvy: "9", title: "Toaster", barcode: "0012345678905", model: "TX-100" })
+      expect(store.findProduct(parseIdentifier("012345678905"))).toEqual({ shopsavvy: "9", title: "Toaster", barcode: "0012345678905", model: "TX-100" })
+      expect(store.findProduct(parseIdentifier("tx-100"))?.shopsavvy).toBe("9")
+      expect(store.findProduct(parseIdentifier("TX-10"))).toBeUndefined()
+
+      const snapshot: PriceSnapshot = { product: "9", retailer: "c.com", condition: "new", timestamp: "2024-06-01T23:59:59.000Z", price: 30, currency: "USD", availability: null, region: null, source: "offers" }
+      expect(store.add([snapshot, { ...snapshot, condition: null, timestamp: "2024-06-03T00:00:00.000Z" }])).toHaveLength(2)
+      expect(store.add([{ ...snapshot, price: 25 }])).toEqual([])
+      expect(store.query("9", null, { start: "2024-06-01", end: "2024-06-02" })).toEqual([snapshot])
+
+      store.addCoverage("9", null, { start: "2024-06-04", end: "2024-06-05" })
+      store.addCoverage("9", null, { start: "2024-06-01", end: "2024-06-03" })
+      store.addCoverage("9", "GB", { start: "2024-06-10", end: "2024-06-10" })
+      expect(store.coverage("9", null)).toEqual([{ start: "2024-06-01", end: "2024-06-05" }])
+    } finally {
+      store.close()
+    }
+  })
+
+  test("timestamps cached offers when they were fetched, and marks no days fetched for one retailer", () => {
+    const store = new MemorySnapshotStore()
+    const offers = { meta: { cached: true, cached_at: "2024-05-01T08:00:00.000Z" }, data: [{ shopsavvy: "7", offers: [{ retailer: "b.com", price: 12, condition: "new" }, { retailer: "b.com", price: 10, condition: "New" }] }] }
+    archiveResponse(store, "/products/offers", {}, offers)
+    archiveResponse(store, "/products/offers/history", { start: "2024-04-01", end: "2024-04-30", retailer: "b.com" }, { data: [{ shopsavvy: "7", offers: [] }] })
+
+    expect(store.query("7", null, { start: "2024-05-01", end: "2024-05-01" })).toMatchObject([{ timestamp: "2024-05-01T08:00:00.000Z", price: 10, condition: "new", source: "offers" }])
+    expect(store.coverage("7", null)).toEqual([])
+  })
+})
+
+describe("local_price_history", () => {
+  test("fetches only the days the archive is missing", async () => {
+    const first = await harness.call("local_price_history", { identifier: "027242812352", start_date: daysAgo(30), end_date: daysAgo(10) })
+
+    expect(first.isError).toBe(false)
+    expect(first.text).toContain(`**Fetched from the API:** ${daysAgo(30)} to ${daysAgo(10)}`)
+    expect(first.json.data.archived_prices).toBe(42)
+    expect(harness.api.requests.map((request) => request.params)).toEqual([{ ids: "027242812352", start: daysAgo(30), end: daysAgo(10) }])
+
+    harness.api.reset()
+    const wider = await harness.call("local_price_history", { identifier: "027242812352", start_date: daysAgo(40), end_date: daysAgo(5) })
+    expect(wider.json.data.fetched).toEqual([{ start: daysAgo(40), end: daysAgo(31) }, { start: daysAgo(9), end: daysAgo(5) }])
+    expect(harness.api.requests.map((request) => request.params)).toEqual([
+      { ids: "1000002", start: daysAgo(40), end: daysAgo(31) },
+      { ids: "1000002", start: daysAgo(9), end: daysAgo(5) }
+    ])
+    expect(wider.json.data.overall.points).toBe(36)
+
+    harness.api.reset()
+    const again = await harness.call("local_price_history", { identifier: "B09XS7JWHH", start_date: daysAgo(35), end_date: daysAgo(5) })
+    expect(again.text).toContain("**Fetched from the API:** nothing, the archive already had these days")
+    expect(again.text).toContain("**Usage:** answered from the local archive, 0 credits")
+    expect(again.json.usage).toBeNull()
+    expect(harness.api.requests).toHaveLength(0)
+  })
+
+  test("answers from offers and history other tools received", async () => {
+    await harness.call("product_price_history", { identifier: "194253397168", start_date: daysAgo(20), end_date: today })
+    await harness.call("product_offers", { identifier: "194253397168" })
+    harness.api.reset()
+
+    const result = await harness.call("local_price_history", { identifier: "B0BDHWDR12", start_date: daysAgo(20) })
+    expect(harness.api.requests).toHaveLength(0)
+    expect(result.text).toContain("## 🗄️ Local Price History for Apple AirPods Pro (2nd Generation)")
+    expect(result.text).toContain("**Archived Prices:** 45 (42 from price history, 3 from offers)")
+    expect(result.text).toContain("### Overall (lowest price across retailers, 21 days)")
+    expect(result.json.data.overall.current).toBeLessThanOrEqual(179)
+
+    const used = await harness.call("local_price_history", { identifier: "194253397168", start_date: daysAgo(20), condition: "used" })
+    expect(used.json.data.archived_prices).toBe(1)
+    expect(used.json.data.overall.current).toBe(159.5)
+
+    const bestBuy = await harness.call("local_price_history", { identifier: "194253397168", start_date: daysAgo(20), retailer: "bestbuy" })
+    expect(bestBuy.json.data.retailers.map((stats: any) => stats.retailer)).toEqual(["bestbuy.com"])
+  })
+
+  test("reports the missing days without fetching them", async () => {
+    const unknown = await harness.call("local_price_history", { identifier: "9781593279509", fetch_missing: false })
+    expect(unknown.isError).toBe(false)
+    expect(unknown.text).toContain("No prices for 9781593279509 are in the local archive yet")
+
+    await harness.call("product_offers", { identifier: "9781593279509" })
+    harness.api.reset()
+    const result = await harness.call("local_price_history", { identifier: "9781593279509", start_date: daysAgo(3), fetch_missing: false })
+
+    expect(result.text).toContain(`**Missing from the archive:** ${daysAgo(3)} to ${daysAgo(1)}`)
+    expect(result.json.data).toMatchObject({ archived_prices: 1, fetched: [], missing: [{ start: daysAgo(3), end: daysAgo(1) }] })
+    expect(harness.api.requests).toHaveLength(0)
+  })
+
+  test("is off without an archive", async () => {
+    const plain = await startHarness()
+    try {
+      const result = await plain.call("local_price_history", { identifier: "194253397168" })
+      expect(result.isError).toBe(true)
+      expect(result.text).toContain("The local price archive is off")
+      expect(plain.api.requests).toHaveLength(0)
+    } finally {
+      await plain.close()
+    }
+  })
+})
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test"
+import { startHarness, type Harness } from "./harness.js"
+
+let harness: Harness
+
+beforeAll(async () => {
+  harness = await startHarness({}, { fixtures: { products: [], credits_limit: 1000, credits_used: 800 } })
+})
+
+afterAll(async () => {
+  await harness.close()
+})
+
+beforeEach(() => {
+  harness.api.reset()
+})
+
+describe("api_usage", () => {
+  test("reports credit usage for the billing period", async () => {
+    const result = await harness.call("api_usage")
+
+    expect(result.isError).toBe(false)
+    expect(result.text).toContain("- Used: 800 credits")
+    expect(result.text).toContain("- Remaining: 200 credits")
+    expect(result.text).toContain("⚡ **Usage Notice:** You've used 80% of your monthly credits.")
+    expect(result.json.data.usage).toMatchObject({ credits_used: 800, credits_limit: 1000, credits_remaining: 200, usage_percentage: 80 })
+  })
+
+  test("reports credits spent by this session per tool, and the limits", async () => {
+    const fixtures = { products: [{ shopsavvy: "1", title: "Anything" }, { shopsavvy: "2", title: "Something" }] }
+    const tracked = await startHarness({ budget: { perCall: 10, minRemaining: 50 } }, { fixtures })
+    try {
+      await tracked.call("product_lookup_batch", { identifiers: ["1", "2"] })
+      await tracked.call("product_lookup", { identifier: "1" })
+      const result = await tracked.call("api_usage")
+
+      expect(result.text).toContain("**This Session:** 3 credits (3 requests)")
+      expect(result.text).toContain("- product_lookup_batch: 2 credits (1 request)")
+      expect(result.text).toContain("**Credit Limits:** 10 per call, keep 50 in reserve")
+      expect(result.json.data.local).toMatchObject({
+        session: { credits_used: 3, requests: 3, cached_responses: 0 },
+        by_tool: { product_lookup: { credits_used: 1, requests: 1 }, api_usage: { credits_used: 0, requests: 1 } },
+        today: { credits_used: 3 },
+        limits: { per_call: 10, per_session: null, per_day: null, min_remaining: 50, recurring: null }
+      })
+    } finally {
+      await tracked.close()
+    }
+  })
+
+  test("reports a response without usage statistics", async () => {
+    harness.api.respondWith("/usage", { status: 200, body: { success: true, data: null } })
+    const result = await harness.call("api_usage")
+
+    expect(result.isError).toBe(true)
+    expect(result.text).toBe("❌ Unable to retrieve usage statistics")
+  })
+})
+
+describe("credits", () => {
+  test("reports exhausted credits from the API", async () => {
+    const exhausted = await startHarness({}, { fixtures: { products: [{ shopsavvy: "1", title: "Anything" }], credits_limit: 0 } })
+    try {
+      const result = await exhausted.call("product_lookup", { identifier: "1" })
+
+      expect(result.isError).toBe(true)
+      expect(result.text).toContain("API credits exhausted")
+    } finally {
+      await exhausted.close()
+    }
+  })
+})